@@ -0,0 +1,412 @@
+import type { File } from '../internal/file.js';
+import type { CreationOptions, UsageInfo } from '../internal/filesystem.js';
+import type { CompressionFormat } from '../utils.js';
+import type { Backend } from './backend.js';
+
+import { resolveMountConfig, type MountConfiguration } from '../config.js';
+import { Errno, ErrnoError } from '../internal/error.js';
+import { LazyFile } from '../internal/file.js';
+import { FileSystem } from '../internal/filesystem.js';
+import { Inode, isDirectory, type InodeLike } from '../internal/inode.js';
+import { err } from '../internal/log.js';
+import { Async } from '../mixins/async.js';
+import { compress, decompress } from '../utils.js';
+import { InMemory } from './memory.js';
+
+/**
+ * Options for the `Compressed` backend
+ * @category Backends and Configuration
+ */
+export interface CompressedOptions {
+	/** The file system to store compressed data on. */
+	fs: MountConfiguration<any>;
+
+	/**
+	 * The compression format to use for new data.
+	 * Existing files are read using the format they were written with.
+	 * @default 'deflate-raw'
+	 */
+	format?: CompressionFormat;
+
+	/**
+	 * The size of the chunks file contents are compressed in.
+	 * Larger chunks compress better, but reads and writes need to decompress entire chunks.
+	 * @default 65536
+	 */
+	chunkSize?: number;
+}
+
+const formats = ['gzip', 'deflate', 'deflate-raw'] as const satisfies CompressionFormat[];
+
+/**
+ * Set on a chunk's size when the chunk is stored uncompressed, since it would not be any smaller when compressed
+ */
+const uncompressed = 0x80000000;
+
+/**
+ * The size of the fixed part of the header
+ */
+const headerSize = 20;
+
+/**
+ * The header of a compressed file. Files are stored as:
+ * - The compression format (u8), followed by 3 reserved bytes
+ * - The chunk size (u32)
+ * - The uncompressed size of the file (u64)
+ * - The number of chunks (u32)
+ * - The stored size of each chunk (u32), with the highest bit set if the chunk is uncompressed
+ * - The chunks
+ */
+interface Header {
+	format: CompressionFormat;
+	chunkSize: number;
+	size: number;
+	chunks: number[];
+}
+
+function encodeHeader({ format, chunkSize, size, chunks }: Header): Uint8Array {
+	const data = new Uint8Array(headerSize + chunks.length * 4);
+	const view = new DataView(data.buffer);
+	view.setUint8(0, formats.indexOf(format));
+	view.setUint32(4, chunkSize, true);
+	view.setBigUint64(8, BigInt(size), true);
+	view.setUint32(16, chunks.length, true);
+	for (let i = 0; i < chunks.length; i++) view.setUint32(headerSize + i * 4, chunks[i], true);
+	return data;
+}
+
+/**
+ * The number of bytes a chunk takes up
+ */
+function storedSize(chunk: number): number {
+	return chunk & ~uncompressed;
+}
+
+/**
+ * Compresses and decompresses file contents on another file system.
+ *
+ * Contents are compressed in fixed-size chunks using `CompressionStream`,
+ * so reads only need to decompress the chunks they overlap.
+ * Writes recompress the chunks they overlap, then rewrite the file.
+ *
+ * Since compression streams are asynchronous, synchronous operations use an in-memory cache of the uncompressed contents.
+ * @category Internals
+ * @internal
+ */
+export class CompressedFS extends Async(FileSystem) {
+	/**
+	 * @hidden
+	 */
+	_sync = InMemory.create({ name: 'tmpfs:compressed' });
+
+	/**
+	 * Writes rewrite entire files, so operations are done one at a time.
+	 */
+	private _lock: Promise<unknown> = Promise.resolve();
+
+	public constructor(
+		/** The file system compressed data is stored on */
+		public readonly fs: FileSystem,
+		public readonly format: CompressionFormat = 'deflate-raw',
+		public readonly chunkSize: number = 0x10000
+	) {
+		super(0x636d7072, 'compressedfs');
+		if (fs.attributes.has('no_write')) this.attributes.set('no_write');
+	}
+
+	/**
+	 * Runs `operation` after all of the other operations have finished
+	 */
+	protected locked<T>(operation: () => Promise<T>): Promise<T> {
+		const result = this._lock.then(operation);
+		this._lock = result.catch(() => {});
+		return result;
+	}
+
+	protected async readHeader(path: string): Promise<Header> {
+		const { size: stored } = await this.fs.stat(path);
+		if (!stored) return { format: this.format, chunkSize: this.chunkSize, size: 0, chunks: [] };
+
+		if (stored < headerSize) throw err(new ErrnoError(Errno.EIO, 'Compressed file header is truncated', path, 'read'));
+
+		const fixed = new Uint8Array(headerSize);
+		await this.fs.read(path, fixed, 0, headerSize);
+		const view = new DataView(fixed.buffer);
+
+		const format = formats[view.getUint8(0)];
+		if (!format) throw err(new ErrnoError(Errno.EIO, 'Unknown compression format: ' + view.getUint8(0), path, 'read'));
+
+		const count = view.getUint32(16, true);
+		const table = new Uint8Array(count * 4);
+		await this.fs.read(path, table, headerSize, headerSize + table.byteLength);
+		const tableView = new DataView(table.buffer);
+
+		return {
+			format,
+			chunkSize: view.getUint32(4, true),
+			size: Number(view.getBigUint64(8, true)),
+			chunks: Array.from({ length: count }, (_, i) => tableView.getUint32(i * 4, true)),
+		};
+	}
+
+	/**
+	 * Reads and decompresses the chunks from `first` to `last`
+	 */
+	protected async readChunks(path: string, header: Header, first: number, last: number): Promise<Uint8Array[]> {
+		last = Math.min(last, header.chunks.length - 1);
+		if (last < first) return [];
+
+		let offset = headerSize + header.chunks.length * 4;
+		for (let i = 0; i < first; i++) offset += storedSize(header.chunks[i]);
+
+		let length = 0;
+		for (let i = first; i <= last; i++) length += storedSize(header.chunks[i]);
+
+		const data = new Uint8Array(length);
+		await this.fs.read(path, data, offset, offset + length);
+
+		const chunks = [];
+		for (let i = first, start = 0; i <= last; start += storedSize(header.chunks[i]), i++) {
+			const chunk = data.subarray(start, start + storedSize(header.chunks[i]));
+			chunks.push(header.chunks[i] & uncompressed ? Promise.resolve(chunk) : decompress(chunk, header.format));
+		}
+		return await Promise.all(chunks);
+	}
+
+	/**
+	 * Replaces the chunks from `first` up to `end` with `data` (compressing it),
+	 * then writes the new file.
+	 */
+	protected async replaceChunks(path: string, header: Header, first: number, end: number, data: Uint8Array, size: number): Promise<void> {
+		const { chunkSize, format } = header;
+
+		const replacements: Promise<Uint8Array>[] = [];
+		for (let offset = 0; offset < data.byteLength; offset += chunkSize) {
+			replacements.push(compress(data.subarray(offset, offset + chunkSize), format));
+		}
+
+		const compressed = await Promise.all(replacements);
+
+		// Chunks that don't get smaller are stored as is
+		const sizes = compressed.map((chunk, i) => {
+			const raw = data.subarray(i * chunkSize, (i + 1) * chunkSize);
+			if (chunk.byteLength < raw.byteLength) return chunk.byteLength;
+			compressed[i] = raw;
+			return (raw.byteLength | uncompressed) >>> 0;
+		});
+
+		const before = await this.readStored(path, header, 0, first);
+		const after = await this.readStored(path, header, end, header.chunks.length);
+
+		const newHeader = encodeHeader({
+			format,
+			chunkSize,
+			size,
+			chunks: [...header.chunks.slice(0, first), ...sizes, ...header.chunks.slice(end)],
+		});
+		const contents = [newHeader, before, ...compressed, after];
+
+		const file = new Uint8Array(contents.reduce((total, part) => total + part.byteLength, 0));
+		let offset = 0;
+		for (const part of contents) {
+			file.set(part, offset);
+			offset += part.byteLength;
+		}
+
+		await this.fs.write(path, file, 0);
+		await this.fs.sync(path, undefined, { size: file.byteLength } as InodeLike);
+	}
+
+	/**
+	 * Reads the chunks from `start` up to `end` without decompressing them
+	 */
+	protected async readStored(path: string, header: Header, start: number, end: number): Promise<Uint8Array> {
+		let offset = headerSize + header.chunks.length * 4;
+		for (let i = 0; i < start; i++) offset += storedSize(header.chunks[i]);
+
+		let length = 0;
+		for (let i = start; i < end; i++) length += storedSize(header.chunks[i]);
+
+		const data = new Uint8Array(length);
+		if (length) await this.fs.read(path, data, offset, offset + length);
+		return data;
+	}
+
+	/**
+	 * Writes `data` at `offset`, recompressing the chunks it overlaps.
+	 * If `offset` is past the end of the file, the space in between is filled with zeros.
+	 */
+	protected async writeRange(path: string, data: Uint8Array, offset: number): Promise<void> {
+		const header = await this.readHeader(path);
+		const { chunkSize, size } = header;
+		const end = offset + data.byteLength;
+		if (end <= size && !data.byteLength) return;
+
+		const first = Math.floor(Math.min(offset, size) / chunkSize);
+		const last = Math.ceil(end / chunkSize) - 1;
+		const start = first * chunkSize;
+
+		const plain = new Uint8Array(Math.max(end, Math.min(size, (last + 1) * chunkSize)) - start);
+		let position = 0;
+		for (const chunk of await this.readChunks(path, header, first, last)) {
+			plain.set(chunk, position);
+			position += chunk.byteLength;
+		}
+		plain.set(data, offset - start);
+
+		await this.replaceChunks(path, header, first, Math.min(last + 1, header.chunks.length), plain, Math.max(size, end));
+	}
+
+	/**
+	 * Changes the size of a file, filling any new space with zeros
+	 */
+	protected async resize(path: string, length: number): Promise<void> {
+		const header = await this.readHeader(path);
+		const { chunkSize, size } = header;
+
+		if (length == size) return;
+		if (length > size) return await this.writeRange(path, new Uint8Array(), length);
+
+		const index = Math.floor(length / chunkSize);
+		const [chunk] = length % chunkSize ? await this.readChunks(path, header, index, index) : [];
+
+		await this.replaceChunks(path, header, index, header.chunks.length, chunk?.subarray(0, length % chunkSize) ?? new Uint8Array(), length);
+	}
+
+	protected async uncompressedStats(path: string, stats: InodeLike): Promise<InodeLike> {
+		const inode = new Inode(stats);
+		if (!isDirectory(inode)) inode.size = (await this.readHeader(path)).size;
+		return inode;
+	}
+
+	public usage(): UsageInfo {
+		return this.fs.usage();
+	}
+
+	public rename(oldPath: string, newPath: string): Promise<void> {
+		return this.locked(async () => await this.fs.rename(oldPath, newPath));
+	}
+
+	public stat(path: string): Promise<InodeLike> {
+		return this.locked(async () => await this.uncompressedStats(path, await this.fs.stat(path)));
+	}
+
+	public touch(path: string, metadata: Partial<InodeLike>): Promise<void> {
+		return this.locked(async () => {
+			// Sizes can't be changed without changing the contents
+			await this.fs.touch(path, { ...metadata, size: undefined });
+		});
+	}
+
+	public openFile(path: string, flag: string): Promise<File> {
+		return this.locked(async () => new LazyFile(this, path, flag, await this.uncompressedStats(path, await this.fs.stat(path))));
+	}
+
+	public createFile(path: string, flag: string, mode: number, options: CreationOptions): Promise<File> {
+		return this.locked(async () => {
+			const file = await this.fs.createFile(path, flag, mode, options);
+			await file.close();
+			return new LazyFile(this, path, flag, await this.uncompressedStats(path, await this.fs.stat(path)));
+		});
+	}
+
+	public unlink(path: string): Promise<void> {
+		return this.locked(async () => await this.fs.unlink(path));
+	}
+
+	public rmdir(path: string): Promise<void> {
+		return this.locked(async () => await this.fs.rmdir(path));
+	}
+
+	public mkdir(path: string, mode: number, options: CreationOptions): Promise<void> {
+		return this.locked(async () => await this.fs.mkdir(path, mode, options));
+	}
+
+	public readdir(path: string): Promise<string[]> {
+		return this.locked(async () => await this.fs.readdir(path));
+	}
+
+	public link(target: string, link: string): Promise<void> {
+		return this.locked(async () => await this.fs.link(target, link));
+	}
+
+	public sync(path: string, data?: Uint8Array, stats?: Readonly<InodeLike>): Promise<void> {
+		return this.locked(async () => {
+			if (!isDirectory(await this.fs.stat(path))) {
+				if (data) {
+					await this.resize(path, 0);
+					await this.writeRange(path, data, 0);
+				}
+
+				if (stats) await this.resize(path, stats.size);
+			}
+
+			if (!stats) return;
+
+			const { size } = await this.fs.stat(path);
+			await this.fs.sync(path, undefined, { ...stats, size });
+		});
+	}
+
+	public read(path: string, buffer: Uint8Array, offset: number, end: number): Promise<void> {
+		return this.locked(async () => {
+			const header = await this.readHeader(path);
+			end = Math.min(end, header.size);
+			if (end <= offset) return;
+
+			const first = Math.floor(offset / header.chunkSize);
+			const chunks = await this.readChunks(path, header, first, Math.ceil(end / header.chunkSize) - 1);
+
+			let position = first * header.chunkSize;
+			for (const chunk of chunks) {
+				const start = Math.max(offset, position);
+				const stop = Math.min(end, position + chunk.byteLength);
+				if (stop > start) buffer.set(chunk.subarray(start - position, stop - position), start - offset);
+				position += chunk.byteLength;
+			}
+		});
+	}
+
+	public write(path: string, buffer: Uint8Array, offset: number): Promise<void> {
+		return this.locked(async () => await this.writeRange(path, buffer, offset));
+	}
+}
+
+const _Compressed = {
+	name: 'Compressed',
+	options: {
+		fs: { type: 'object', required: true },
+		format: {
+			type: 'string',
+			required: false,
+			validator(format: CompressionFormat) {
+				if (!formats.includes(format)) throw err(new ErrnoError(Errno.EINVAL, 'Unsupported compression format: ' + format));
+			},
+		},
+		chunkSize: {
+			type: 'number',
+			required: false,
+			validator(chunkSize: number) {
+				if (!Number.isSafeInteger(chunkSize) || chunkSize <= 0 || chunkSize >= uncompressed) {
+					throw err(new ErrnoError(Errno.EINVAL, 'Invalid chunk size: ' + chunkSize));
+				}
+			},
+		},
+	},
+	isAvailable(): boolean {
+		return typeof CompressionStream == 'function' && typeof DecompressionStream == 'function';
+	},
+	async create({ fs, format, chunkSize }: CompressedOptions) {
+		return new CompressedFS(await resolveMountConfig(fs), format, chunkSize);
+	},
+} as const satisfies Backend<CompressedFS, CompressedOptions>;
+type _Compressed = typeof _Compressed;
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface Compressed extends _Compressed {}
+
+/**
+ * Compresses the contents of files stored on another file system, using `CompressionStream`.
+ * @category Backends and Configuration
+ */
+export const Compressed: Compressed = _Compressed;
@@ -1,6 +1,5 @@
 import type { File } from '../internal/file.js';
-import type { CreationOptions, StreamOptions, UsageInfo } from '../internal/filesystem.js';
-import type { InodeLike } from '../internal/inode.js';
+import type { ChangeListener, CreationOptions, StreamOptions, UsageInfo } from '../internal/filesystem.js';
 import type { Backend } from './backend.js';
 
 import { EventEmitter } from 'eventemitter3';
@@ -9,7 +8,7 @@ import { resolveMountConfig, type MountConfiguration } from '../config.js';
 import { Errno, ErrnoError } from '../internal/error.js';
 import { LazyFile } from '../internal/file.js';
 import { FileSystem } from '../internal/filesystem.js';
-import { isDirectory } from '../internal/inode.js';
+import { hasAttributes, isDirectory, type Attributes, type InodeLike } from '../internal/inode.js';
 import { debug, err, warn } from '../internal/log.js';
 import { dirname, join } from '../vfs/path.js';
 
@@ -29,11 +28,15 @@ export interface CopyOnWriteOptions {
 }
 
 /**
- *  @hidden @deprecated use `CopyOnWriteOptions`
+ * A change made by a CoW file system, relative to the readable file system.
+ * @category Backends and Configuration
  */
-export type OverlayOptions = CopyOnWriteOptions;
+export interface CopyOnWriteChange {
+	path: string;
+	type: 'added' | 'modified' | 'deleted';
+}
 
-const journalOperations = ['delete'] as const;
+const journalOperations = ['delete', 'rename', 'opaque', 'restore'] as const;
 
 /**
  * @internal
@@ -53,72 +56,217 @@ const maxOpLength = Math.max(...journalOperations.map(op => op.length));
 export interface JournalEntry {
 	path: string;
 	op: JournalOperation;
+	/** The new path, for renames */
+	dest?: string;
+}
+
+/**
+ * The header of the current journal format.
+ * Versions:
+ * 0. Only supports `delete`. Paths are separated from the operation by whitespace.
+ * 1. (current) Adds `rename`, `opaque` and `restore`. Paths are JSON strings.
+ */
+const journalMagicString = '#journal@v1\n';
+
+const legacyMagicString = '#journal@v0\n';
+
+/**
+ * Whether `path` is `dir` or is inside of it
+ */
+function isWithin(path: string, dir: string): boolean {
+	return path == dir || path.startsWith(dir == '/' ? '/' : dir + '/');
+}
+
+/**
+ * Gets whether an entry hides (`true`) or un-hides (`false`) `path`, or `undefined` if it does not affect `path`.
+ */
+function effectOf({ op, path: target, dest }: JournalEntry, path: string): boolean | undefined {
+	switch (op) {
+		case 'delete':
+			return isWithin(path, target) || undefined;
+		case 'restore':
+			return isWithin(path, target) ? false : undefined;
+		case 'opaque':
+			return (path != target && isWithin(path, target)) || undefined;
+		case 'rename':
+			// The source is gone, and the destination's contents are only those that were renamed
+			if (isWithin(path, target)) return true;
+			if (path == dest) return false;
+			return isWithin(path, dest!) || undefined;
+	}
+}
+
+/**
+ * A path and whether the path itself is included, or only its descendants
+ */
+type Region = [path: string, inclusive: boolean];
+
+/**
+ * Gets the regions affected by an entry. Every path in the region is set to a fixed state by the entry.
+ */
+function regionsOf({ op, path, dest }: JournalEntry): Region[] {
+	switch (op) {
+		case 'delete':
+		case 'restore':
+			return [[path, true]];
+		case 'opaque':
+			return [[path, false]];
+		case 'rename':
+			return [
+				[path, true],
+				[dest!, true],
+			];
+	}
 }
 
-const journalMagicString = '#journal@v0\n';
+function covers([outer, outerInclusive]: Region, [inner, innerInclusive]: Region): boolean {
+	return inner == outer ? outerInclusive || !innerInclusive : isWithin(inner, outer);
+}
 
 /**
  * Tracks various operations for the CoW backend
  * @internal
  */
 export class Journal extends EventEmitter<{
-	update: [op: JournalOperation, path: string];
+	update: [op: JournalOperation, path: string, dest?: string];
 	delete: [path: string];
+	rename: [path: string, dest: string];
+	opaque: [path: string];
+	restore: [path: string];
 }> {
 	protected entries: JournalEntry[] = [];
 
 	public toString(): string {
-		return journalMagicString + this.entries.map(entry => `${entry.op.padEnd(maxOpLength)} ${entry.path}`).join('\n');
+		return (
+			journalMagicString
+			+ this.entries
+				.map(({ op, path, dest }) =>
+					[op.padEnd(maxOpLength), JSON.stringify(path), ...(dest === undefined ? [] : [JSON.stringify(dest)])].join(' ')
+				)
+				.join('\n')
+		);
 	}
 
 	/**
 	 * Parse a journal from a string
 	 */
 	public fromString(value: string): this {
-		if (!value.startsWith(journalMagicString)) throw err(new ErrnoError(Errno.EINVAL, 'Invalid journal contents, refusing to parse'));
+		const isLegacy = value.startsWith(legacyMagicString);
+
+		if (!isLegacy && !value.startsWith(journalMagicString)) {
+			throw err(new ErrnoError(Errno.EINVAL, 'Invalid journal contents, refusing to parse'));
+		}
 
 		for (const line of value.split('\n')) {
-			if (line.startsWith('#')) continue; // ignore comments
+			if (!line || line.startsWith('#')) continue; // ignore comments
 
-			const [op, path] = line.split(/\s+/);
+			const [op, ...paths] = isLegacy
+				? line.split(/\s+/)
+				: [line.split(' ', 1)[0], ...Array.from(line.matchAll(/"(?:[^"\\]|\\.)*"/g), ([path]) => JSON.parse(path) as string)];
 
 			if (!isJournalOp(op)) {
 				warn('Unknown operation in journal (skipping): ' + op);
 				continue;
 			}
 
-			this.entries.push({ op, path });
+			if (paths.length != (op == 'rename' ? 2 : 1)) {
+				warn('Invalid journal entry (skipping): ' + line);
+				continue;
+			}
+
+			const [path, dest] = paths;
+			this.entries.push(op == 'rename' ? { op, path, dest } : { op, path });
 		}
 
 		return this;
 	}
 
-	public add(op: JournalOperation, path: string) {
-		this.entries.push({ op, path });
-		this.emit('update', op, path);
-		this.emit(op, path);
+	public add(op: JournalOperation, path: string, dest?: string) {
+		if (op == 'rename' && dest === undefined) throw err(new ErrnoError(Errno.EINVAL, 'Journal: rename requires a destination', path));
+
+		this.entries.push(op == 'rename' ? { op, path, dest } : { op, path });
+		this.emit('update', op, path, dest);
+		if (op == 'rename') this.emit('rename', path, dest!);
+		else this.emit(op, path);
 	}
 
-	public has(op: JournalOperation, path: string): boolean {
-		const test = JSON.stringify({ op, path });
-		for (const entry of this.entries) if (JSON.stringify(entry) === test) return true;
-		return false;
+	public has(op: JournalOperation, path: string, dest?: string): boolean {
+		return this.entries.some(entry => entry.op == op && entry.path == path && entry.dest == dest);
+	}
+
+	/**
+	 * Removes all entries
+	 */
+	public clear(): void {
+		this.entries = [];
 	}
 
 	public isDeleted(path: string): boolean {
 		let deleted = false;
 
 		for (const entry of this.entries) {
-			if (entry.path != path) continue;
-
-			switch (entry.op) {
-				case 'delete':
-					deleted = true;
-			}
+			deleted = effectOf(entry, path) ?? deleted;
 		}
 
 		return deleted;
 	}
+
+	/**
+	 * Removes entries that do not change which paths are deleted.
+	 * This includes entries that are completely overridden by later entries and restores of paths that were never deleted.
+	 */
+	public compact(): this {
+		const kept: JournalEntry[] = [];
+
+		for (let i = this.entries.length - 1; i >= 0; i--) {
+			const entry = this.entries[i];
+			const isOverridden = regionsOf(entry).every(region => kept.some(later => regionsOf(later).some(other => covers(other, region))));
+			if (!isOverridden) kept.unshift(entry);
+		}
+
+		// Restores only matter if something before them hid part of the restored path
+		this.entries = kept.filter((entry, i) => {
+			if (entry.op != 'restore') return true;
+			return kept
+				.slice(0, i)
+				.some(
+					earlier =>
+						earlier.op != 'restore' && regionsOf(earlier).some(([path]) => isWithin(path, entry.path) || isWithin(entry.path, path))
+				);
+		});
+
+		return this;
+	}
+}
+
+/**
+ * Removes a file or directory and everything in it
+ */
+async function removeRecursive(fs: FileSystem, path: string): Promise<void> {
+	if (!(await fs.exists(path))) return;
+
+	if (!isDirectory(await fs.stat(path))) {
+		await fs.unlink(path);
+		return;
+	}
+
+	for (const entry of await fs.readdir(path)) await removeRecursive(fs, join(path, entry));
+	await fs.rmdir(path);
+}
+
+/**
+ * Removes a file or directory and everything in it
+ */
+function removeRecursiveSync(fs: FileSystem, path: string): void {
+	if (!fs.existsSync(path)) return;
+
+	if (!isDirectory(fs.statSync(path))) {
+		fs.unlinkSync(path);
+		return;
+	}
+
+	for (const entry of fs.readdirSync(path)) removeRecursiveSync(fs, join(path, entry));
+	fs.rmdirSync(path);
 }
 
 /**
@@ -154,6 +302,47 @@ export class CopyOnWriteFS extends FileSystem {
 		return this.journal.isDeleted(path);
 	}
 
+	/**
+	 * Whether this file system is adding an entry to the journal
+	 */
+	protected recording: boolean = false;
+
+	/**
+	 * Adds an entry to the journal.
+	 * This is used so changes made through this file system aren't reported to its own watchers.
+	 */
+	protected record(op: JournalOperation, path: string, dest?: string): void {
+		this.recording = true;
+		try {
+			this.journal.add(op, path, dest);
+		} finally {
+			this.recording = false;
+		}
+	}
+
+	/**
+	 * Watches for changes to either file system and for changes to the journal by other file systems sharing it.
+	 */
+	public watch(listener: ChangeListener): () => void {
+		const onUpdate = (op: JournalOperation, path: string, dest?: string) => {
+			if (this.recording) return;
+			listener('rename', path);
+			if (dest) listener('rename', dest);
+		};
+		this.journal.on('update', onUpdate);
+
+		const stopReadable = this.readable.watch((eventType, path) => {
+			if (!this.isDeleted(path)) listener(eventType, path);
+		});
+		const stopWritable = this.writable.watch(listener);
+
+		return () => {
+			this.journal.off('update', onUpdate);
+			stopReadable();
+			stopWritable();
+		};
+	}
+
 	/**
 	 * @todo Consider trying to track information on the writable as well
 	 */
@@ -196,10 +385,13 @@ export class CopyOnWriteFS extends FileSystem {
 
 		try {
 			await this.writable.rename(oldPath, newPath);
-		} catch {
-			if (this.isDeleted(oldPath)) {
-				throw ErrnoError.With('ENOENT', oldPath, 'rename');
-			}
+		} catch (e) {
+			if (this.isDeleted(oldPath)) throw ErrnoError.With('ENOENT', oldPath, 'rename');
+			throw e;
+		}
+
+		if ((await this.readable.exists(oldPath)) || (await this.readable.exists(newPath))) {
+			this.record('rename', oldPath, newPath);
 		}
 	}
 
@@ -208,10 +400,13 @@ export class CopyOnWriteFS extends FileSystem {
 
 		try {
 			this.writable.renameSync(oldPath, newPath);
-		} catch {
-			if (this.isDeleted(oldPath)) {
-				throw ErrnoError.With('ENOENT', oldPath, 'rename');
-			}
+		} catch (e) {
+			if (this.isDeleted(oldPath)) throw ErrnoError.With('ENOENT', oldPath, 'rename');
+			throw e;
+		}
+
+		if (this.readable.existsSync(oldPath) || this.readable.existsSync(newPath)) {
+			this.record('rename', oldPath, newPath);
 		}
 	}
 
@@ -249,6 +444,34 @@ export class CopyOnWriteFS extends FileSystem {
 		this.writable.touchSync(path, metadata);
 	}
 
+	public async getxattrs(path: string): Promise<Attributes> {
+		try {
+			return await this.writable.getxattrs(path);
+		} catch {
+			if (this.isDeleted(path)) throw ErrnoError.With('ENOENT', path, 'getxattrs');
+			return await this.readable.getxattrs(path);
+		}
+	}
+
+	public getxattrsSync(path: string): Attributes {
+		try {
+			return this.writable.getxattrsSync(path);
+		} catch {
+			if (this.isDeleted(path)) throw ErrnoError.With('ENOENT', path, 'getxattrs');
+			return this.readable.getxattrsSync(path);
+		}
+	}
+
+	public async setxattrs(path: string, attributes: Attributes): Promise<void> {
+		await this.copyForWrite(path);
+		await this.writable.setxattrs(path, attributes);
+	}
+
+	public setxattrsSync(path: string, attributes: Attributes): void {
+		this.copyForWriteSync(path);
+		this.writable.setxattrsSync(path, attributes);
+	}
+
 	public async openFile(path: string, flag: string): Promise<File> {
 		if (await this.writable.exists(path)) {
 			return this.writable.openFile(path, flag);
@@ -267,11 +490,13 @@ export class CopyOnWriteFS extends FileSystem {
 
 	public async createFile(path: string, flag: string, mode: number, options: CreationOptions): Promise<File> {
 		await this.writable.createFile(path, flag, mode, options);
+		if (this.isDeleted(path)) this.record('restore', path);
 		return this.openFile(path, flag);
 	}
 
 	public createFileSync(path: string, flag: string, mode: number, options: CreationOptions): File {
 		this.writable.createFileSync(path, flag, mode, options);
+		if (this.isDeleted(path)) this.record('restore', path);
 		return this.openFileSync(path, flag);
 	}
 
@@ -296,7 +521,7 @@ export class CopyOnWriteFS extends FileSystem {
 
 		// if it still exists add to the delete log
 		if (await this.exists(path)) {
-			this.journal.add('delete', path);
+			this.record('delete', path);
 		}
 	}
 
@@ -309,7 +534,7 @@ export class CopyOnWriteFS extends FileSystem {
 
 		// if it still exists add to the delete log
 		if (this.existsSync(path)) {
-			this.journal.add('delete', path);
+			this.record('delete', path);
 		}
 	}
 
@@ -327,7 +552,7 @@ export class CopyOnWriteFS extends FileSystem {
 		if ((await this.readdir(path)).length) {
 			throw ErrnoError.With('ENOTEMPTY', path, 'rmdir');
 		}
-		this.journal.add('delete', path);
+		this.record('delete', path);
 	}
 
 	public rmdirSync(path: string): void {
@@ -344,45 +569,60 @@ export class CopyOnWriteFS extends FileSystem {
 		if (this.readdirSync(path).length) {
 			throw ErrnoError.With('ENOTEMPTY', path, 'rmdir');
 		}
-		this.journal.add('delete', path);
+		this.record('delete', path);
 	}
 
 	public async mkdir(path: string, mode: number, options: CreationOptions): Promise<void> {
 		if (await this.exists(path)) throw ErrnoError.With('EEXIST', path, 'mkdir');
 		await this.createParentDirectories(path);
 		await this.writable.mkdir(path, mode, options);
+		this.restoreDirectory(path);
 	}
 
 	public mkdirSync(path: string, mode: number, options: CreationOptions): void {
 		if (this.existsSync(path)) throw ErrnoError.With('EEXIST', path, 'mkdir');
 		this.createParentDirectoriesSync(path);
 		this.writable.mkdirSync(path, mode, options);
+		this.restoreDirectory(path);
+	}
+
+	/**
+	 * Makes sure the contents of a deleted directory don't show up again when it is re-created
+	 */
+	private restoreDirectory(path: string): void {
+		if (!this.isDeleted(path)) return;
+		this.record('restore', path);
+		this.record('opaque', path);
 	}
 
 	public async readdir(path: string): Promise<string[]> {
-		if (this.isDeleted(path) || !(await this.exists(path))) throw ErrnoError.With('ENOENT', path, 'readdir');
+		if (!(await this.exists(path))) throw ErrnoError.With('ENOENT', path, 'readdir');
 
-		const entries: string[] = (await this.readable.exists(path)) ? await this.readable.readdir(path) : [];
+		const entries: string[] = (await this.readable.exists(path))
+			? (await this.readable.readdir(path)).filter(entry => !this.isDeleted(join(path, entry)))
+			: [];
 
 		if (await this.writable.exists(path))
 			for (const entry of await this.writable.readdir(path)) {
 				if (!entries.includes(entry)) entries.push(entry);
 			}
 
-		return entries.filter(entry => !this.isDeleted(join(path, entry)));
+		return entries;
 	}
 
 	public readdirSync(path: string): string[] {
-		if (this.isDeleted(path) || !this.existsSync(path)) throw ErrnoError.With('ENOENT', path, 'readdir');
+		if (!this.existsSync(path)) throw ErrnoError.With('ENOENT', path, 'readdir');
 
-		const entries: string[] = this.readable.existsSync(path) ? this.readable.readdirSync(path) : [];
+		const entries: string[] = this.readable.existsSync(path)
+			? this.readable.readdirSync(path).filter(entry => !this.isDeleted(join(path, entry)))
+			: [];
 
 		if (this.writable.existsSync(path))
 			for (const entry of this.writable.readdirSync(path)) {
 				if (!entries.includes(entry)) entries.push(entry);
 			}
 
-		return entries.filter(entry => !this.isDeleted(join(path, entry)));
+		return entries;
 	}
 
 	public streamRead(path: string, options: StreamOptions): ReadableStream {
@@ -394,6 +634,202 @@ export class CopyOnWriteFS extends FileSystem {
 		return this.writable.streamWrite(path, options);
 	}
 
+	/**
+	 * Whether a file in the writable file system differs from the one in the readable file system.
+	 * Write permissions added when copying files to the writable file system are not considered changes.
+	 */
+	private async isModified(path: string, stats: InodeLike): Promise<boolean> {
+		const original = await this.readable.stat(path);
+		if ((original.mode ^ stats.mode) & ~0o222 || original.uid != stats.uid || original.gid != stats.gid) return true;
+		if (isDirectory(stats)) return false;
+		if (original.size != stats.size) return true;
+
+		const before = new Uint8Array(original.size);
+		await this.readable.read(path, before, 0, original.size);
+		const after = new Uint8Array(stats.size);
+		await this.writable.read(path, after, 0, stats.size);
+		return before.some((byte, i) => byte != after[i]);
+	}
+
+	/**
+	 * Whether a file in the writable file system differs from the one in the readable file system.
+	 * Write permissions added when copying files to the writable file system are not considered changes.
+	 */
+	private isModifiedSync(path: string, stats: InodeLike): boolean {
+		const original = this.readable.statSync(path);
+		if ((original.mode ^ stats.mode) & ~0o222 || original.uid != stats.uid || original.gid != stats.gid) return true;
+		if (isDirectory(stats)) return false;
+		if (original.size != stats.size) return true;
+
+		const before = new Uint8Array(original.size);
+		this.readable.readSync(path, before, 0, original.size);
+		const after = new Uint8Array(stats.size);
+		this.writable.readSync(path, after, 0, stats.size);
+		return before.some((byte, i) => byte != after[i]);
+	}
+
+	/**
+	 * Gets the changes made relative to the readable file system.
+	 * Every added or modified path is included, parents before their contents.
+	 * For deleted directories, only the directory is included.
+	 */
+	public async diff(): Promise<CopyOnWriteChange[]> {
+		const changes: CopyOnWriteChange[] = [];
+
+		const walkWritable = async (dir: string): Promise<void> => {
+			for (const entry of await this.writable.readdir(dir)) {
+				const path = join(dir, entry);
+				const stats = await this.writable.stat(path);
+
+				if (!(await this.readable.exists(path))) changes.push({ path, type: 'added' });
+				else if (await this.isModified(path, stats)) changes.push({ path, type: 'modified' });
+
+				if (isDirectory(stats)) await walkWritable(path);
+			}
+		};
+
+		const walkReadable = async (dir: string): Promise<void> => {
+			for (const entry of await this.readable.readdir(dir)) {
+				const path = join(dir, entry);
+
+				if (!(await this.exists(path))) {
+					changes.push({ path, type: 'deleted' });
+					continue;
+				}
+
+				if (isDirectory(await this.readable.stat(path)) && isDirectory(await this.stat(path))) await walkReadable(path);
+			}
+		};
+
+		await walkWritable('/');
+		await walkReadable('/');
+		return changes;
+	}
+
+	/**
+	 * Gets the changes made relative to the readable file system.
+	 * Every added or modified path is included, parents before their contents.
+	 * For deleted directories, only the directory is included.
+	 */
+	public diffSync(): CopyOnWriteChange[] {
+		const changes: CopyOnWriteChange[] = [];
+
+		const walkWritable = (dir: string): void => {
+			for (const entry of this.writable.readdirSync(dir)) {
+				const path = join(dir, entry);
+				const stats = this.writable.statSync(path);
+
+				if (!this.readable.existsSync(path)) changes.push({ path, type: 'added' });
+				else if (this.isModifiedSync(path, stats)) changes.push({ path, type: 'modified' });
+
+				if (isDirectory(stats)) walkWritable(path);
+			}
+		};
+
+		const walkReadable = (dir: string): void => {
+			for (const entry of this.readable.readdirSync(dir)) {
+				const path = join(dir, entry);
+
+				if (!this.existsSync(path)) {
+					changes.push({ path, type: 'deleted' });
+					continue;
+				}
+
+				if (isDirectory(this.readable.statSync(path)) && isDirectory(this.statSync(path))) walkReadable(path);
+			}
+		};
+
+		walkWritable('/');
+		walkReadable('/');
+		return changes;
+	}
+
+	/**
+	 * Applies all of the changes to `target`, then clears the writable file system and the journal.
+	 * `target` is usually a copy of the readable file system.
+	 * @returns The changes that were applied
+	 */
+	public async commit(target: FileSystem): Promise<CopyOnWriteChange[]> {
+		const changes = await this.diff();
+
+		for (const { path } of changes.filter(change => change.type == 'deleted')) {
+			await removeRecursive(target, path);
+		}
+
+		for (const { path, type } of changes) {
+			if (type == 'deleted') continue;
+
+			const stats = await this.writable.stat(path);
+
+			// Files are replaced, as are directories that used to be something else
+			if ((await target.exists(path)) && (!isDirectory(stats) || !isDirectory(await target.stat(path)))) {
+				await removeRecursive(target, path);
+			}
+
+			if (!isDirectory(stats)) {
+				const data = new Uint8Array(stats.size);
+				await this.writable.read(path, data, 0, stats.size);
+				await using file = await target.createFile(path, 'w', stats.mode, stats);
+				await file.write(data);
+			} else if (!(await target.exists(path))) {
+				await target.mkdir(path, stats.mode, stats);
+			}
+
+			const { mode, uid, gid, atimeMs, mtimeMs, ctimeMs, birthtimeMs } = stats;
+			await target.touch(path, { mode, uid, gid, atimeMs, mtimeMs, ctimeMs, birthtimeMs });
+		}
+
+		for (const entry of await this.writable.readdir('/')) {
+			await removeRecursive(this.writable, join('/', entry));
+		}
+		this.journal.clear();
+
+		return changes;
+	}
+
+	/**
+	 * Applies all of the changes to `target`, then clears the writable file system and the journal.
+	 * `target` is usually a copy of the readable file system.
+	 * @returns The changes that were applied
+	 */
+	public commitSync(target: FileSystem): CopyOnWriteChange[] {
+		const changes = this.diffSync();
+
+		for (const { path } of changes.filter(change => change.type == 'deleted')) {
+			removeRecursiveSync(target, path);
+		}
+
+		for (const { path, type } of changes) {
+			if (type == 'deleted') continue;
+
+			const stats = this.writable.statSync(path);
+
+			// Files are replaced, as are directories that used to be something else
+			if (target.existsSync(path) && (!isDirectory(stats) || !isDirectory(target.statSync(path)))) {
+				removeRecursiveSync(target, path);
+			}
+
+			if (!isDirectory(stats)) {
+				const data = new Uint8Array(stats.size);
+				this.writable.readSync(path, data, 0, stats.size);
+				using file = target.createFileSync(path, 'w', stats.mode, stats);
+				file.writeSync(data);
+			} else if (!target.existsSync(path)) {
+				target.mkdirSync(path, stats.mode, stats);
+			}
+
+			const { mode, uid, gid, atimeMs, mtimeMs, ctimeMs, birthtimeMs } = stats;
+			target.touchSync(path, { mode, uid, gid, atimeMs, mtimeMs, ctimeMs, birthtimeMs });
+		}
+
+		for (const entry of this.writable.readdirSync('/')) {
+			removeRecursiveSync(this.writable, join('/', entry));
+		}
+		this.journal.clear();
+
+		return changes;
+	}
+
 	/**
 	 * Create the needed parent directories on the writable storage should they not exist.
 	 * Use modes from the read-only storage.
@@ -476,6 +912,7 @@ export class CopyOnWriteFS extends FileSystem {
 		stats.mode |= 0o222;
 		if (isDirectory(stats)) {
 			this.writable.mkdirSync(path, stats.mode, stats);
+			if (hasAttributes(stats)) this.writable.setxattrsSync(path, stats.attributes);
 			for (const k of this.readable.readdirSync(path)) {
 				this.copyToWritableSync(join(path, k));
 			}
@@ -487,6 +924,7 @@ export class CopyOnWriteFS extends FileSystem {
 		readable.readSync(data);
 		using writable = this.writable.createFileSync(path, 'w', stats.mode, stats);
 		writable.writeSync(data);
+		if (hasAttributes(stats)) this.writable.setxattrsSync(path, stats.attributes);
 	}
 
 	private async copyToWritable(path: string): Promise<void> {
@@ -494,6 +932,7 @@ export class CopyOnWriteFS extends FileSystem {
 		stats.mode |= 0o222;
 		if (isDirectory(stats)) {
 			await this.writable.mkdir(path, stats.mode, stats);
+			if (hasAttributes(stats)) await this.writable.setxattrs(path, stats.attributes);
 			for (const k of await this.readable.readdir(path)) {
 				await this.copyToWritable(join(path, k));
 			}
@@ -504,6 +943,7 @@ export class CopyOnWriteFS extends FileSystem {
 		await this.readable.read(path, data, 0, stats.size);
 		await using writable = await this.writable.createFile(path, 'w', stats.mode, stats);
 		await writable.write(data);
+		if (hasAttributes(stats)) await this.writable.setxattrs(path, stats.attributes);
 	}
 }
 
@@ -530,7 +970,7 @@ type _CopyOnWrite = typeof _CopyOnWrite;
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 export interface CopyOnWrite extends _CopyOnWrite {}
 /**
- * Overlay makes a read-only filesystem writable by storing writes on a second, writable file system.
+ * CopyOnWrite makes a read-only filesystem writable by storing writes on a second, writable file system.
  * Deletes are persisted via metadata stored on the writable file system.
  * @category Backends and Configuration
  * @internal
@@ -0,0 +1,547 @@
+import type { webcrypto } from 'node:crypto';
+import type { File } from '../internal/file.js';
+import type { CreationOptions, UsageInfo } from '../internal/filesystem.js';
+import type { Backend } from './backend.js';
+
+import { resolveMountConfig, type MountConfiguration } from '../config.js';
+import { Errno, ErrnoError } from '../internal/error.js';
+import { LazyFile } from '../internal/file.js';
+import { FileSystem } from '../internal/filesystem.js';
+import { Inode, isDirectory, type InodeLike } from '../internal/inode.js';
+import { err } from '../internal/log.js';
+import { Async } from '../mixins/async.js';
+import { decodeRaw, decodeUTF8, encodeRaw, encodeUTF8 } from '../utils.js';
+import { basename } from '../vfs/path.js';
+import { InMemory } from './memory.js';
+
+/**
+ * Options for the `Encrypted` backend
+ * @category Backends and Configuration
+ */
+export interface EncryptedOptions {
+	/** The file system to store encrypted data on. */
+	fs: MountConfiguration<any>;
+
+	/**
+	 * The AES-GCM `CryptoKey` used to encrypt data, or an HKDF `CryptoKey` to derive the keys from.
+	 * If a string, it is used as a passphrase and the key material is derived from it using PBKDF2.
+	 * Encrypting names needs a passphrase or an HKDF key, since a separate key is derived for them.
+	 */
+	key: webcrypto.CryptoKey | string;
+
+	/**
+	 * The number of PBKDF2 iterations to use when `key` is a passphrase.
+	 * Only used when creating a new encrypted file system.
+	 * @default 600_000
+	 */
+	iterations?: number;
+
+	/**
+	 * The size of the chunks file contents are encrypted in.
+	 * Reads and writes only need to decrypt and encrypt the chunks they overlap.
+	 * Only used when creating a new encrypted file system.
+	 * @default 4096
+	 */
+	chunkSize?: number;
+
+	/**
+	 * Whether to encrypt file names.
+	 * Only used when creating a new encrypted file system.
+	 * @default false
+	 */
+	encryptNames?: boolean;
+}
+
+/**
+ * Stored on the underlying file system, so it can be decrypted later
+ */
+interface EncryptionMetadata {
+	version: 1;
+	chunkSize: number;
+	encryptNames: boolean;
+	/** PBKDF2 salt, if the key is derived from a passphrase */
+	salt?: string;
+	/** PBKDF2 iterations, if the key is derived from a passphrase */
+	iterations?: number;
+	/** Empty data encrypted with the key, used to check the key is correct */
+	check: string;
+}
+
+const metadataPath = '/.encryption';
+
+const ivSize = 12;
+
+/**
+ * The size of the random ID stored at the start of each file
+ */
+const idSize = 16;
+
+/**
+ * The number of bytes added to each encrypted chunk: the IV and the authentication tag
+ */
+const overhead = ivSize + 16;
+
+function storedSize(size: number, chunkSize: number): number {
+	return idSize + size + Math.ceil(size / chunkSize) * overhead;
+}
+
+function plainSize(stored: number, chunkSize: number): number {
+	const chunks = Math.max(stored - idSize, 0);
+	return chunks - Math.ceil(chunks / (chunkSize + overhead)) * overhead;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+	const data = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return data;
+}
+
+function toBase64(data: Uint8Array, url: boolean = false): string {
+	const base64 = btoa(decodeRaw(data));
+	return url ? base64.replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '') : base64;
+}
+
+function fromBase64(base64: string): Uint8Array {
+	return encodeRaw(atob(base64.replaceAll('-', '+').replaceAll('_', '/')));
+}
+
+/**
+ * Additional authenticated data for each kind of encrypted data.
+ * Chunks include the ID of their file, their index, and whether they are the last chunk,
+ * so they can not be moved between files, reordered, or truncated away.
+ */
+const additionalData = {
+	chunk: (id: Uint8Array, index: number, last: boolean) => concat([encodeUTF8('chunk:'), id, encodeUTF8(':' + index + (last ? ':last' : ''))]),
+	name: encodeUTF8('name'),
+	check: encodeUTF8('check'),
+};
+
+/**
+ * HKDF parameters for deriving each key from the key material
+ */
+function hkdf(info: string): webcrypto.HkdfParams {
+	return { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encodeUTF8('zenfs:encrypted:' + info) };
+}
+
+/**
+ * Encrypts file contents, and optionally names, before storing them on another file system.
+ *
+ * Contents are encrypted with AES-GCM in fixed-size chunks, each with a random IV,
+ * so random-access reads and writes only need to handle the chunks they overlap.
+ * Each file starts with a random ID, which chunks are bound to.
+ * Names are encrypted with an IV derived from the name using HMAC, so paths can still be looked up.
+ *
+ * Since WebCrypto is asynchronous, synchronous operations use an in-memory cache of the decrypted contents.
+ * @category Internals
+ * @internal
+ */
+export class EncryptedFS extends Async(FileSystem) {
+	/**
+	 * @hidden
+	 */
+	_sync = InMemory.create({ name: 'tmpfs:encrypted' });
+
+	protected key?: webcrypto.CryptoKey;
+
+	/**
+	 * Used to derive IVs for names
+	 */
+	protected nameKey?: webcrypto.CryptoKey;
+
+	protected chunkSize: number;
+	protected encryptNames: boolean;
+
+	/** Encrypted names, keyed by the plain name */
+	protected readonly encryptedNames = new Map<string, string>();
+	/** Plain names, keyed by the encrypted name */
+	protected readonly plainNames = new Map<string, string>();
+
+	/**
+	 * Writes read and re-encrypt entire chunks, so operations are done one at a time.
+	 */
+	private _lock: Promise<unknown> = Promise.resolve();
+
+	public constructor(
+		/** The file system encrypted data is stored on */
+		public readonly fs: FileSystem,
+		protected readonly options: Omit<EncryptedOptions, 'fs'>
+	) {
+		super(0x656e6372, 'encryptedfs');
+		this.chunkSize = options.chunkSize ?? 4096;
+		this.encryptNames = options.encryptNames ?? false;
+		if (fs.attributes.has('no_write')) this.attributes.set('no_write');
+	}
+
+	public async ready(): Promise<void> {
+		if (!this.key) await this.unlock();
+		await super.ready();
+	}
+
+	/**
+	 * Loads the metadata from the underlying file system, creating it if needed, and sets up the keys.
+	 */
+	protected async unlock(): Promise<void> {
+		if (typeof crypto?.subtle != 'object') throw err(new ErrnoError(Errno.ENOTSUP, 'WebCrypto is not available'));
+
+		let existing: EncryptionMetadata | undefined;
+		if (await this.fs.exists(metadataPath)) {
+			const data = new Uint8Array((await this.fs.stat(metadataPath)).size);
+			await this.fs.read(metadataPath, data, 0, data.byteLength);
+			existing = JSON.parse(decodeUTF8(data));
+		}
+
+		const { key, iterations = 600_000 } = this.options;
+		const metadata: EncryptionMetadata = existing ?? { version: 1, chunkSize: this.chunkSize, encryptNames: this.encryptNames, check: '' };
+
+		if (metadata.version != 1) throw err(new ErrnoError(Errno.EINVAL, 'Unsupported encryption metadata version: ' + metadata.version));
+
+		this.chunkSize = metadata.chunkSize;
+		this.encryptNames = metadata.encryptNames;
+
+		let material: webcrypto.CryptoKey | undefined;
+		if (typeof key == 'string') {
+			metadata.salt ??= toBase64(crypto.getRandomValues(new Uint8Array(16)));
+			metadata.iterations ??= iterations;
+			const passphrase = await crypto.subtle.importKey('raw', encodeUTF8(key), 'PBKDF2', false, ['deriveBits']);
+			const bits = await crypto.subtle.deriveBits(
+				{ name: 'PBKDF2', salt: fromBase64(metadata.salt), iterations: metadata.iterations, hash: 'SHA-256' },
+				passphrase,
+				256
+			);
+			material = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey']);
+		} else if (key.algorithm.name == 'HKDF') {
+			material = key;
+		} else if (this.encryptNames) {
+			throw err(new ErrnoError(Errno.EINVAL, 'Encrypted names need a passphrase or an HKDF key'));
+		} else {
+			this.key = key;
+		}
+
+		// The content and name keys are derived independently, so neither can be used to recover the other
+		if (material) {
+			this.key = await crypto.subtle.deriveKey(hkdf('content'), material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+			const hmac = { name: 'HMAC', hash: 'SHA-256', length: 256 };
+			if (this.encryptNames) this.nameKey = await crypto.subtle.deriveKey(hkdf('names'), material, hmac, false, ['sign']);
+		}
+
+		if (existing) {
+			try {
+				await this.decrypt(fromBase64(metadata.check), additionalData.check);
+			} catch {
+				delete this.key;
+				delete this.nameKey;
+				throw err(new ErrnoError(Errno.EACCES, 'Incorrect key for encrypted file system'));
+			}
+		} else {
+			metadata.check = toBase64(await this.encrypt(new Uint8Array(), additionalData.check));
+			const data = encodeUTF8(JSON.stringify(metadata));
+			const file = await this.fs.createFile(metadataPath, 'w', 0o600, { uid: 0, gid: 0 });
+			await file.write(data);
+			await file.close();
+		}
+	}
+
+	/**
+	 * Runs `operation` after all of the other operations have finished
+	 */
+	protected locked<T>(operation: () => Promise<T>): Promise<T> {
+		const result = this._lock.then(operation);
+		this._lock = result.catch(() => {});
+		return result;
+	}
+
+	protected async encrypt(
+		data: Uint8Array,
+		additionalData: Uint8Array,
+		iv: Uint8Array = crypto.getRandomValues(new Uint8Array(ivSize))
+	): Promise<Uint8Array> {
+		if (!this.key) throw err(new ErrnoError(Errno.EBUSY, 'Encrypted file system is not ready'));
+		const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, this.key, data);
+		return concat([iv, new Uint8Array(encrypted)]);
+	}
+
+	protected async decrypt(data: Uint8Array, additionalData: Uint8Array, path?: string, syscall?: string): Promise<Uint8Array> {
+		if (!this.key) throw err(new ErrnoError(Errno.EBUSY, 'Encrypted file system is not ready'));
+		try {
+			const decrypted = await crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv: data.subarray(0, ivSize), additionalData },
+				this.key,
+				data.subarray(ivSize)
+			);
+			return new Uint8Array(decrypted);
+		} catch {
+			throw err(new ErrnoError(Errno.EIO, 'Failed to decrypt data', path, syscall));
+		}
+	}
+
+	protected async encryptName(name: string): Promise<string> {
+		const cached = this.encryptedNames.get(name);
+		if (cached) return cached;
+
+		const data = encodeUTF8(name);
+		const iv = new Uint8Array(await crypto.subtle.sign('HMAC', this.nameKey!, data)).slice(0, ivSize);
+		const encrypted = toBase64(await this.encrypt(data, additionalData.name, iv), true);
+
+		this.encryptedNames.set(name, encrypted);
+		this.plainNames.set(encrypted, name);
+		return encrypted;
+	}
+
+	protected async decryptName(encrypted: string, path: string, syscall: string): Promise<string> {
+		const cached = this.plainNames.get(encrypted);
+		if (cached) return cached;
+
+		const name = decodeUTF8(await this.decrypt(fromBase64(encrypted), additionalData.name, path, syscall));
+
+		this.encryptedNames.set(name, encrypted);
+		this.plainNames.set(encrypted, name);
+		return name;
+	}
+
+	/**
+	 * Gets the path used on the underlying file system
+	 */
+	protected async innerPath(path: string, syscall: string): Promise<string> {
+		if (path == metadataPath) throw ErrnoError.With('ENOENT', path, syscall);
+		if (!this.encryptNames) return path;
+
+		const names = await Promise.all(path.split('/').map(name => (name ? this.encryptName(name) : name)));
+		return names.join('/');
+	}
+
+	protected plainStats(stats: InodeLike): InodeLike {
+		const inode = new Inode(stats);
+		if (!isDirectory(inode)) inode.size = plainSize(stats.size, this.chunkSize);
+		return inode;
+	}
+
+	/**
+	 * Reads the ID of a file, creating it if the file doesn't have one yet
+	 * @param stored The size of the encrypted file
+	 */
+	protected async fileID(inner: string, stored: number): Promise<Uint8Array> {
+		const id = new Uint8Array(idSize);
+
+		if (stored >= idSize) {
+			await this.fs.read(inner, id, 0, idSize);
+			return id;
+		}
+
+		crypto.getRandomValues(id);
+		await this.fs.write(inner, id, 0);
+		return id;
+	}
+
+	/**
+	 * Reads and decrypts the chunks from `first` to `last`
+	 * @param stored The size of the encrypted file
+	 */
+	protected async readChunks(path: string, inner: string, id: Uint8Array, stored: number, first: number, last: number): Promise<Uint8Array> {
+		const chunkSize = this.chunkSize + overhead;
+		const start = idSize + first * chunkSize;
+		const end = Math.min(stored, idSize + (last + 1) * chunkSize);
+		if (end <= start) return new Uint8Array();
+
+		const data = new Uint8Array(end - start);
+		await this.fs.read(inner, data, start, end);
+
+		const total = Math.ceil((stored - idSize) / chunkSize);
+
+		const chunks = [];
+		for (let offset = 0, index = first; offset < data.byteLength; offset += chunkSize, index++) {
+			const chunk = data.subarray(offset, offset + chunkSize);
+			chunks.push(this.decrypt(chunk, additionalData.chunk(id, index, index == total - 1), path, 'read'));
+		}
+		return concat(await Promise.all(chunks));
+	}
+
+	/**
+	 * Writes `data` at `offset`, re-encrypting the chunks it overlaps.
+	 * If `offset` is past the end of the file, the space in between is filled with zeros.
+	 */
+	protected async writeRange(path: string, inner: string, data: Uint8Array, offset: number): Promise<void> {
+		const { chunkSize } = this;
+		const stored = (await this.fs.stat(inner)).size;
+		const size = plainSize(stored, chunkSize);
+		const end = offset + data.byteLength;
+		if (end <= size && !data.byteLength) return;
+
+		const id = await this.fileID(inner, stored);
+
+		// When the file grows, the old last chunk is included since it needs to be encrypted as a non-last chunk
+		const first = Math.floor(Math.min(offset, Math.max(size - 1, 0)) / chunkSize);
+		const last = Math.ceil(end / chunkSize) - 1;
+		const start = first * chunkSize;
+		const total = Math.ceil(Math.max(size, end) / chunkSize);
+
+		const plain = new Uint8Array(Math.max(end, Math.min(size, (last + 1) * chunkSize)) - start);
+		plain.set(await this.readChunks(path, inner, id, stored, first, last));
+		plain.set(data, offset - start);
+
+		const chunks = [];
+		for (let i = 0; i * chunkSize < plain.byteLength; i++) {
+			const index = first + i;
+			chunks.push(this.encrypt(plain.subarray(i * chunkSize, (i + 1) * chunkSize), additionalData.chunk(id, index, index == total - 1)));
+		}
+
+		await this.fs.write(inner, concat(await Promise.all(chunks)), idSize + first * (chunkSize + overhead));
+	}
+
+	/**
+	 * Changes the size of a file, filling any new space with zeros
+	 */
+	protected async resize(path: string, inner: string, length: number): Promise<void> {
+		const { chunkSize } = this;
+		const stored = (await this.fs.stat(inner)).size;
+		const size = plainSize(stored, chunkSize);
+
+		if (length >= size) return await this.writeRange(path, inner, new Uint8Array(), length);
+
+		// The new last chunk needs to be encrypted again, since it may be shorter and is now the last one
+		if (length) {
+			const id = await this.fileID(inner, stored);
+			const index = Math.ceil(length / chunkSize) - 1;
+			const chunk = await this.readChunks(path, inner, id, stored, index, index);
+			const encrypted = await this.encrypt(chunk.subarray(0, length - index * chunkSize), additionalData.chunk(id, index, true));
+			await this.fs.write(inner, encrypted, idSize + index * (chunkSize + overhead));
+		}
+
+		await this.fs.sync(inner, undefined, { size: storedSize(length, chunkSize) } as InodeLike);
+	}
+
+	public usage(): UsageInfo {
+		return this.fs.usage();
+	}
+
+	public rename(oldPath: string, newPath: string): Promise<void> {
+		return this.locked(async () => {
+			await this.fs.rename(await this.innerPath(oldPath, 'rename'), await this.innerPath(newPath, 'rename'));
+		});
+	}
+
+	public stat(path: string): Promise<InodeLike> {
+		return this.locked(async () => this.plainStats(await this.fs.stat(await this.innerPath(path, 'stat'))));
+	}
+
+	public touch(path: string, metadata: Partial<InodeLike>): Promise<void> {
+		return this.locked(async () => {
+			// Sizes can't be changed without changing the contents
+			await this.fs.touch(await this.innerPath(path, 'touch'), { ...metadata, size: undefined });
+		});
+	}
+
+	public openFile(path: string, flag: string): Promise<File> {
+		return this.locked(async () => {
+			const stats = this.plainStats(await this.fs.stat(await this.innerPath(path, 'openFile')));
+			return new LazyFile(this, path, flag, stats);
+		});
+	}
+
+	public createFile(path: string, flag: string, mode: number, options: CreationOptions): Promise<File> {
+		return this.locked(async () => {
+			const inner = await this.innerPath(path, 'createFile');
+			const file = await this.fs.createFile(inner, flag, mode, options);
+			await file.close();
+			return new LazyFile(this, path, flag, this.plainStats(await this.fs.stat(inner)));
+		});
+	}
+
+	public unlink(path: string): Promise<void> {
+		return this.locked(async () => await this.fs.unlink(await this.innerPath(path, 'unlink')));
+	}
+
+	public rmdir(path: string): Promise<void> {
+		return this.locked(async () => await this.fs.rmdir(await this.innerPath(path, 'rmdir')));
+	}
+
+	public mkdir(path: string, mode: number, options: CreationOptions): Promise<void> {
+		return this.locked(async () => await this.fs.mkdir(await this.innerPath(path, 'mkdir'), mode, options));
+	}
+
+	public readdir(path: string): Promise<string[]> {
+		return this.locked(async () => {
+			let entries = await this.fs.readdir(await this.innerPath(path, 'readdir'));
+			if (path == '/') entries = entries.filter(name => name != basename(metadataPath));
+			if (!this.encryptNames) return entries;
+			return await Promise.all(entries.map(name => this.decryptName(name, path, 'readdir')));
+		});
+	}
+
+	public link(target: string, link: string): Promise<void> {
+		return this.locked(async () => await this.fs.link(await this.innerPath(target, 'link'), await this.innerPath(link, 'link')));
+	}
+
+	public sync(path: string, data?: Uint8Array, stats?: Readonly<InodeLike>): Promise<void> {
+		return this.locked(async () => {
+			const inner = await this.innerPath(path, 'sync');
+
+			if (!isDirectory(await this.fs.stat(inner))) {
+				if (data) {
+					await this.resize(path, inner, 0);
+					await this.writeRange(path, inner, data, 0);
+				}
+
+				if (stats) await this.resize(path, inner, stats.size);
+			}
+
+			if (!stats) return;
+
+			const { size } = await this.fs.stat(inner);
+			await this.fs.sync(inner, undefined, { ...stats, size });
+		});
+	}
+
+	public read(path: string, buffer: Uint8Array, offset: number, end: number): Promise<void> {
+		return this.locked(async () => {
+			const inner = await this.innerPath(path, 'read');
+			const stored = (await this.fs.stat(inner)).size;
+			end = Math.min(end, plainSize(stored, this.chunkSize));
+			if (end <= offset) return;
+
+			const id = await this.fileID(inner, stored);
+			const first = Math.floor(offset / this.chunkSize);
+			const data = await this.readChunks(path, inner, id, stored, first, Math.ceil(end / this.chunkSize) - 1);
+			buffer.set(data.subarray(offset - first * this.chunkSize, end - first * this.chunkSize));
+		});
+	}
+
+	public write(path: string, buffer: Uint8Array, offset: number): Promise<void> {
+		return this.locked(async () => await this.writeRange(path, await this.innerPath(path, 'write'), buffer, offset));
+	}
+}
+
+const _Encrypted = {
+	name: 'Encrypted',
+	options: {
+		fs: { type: 'object', required: true },
+		key: {
+			type: ['string', 'object'],
+			required: true,
+			validator(key: webcrypto.CryptoKey | string) {
+				if (typeof key == 'object' && key.algorithm?.name != 'AES-GCM' && key.algorithm?.name != 'HKDF') {
+					throw err(new ErrnoError(Errno.EINVAL, 'Encryption key must be an AES-GCM or HKDF key'));
+				}
+			},
+		},
+		iterations: { type: 'number', required: false },
+		chunkSize: { type: 'number', required: false },
+		encryptNames: { type: 'boolean', required: false },
+	},
+	async create({ fs, ...options }: EncryptedOptions) {
+		return new EncryptedFS(await resolveMountConfig(fs), options);
+	},
+} as const satisfies Backend<EncryptedFS, EncryptedOptions>;
+type _Encrypted = typeof _Encrypted;
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface Encrypted extends _Encrypted {}
+
+/**
+ * Encrypts the contents (and optionally the names) of files stored on another file system, using AES-GCM.
+ * @category Backends and Configuration
+ */
+export const Encrypted: Encrypted = _Encrypted;
@@ -5,7 +5,7 @@ import { Index } from '../internal/file_index.js';
 import type { FileSystem } from '../internal/filesystem.js';
 import { IndexFS } from '../internal/index_fs.js';
 import { err, warn } from '../internal/log.js';
-import { decodeUTF8, normalizePath } from '../utils.js';
+import { decodeUTF8, normalizePath, nowNs } from '../utils.js';
 import { S_IFREG } from '../vfs/constants.js';
 import type { Backend, SharedConfig } from './backend.js';
 
@@ -131,7 +131,7 @@ export class FetchFS extends IndexFS {
 		const inode = this.index.get(path);
 		if (!inode) throw ErrnoError.With('ENOENT', path, 'write');
 
-		inode.update({ mtimeMs: Date.now(), size: Math.max(inode.size, data.byteLength + offset) });
+		inode.update({ mtimeNs: nowNs(), size: Math.max(inode.size, data.byteLength + offset) });
 
 		await requests.set(this.baseUrl + path, data, { offset, warn, cacheOnly: !this.remoteWrite }, this.requestInit).catch(parseError(path, this));
 	}
@@ -140,7 +140,7 @@ export class FetchFS extends IndexFS {
 		const inode = this.index.get(path);
 		if (!inode) throw ErrnoError.With('ENOENT', path, 'write');
 
-		inode.update({ mtimeMs: Date.now(), size: Math.max(inode.size, data.byteLength + offset) });
+		inode.update({ mtimeNs: nowNs(), size: Math.max(inode.size, data.byteLength + offset) });
 
 		this._async(
 			requests.set(this.baseUrl + path, data, { offset, warn, cacheOnly: !this.remoteWrite }, this.requestInit).catch(parseError(path, this))
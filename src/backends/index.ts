@@ -1,10 +1,19 @@
 export * from './backend.js';
+export * from './compressed.js';
 export * from './cow.js';
+export * from './encrypted.js';
 export * from './fetch.js';
+export * from './layered.js';
 export * from './memory.js';
 export * from './passthrough.js';
 export * from './port/fs.js';
 export * from './single_buffer.js';
+export * from './store/cache.js';
+export * from './store/dedup.js';
 export * from './store/fs.js';
+export * from './store/fsck.js';
 export * from './store/map.js';
 export * from './store/store.js';
+export * from './store/wal.js';
+export * from './tar.js';
+export * from './zip.js';
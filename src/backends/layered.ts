@@ -0,0 +1,582 @@
+import type { File } from '../internal/file.js';
+import type { CreationOptions, UsageInfo } from '../internal/filesystem.js';
+import type { Attributes, InodeLike } from '../internal/inode.js';
+import type { Backend } from './backend.js';
+
+import { _throw, pick } from 'utilium';
+import { resolveMountConfig, type MountConfiguration } from '../config.js';
+import { Errno, ErrnoError } from '../internal/error.js';
+import { LazyFile } from '../internal/file.js';
+import { FileSystem } from '../internal/filesystem.js';
+import { hasAttributes, Inode, isDirectory } from '../internal/inode.js';
+import { debug, err } from '../internal/log.js';
+import { S_IFREG } from '../vfs/constants.js';
+import { basename, dirname, join } from '../vfs/path.js';
+
+/**
+ * A file named `.wh.<name>` hides `<name>` in the layers below
+ */
+const whiteoutPrefix = '.wh.';
+
+/**
+ * A directory containing this file hides the contents of the directory in the layers below
+ */
+const opaqueMarker = '.wh..wh..opq';
+
+/**
+ * Options for the `Layered` backend
+ * @category Backends and Configuration
+ */
+export interface LayeredOptions {
+	/**
+	 * The read-only layers, from top to bottom.
+	 * Files in a layer take precedence over files in the layers after it.
+	 */
+	lower?: MountConfiguration<any>[];
+
+	/** The file system to write changes to. */
+	upper: MountConfiguration<any>;
+}
+
+/**
+ * A union of any number of read-only layers and a writable layer.
+ *
+ * Deletions and replaced directories are recorded in the upper layer using whiteouts and opaque directories,
+ * in the same format used by container image layers:
+ * - A file named `.wh.<name>` hides `<name>` in the layers below it
+ * - A directory containing a file named `.wh..wh..opq` hides the contents of that directory in the layers below it
+ *
+ * These markers are also honored in the lower layers, and names starting with `.wh.` are reserved.
+ * @category Internals
+ * @internal
+ */
+export class LayeredFS extends FileSystem {
+	/**
+	 * All of the layers, from top to bottom
+	 */
+	public readonly layers: readonly FileSystem[];
+
+	public constructor(
+		/** The read-only layers, from top to bottom */
+		public readonly lower: readonly FileSystem[],
+		/** The file system to write changes to */
+		public readonly upper: FileSystem
+	) {
+		super(0x6f766c79, upper.name);
+
+		if (upper.attributes.has('no_write')) {
+			throw err(new ErrnoError(Errno.EINVAL, 'Upper layer can not be written to'));
+		}
+
+		for (const layer of lower) layer.attributes.set('no_write');
+
+		this.layers = [upper, ...lower];
+	}
+
+	public async ready(): Promise<void> {
+		for (const layer of this.layers) await layer.ready();
+	}
+
+	public usage(): UsageInfo {
+		const upper = this.upper.usage();
+		const lower = this.lower.map(layer => layer.usage());
+
+		return {
+			...upper,
+			totalSpace: lower.reduce((total, usage) => total + usage.totalSpace, upper.totalSpace),
+			totalNodes:
+				upper.totalNodes === undefined ? undefined : lower.reduce((total, usage) => total + (usage.totalNodes ?? 0), upper.totalNodes),
+		};
+	}
+
+	/**
+	 * Whether `layer` hides `path` from the layers below it, using a whiteout or opaque directory
+	 */
+	protected async hides(layer: FileSystem, path: string): Promise<boolean> {
+		for (let child = path, parent = dirname(path); child != '/'; child = parent, parent = dirname(parent)) {
+			if (await layer.exists(join(parent, whiteoutPrefix + basename(child)))) return true;
+			if (await layer.exists(join(parent, opaqueMarker))) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Whether `layer` hides `path` from the layers below it, using a whiteout or opaque directory
+	 */
+	protected hidesSync(layer: FileSystem, path: string): boolean {
+		for (let child = path, parent = dirname(path); child != '/'; child = parent, parent = dirname(parent)) {
+			if (layer.existsSync(join(parent, whiteoutPrefix + basename(child)))) return true;
+			if (layer.existsSync(join(parent, opaqueMarker))) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Finds the top-most layer `path` is visible in
+	 */
+	protected async resolve(path: string, layers: readonly FileSystem[] = this.layers): Promise<FileSystem | undefined> {
+		if (basename(path).startsWith(whiteoutPrefix)) return;
+
+		for (const layer of layers) {
+			if (await layer.exists(path)) return layer;
+			if (await this.hides(layer, path)) return;
+		}
+	}
+
+	/**
+	 * Finds the top-most layer `path` is visible in
+	 */
+	protected resolveSync(path: string, layers: readonly FileSystem[] = this.layers): FileSystem | undefined {
+		if (basename(path).startsWith(whiteoutPrefix)) return;
+
+		for (const layer of layers) {
+			if (layer.existsSync(path)) return layer;
+			if (this.hidesSync(layer, path)) return;
+		}
+	}
+
+	/**
+	 * Creates an empty marker file in the upper layer
+	 */
+	private async createMarker(path: string): Promise<void> {
+		if (await this.upper.exists(path)) return;
+		const file = await this.upper.createFile(path, 'w', S_IFREG | 0o644, { uid: 0, gid: 0 });
+		await file.close();
+	}
+
+	/**
+	 * Creates an empty marker file in the upper layer
+	 */
+	private createMarkerSync(path: string): void {
+		if (this.upper.existsSync(path)) return;
+		this.upper.createFileSync(path, 'w', S_IFREG | 0o644, { uid: 0, gid: 0 }).closeSync();
+	}
+
+	/**
+	 * Hides `path` in the lower layers if it is visible in them
+	 */
+	protected async whiteout(path: string): Promise<void> {
+		if (!(await this.resolve(path, this.lower))) return;
+		await this.copyUp(dirname(path));
+		await this.createMarker(join(dirname(path), whiteoutPrefix + basename(path)));
+	}
+
+	/**
+	 * Hides `path` in the lower layers if it is visible in them
+	 */
+	protected whiteoutSync(path: string): void {
+		if (!this.resolveSync(path, this.lower)) return;
+		this.copyUpSync(dirname(path));
+		this.createMarkerSync(join(dirname(path), whiteoutPrefix + basename(path)));
+	}
+
+	/**
+	 * Copies `path` to the upper layer, along with any missing parent directories.
+	 * Only the directory itself is copied, since its contents are still merged from the lower layers.
+	 */
+	protected async copyUp(path: string): Promise<void> {
+		if (await this.upper.exists(path)) return;
+
+		const layer = (await this.resolve(path)) ?? _throw(ErrnoError.With('ENOENT', path, '[copyUp]'));
+
+		await this.copyUp(dirname(path));
+
+		debug('Layered: Copying up ' + path);
+
+		// The real stats, since `stat` makes lower files writable
+		const stats = await layer.stat(path);
+
+		if (isDirectory(stats)) {
+			await this.upper.mkdir(path, stats.mode, stats);
+		} else {
+			const data = new Uint8Array(stats.size);
+			await layer.read(path, data, 0, stats.size);
+			await using file = await this.upper.createFile(path, 'w', stats.mode, stats);
+			await file.write(data);
+		}
+
+		if (hasAttributes(stats)) await this.upper.setxattrs(path, stats.attributes);
+		await this.upper.touch(path, pick(stats, 'mode', 'uid', 'gid', 'atimeMs', 'mtimeMs', 'ctimeMs', 'birthtimeMs'));
+	}
+
+	/**
+	 * Copies `path` to the upper layer, along with any missing parent directories.
+	 * Only the directory itself is copied, since its contents are still merged from the lower layers.
+	 */
+	protected copyUpSync(path: string): void {
+		if (this.upper.existsSync(path)) return;
+
+		const layer = this.resolveSync(path) ?? _throw(ErrnoError.With('ENOENT', path, '[copyUp]'));
+
+		this.copyUpSync(dirname(path));
+
+		debug('Layered: Copying up ' + path);
+
+		// The real stats, since `stat` makes lower files writable
+		const stats = layer.statSync(path);
+
+		if (isDirectory(stats)) {
+			this.upper.mkdirSync(path, stats.mode, stats);
+		} else {
+			const data = new Uint8Array(stats.size);
+			layer.readSync(path, data, 0, stats.size);
+			using file = this.upper.createFileSync(path, 'w', stats.mode, stats);
+			file.writeSync(data);
+		}
+
+		if (hasAttributes(stats)) this.upper.setxattrsSync(path, stats.attributes);
+		this.upper.touchSync(path, pick(stats, 'mode', 'uid', 'gid', 'atimeMs', 'mtimeMs', 'ctimeMs', 'birthtimeMs'));
+	}
+
+	/**
+	 * Copies `path` and everything in it to the upper layer
+	 */
+	protected async copyUpTree(path: string): Promise<void> {
+		await this.copyUp(path);
+		if (!isDirectory(await this.upper.stat(path))) return;
+		for (const entry of await this.readdir(path)) await this.copyUpTree(join(path, entry));
+	}
+
+	/**
+	 * Copies `path` and everything in it to the upper layer
+	 */
+	protected copyUpTreeSync(path: string): void {
+		this.copyUpSync(path);
+		if (!isDirectory(this.upper.statSync(path))) return;
+		for (const entry of this.readdirSync(path)) this.copyUpTreeSync(join(path, entry));
+	}
+
+	/**
+	 * Prepares the upper layer for creating `path`.
+	 * @returns whether a whiteout for `path` was removed
+	 */
+	protected async prepareCreate(path: string): Promise<boolean> {
+		const parent = dirname(path);
+		await this.copyUp(parent);
+
+		const whiteout = join(parent, whiteoutPrefix + basename(path));
+		if (!(await this.upper.exists(whiteout))) return false;
+
+		await this.upper.unlink(whiteout);
+		return true;
+	}
+
+	/**
+	 * Prepares the upper layer for creating `path`.
+	 * @returns whether a whiteout for `path` was removed
+	 */
+	protected prepareCreateSync(path: string): boolean {
+		const parent = dirname(path);
+		this.copyUpSync(parent);
+
+		const whiteout = join(parent, whiteoutPrefix + basename(path));
+		if (!this.upper.existsSync(whiteout)) return false;
+
+		this.upper.unlinkSync(whiteout);
+		return true;
+	}
+
+	public async rename(oldPath: string, newPath: string): Promise<void> {
+		const layer = (await this.resolve(oldPath)) ?? _throw(ErrnoError.With('ENOENT', oldPath, 'rename'));
+		const isDir = isDirectory(await layer.stat(oldPath));
+
+		if (isDir) await this.copyUpTree(oldPath);
+		else await this.copyUp(oldPath);
+
+		const replaced = await this.prepareCreate(newPath);
+		await this.upper.rename(oldPath, newPath);
+
+		if (isDir && (replaced || (await this.resolve(newPath, this.lower)))) await this.createMarker(join(newPath, opaqueMarker));
+
+		await this.whiteout(oldPath);
+	}
+
+	public renameSync(oldPath: string, newPath: string): void {
+		const layer = this.resolveSync(oldPath) ?? _throw(ErrnoError.With('ENOENT', oldPath, 'rename'));
+		const isDir = isDirectory(layer.statSync(oldPath));
+
+		if (isDir) this.copyUpTreeSync(oldPath);
+		else this.copyUpSync(oldPath);
+
+		const replaced = this.prepareCreateSync(newPath);
+		this.upper.renameSync(oldPath, newPath);
+
+		if (isDir && (replaced || this.resolveSync(newPath, this.lower))) this.createMarkerSync(join(newPath, opaqueMarker));
+
+		this.whiteoutSync(oldPath);
+	}
+
+	public async stat(path: string): Promise<InodeLike> {
+		const layer = (await this.resolve(path)) ?? _throw(ErrnoError.With('ENOENT', path, 'stat'));
+		const stats = await layer.stat(path);
+		if (layer == this.upper) return stats;
+
+		// Files in lower layers are writable since they are copied up when written to
+		const copy = new Inode(stats);
+		copy.mode |= 0o222;
+		return copy;
+	}
+
+	public statSync(path: string): InodeLike {
+		const layer = this.resolveSync(path) ?? _throw(ErrnoError.With('ENOENT', path, 'stat'));
+		const stats = layer.statSync(path);
+		if (layer == this.upper) return stats;
+
+		// Files in lower layers are writable since they are copied up when written to
+		const copy = new Inode(stats);
+		copy.mode |= 0o222;
+		return copy;
+	}
+
+	public async touch(path: string, metadata: InodeLike): Promise<void> {
+		await this.copyUp(path);
+		await this.upper.touch(path, metadata);
+	}
+
+	public touchSync(path: string, metadata: InodeLike): void {
+		this.copyUpSync(path);
+		this.upper.touchSync(path, metadata);
+	}
+
+	public async getxattrs(path: string): Promise<Attributes> {
+		const layer = (await this.resolve(path)) ?? _throw(ErrnoError.With('ENOENT', path, 'getxattrs'));
+		return await layer.getxattrs(path);
+	}
+
+	public getxattrsSync(path: string): Attributes {
+		const layer = this.resolveSync(path) ?? _throw(ErrnoError.With('ENOENT', path, 'getxattrs'));
+		return layer.getxattrsSync(path);
+	}
+
+	public async setxattrs(path: string, attributes: Attributes): Promise<void> {
+		await this.copyUp(path);
+		await this.upper.setxattrs(path, attributes);
+	}
+
+	public setxattrsSync(path: string, attributes: Attributes): void {
+		this.copyUpSync(path);
+		this.upper.setxattrsSync(path, attributes);
+	}
+
+	public async openFile(path: string, flag: string): Promise<File> {
+		const layer = (await this.resolve(path)) ?? _throw(ErrnoError.With('ENOENT', path, 'openFile'));
+		if (layer == this.upper) return await this.upper.openFile(path, flag);
+		// The real stats, so syncing the file doesn't make the copy writable
+		return new LazyFile(this, path, flag, await layer.stat(path));
+	}
+
+	public openFileSync(path: string, flag: string): File {
+		const layer = this.resolveSync(path) ?? _throw(ErrnoError.With('ENOENT', path, 'openFile'));
+		if (layer == this.upper) return this.upper.openFileSync(path, flag);
+		// The real stats, so syncing the file doesn't make the copy writable
+		return new LazyFile(this, path, flag, layer.statSync(path));
+	}
+
+	public async createFile(path: string, flag: string, mode: number, options: CreationOptions): Promise<File> {
+		await this.prepareCreate(path);
+		return await this.upper.createFile(path, flag, mode, options);
+	}
+
+	public createFileSync(path: string, flag: string, mode: number, options: CreationOptions): File {
+		this.prepareCreateSync(path);
+		return this.upper.createFileSync(path, flag, mode, options);
+	}
+
+	public async unlink(path: string): Promise<void> {
+		const layer = (await this.resolve(path)) ?? _throw(ErrnoError.With('ENOENT', path, 'unlink'));
+		if (isDirectory(await layer.stat(path))) throw ErrnoError.With('EISDIR', path, 'unlink');
+
+		if (layer == this.upper) await this.upper.unlink(path);
+		await this.whiteout(path);
+	}
+
+	public unlinkSync(path: string): void {
+		const layer = this.resolveSync(path) ?? _throw(ErrnoError.With('ENOENT', path, 'unlink'));
+		if (isDirectory(layer.statSync(path))) throw ErrnoError.With('EISDIR', path, 'unlink');
+
+		if (layer == this.upper) this.upper.unlinkSync(path);
+		this.whiteoutSync(path);
+	}
+
+	public async rmdir(path: string): Promise<void> {
+		const layer = (await this.resolve(path)) ?? _throw(ErrnoError.With('ENOENT', path, 'rmdir'));
+		if (!isDirectory(await layer.stat(path))) throw ErrnoError.With('ENOTDIR', path, 'rmdir');
+		if ((await this.readdir(path)).length) throw ErrnoError.With('ENOTEMPTY', path, 'rmdir');
+
+		if (layer == this.upper) {
+			// Only markers are left
+			for (const entry of await this.upper.readdir(path)) await this.upper.unlink(join(path, entry));
+			await this.upper.rmdir(path);
+		}
+
+		await this.whiteout(path);
+	}
+
+	public rmdirSync(path: string): void {
+		const layer = this.resolveSync(path) ?? _throw(ErrnoError.With('ENOENT', path, 'rmdir'));
+		if (!isDirectory(layer.statSync(path))) throw ErrnoError.With('ENOTDIR', path, 'rmdir');
+		if (this.readdirSync(path).length) throw ErrnoError.With('ENOTEMPTY', path, 'rmdir');
+
+		if (layer == this.upper) {
+			// Only markers are left
+			for (const entry of this.upper.readdirSync(path)) this.upper.unlinkSync(join(path, entry));
+			this.upper.rmdirSync(path);
+		}
+
+		this.whiteoutSync(path);
+	}
+
+	public async mkdir(path: string, mode: number, options: CreationOptions): Promise<void> {
+		if (await this.exists(path)) throw ErrnoError.With('EEXIST', path, 'mkdir');
+
+		const replaced = await this.prepareCreate(path);
+		await this.upper.mkdir(path, mode, options);
+
+		// The contents of a deleted directory should not show up again
+		if (replaced) await this.createMarker(join(path, opaqueMarker));
+	}
+
+	public mkdirSync(path: string, mode: number, options: CreationOptions): void {
+		if (this.existsSync(path)) throw ErrnoError.With('EEXIST', path, 'mkdir');
+
+		const replaced = this.prepareCreateSync(path);
+		this.upper.mkdirSync(path, mode, options);
+
+		// The contents of a deleted directory should not show up again
+		if (replaced) this.createMarkerSync(join(path, opaqueMarker));
+	}
+
+	public async readdir(path: string): Promise<string[]> {
+		const entries = new Set<string>();
+		const hidden = new Set<string>();
+		let found = false;
+
+		for (const layer of this.layers) {
+			if (!(await layer.exists(path))) {
+				if (await this.hides(layer, path)) break;
+				continue;
+			}
+
+			if (!isDirectory(await layer.stat(path))) {
+				if (!found) throw ErrnoError.With('ENOTDIR', path, 'readdir');
+				break;
+			}
+
+			found = true;
+			const names = await layer.readdir(path);
+
+			for (const name of names) {
+				if (!name.startsWith(whiteoutPrefix) && !hidden.has(name)) entries.add(name);
+			}
+
+			for (const name of names) {
+				if (name.startsWith(whiteoutPrefix)) hidden.add(name.slice(whiteoutPrefix.length));
+			}
+
+			if (names.includes(opaqueMarker)) break;
+		}
+
+		if (!found) throw ErrnoError.With('ENOENT', path, 'readdir');
+
+		return [...entries];
+	}
+
+	public readdirSync(path: string): string[] {
+		const entries = new Set<string>();
+		const hidden = new Set<string>();
+		let found = false;
+
+		for (const layer of this.layers) {
+			if (!layer.existsSync(path)) {
+				if (this.hidesSync(layer, path)) break;
+				continue;
+			}
+
+			if (!isDirectory(layer.statSync(path))) {
+				if (!found) throw ErrnoError.With('ENOTDIR', path, 'readdir');
+				break;
+			}
+
+			found = true;
+			const names = layer.readdirSync(path);
+
+			for (const name of names) {
+				if (!name.startsWith(whiteoutPrefix) && !hidden.has(name)) entries.add(name);
+			}
+
+			for (const name of names) {
+				if (name.startsWith(whiteoutPrefix)) hidden.add(name.slice(whiteoutPrefix.length));
+			}
+
+			if (names.includes(opaqueMarker)) break;
+		}
+
+		if (!found) throw ErrnoError.With('ENOENT', path, 'readdir');
+
+		return [...entries];
+	}
+
+	public async link(target: string, link: string): Promise<void> {
+		await this.copyUp(target);
+		await this.prepareCreate(link);
+		await this.upper.link(target, link);
+	}
+
+	public linkSync(target: string, link: string): void {
+		this.copyUpSync(target);
+		this.prepareCreateSync(link);
+		this.upper.linkSync(target, link);
+	}
+
+	public async sync(path: string, data?: Uint8Array, stats?: Readonly<InodeLike>): Promise<void> {
+		await this.copyUp(path);
+		await this.upper.sync(path, data, stats);
+	}
+
+	public syncSync(path: string, data?: Uint8Array, stats?: Readonly<InodeLike>): void {
+		this.copyUpSync(path);
+		this.upper.syncSync(path, data, stats);
+	}
+
+	public async read(path: string, buffer: Uint8Array, offset: number, end: number): Promise<void> {
+		const layer = (await this.resolve(path)) ?? _throw(ErrnoError.With('ENOENT', path, 'read'));
+		await layer.read(path, buffer, offset, end);
+	}
+
+	public readSync(path: string, buffer: Uint8Array, offset: number, end: number): void {
+		const layer = this.resolveSync(path) ?? _throw(ErrnoError.With('ENOENT', path, 'read'));
+		layer.readSync(path, buffer, offset, end);
+	}
+
+	public async write(path: string, buffer: Uint8Array, offset: number): Promise<void> {
+		await this.copyUp(path);
+		await this.upper.write(path, buffer, offset);
+	}
+
+	public writeSync(path: string, buffer: Uint8Array, offset: number): void {
+		this.copyUpSync(path);
+		this.upper.writeSync(path, buffer, offset);
+	}
+}
+
+const _Layered = {
+	name: 'Layered',
+	options: {
+		lower: { type: 'object', required: false },
+		upper: { type: 'object', required: true },
+	},
+	async create(options: LayeredOptions) {
+		const lower = await Promise.all((options.lower ?? []).map(layer => resolveMountConfig(layer)));
+		return new LayeredFS(lower, await resolveMountConfig(options.upper));
+	},
+} as const satisfies Backend<LayeredFS, LayeredOptions>;
+type _Layered = typeof _Layered;
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface Layered extends _Layered {}
+
+/**
+ * A backend that merges any number of read-only layers with a writable upper layer,
+ * like the layers of a container image.
+ * @category Backends and Configuration
+ */
+export const Layered: Layered = _Layered;
@@ -3,6 +3,7 @@ import { size_max } from '../vfs/constants.js';
 import type { Backend } from './backend.js';
 import { StoreFS } from './store/fs.js';
 import { SyncMapTransaction, type SyncMapStore } from './store/map.js';
+import type { StoreSnapshot } from './store/store.js';
 
 /**
  * A simple in-memory store
@@ -38,6 +39,31 @@ export class InMemoryStore extends Map<number, Uint8Array> implements SyncMapSto
 			freeSpace: this.maxSize - this.bytes,
 		};
 	}
+
+	/**
+	 * Data that is shared with a snapshot, and needs to be copied before it is returned by `get`.
+	 */
+	protected readonly _shared = new WeakSet<Uint8Array>();
+
+	/**
+	 * Callers can modify the data they get, so data shared with a snapshot is copied the first time it is read.
+	 */
+	public get(id: number): Uint8Array | undefined {
+		const data = super.get(id);
+		if (!data || !this._shared.has(data)) return data;
+
+		const copy = data.slice();
+		super.set(id, copy);
+		return copy;
+	}
+
+	/**
+	 * Snapshots share data with the store, so creating one doesn't copy anything
+	 */
+	public snapshot(): StoreSnapshot {
+		for (const data of this.values()) this._shared.add(data);
+		return new Map(this);
+	}
 }
 
 /**
@@ -2,12 +2,19 @@ import type * as fs from 'node:fs';
 import type { Errno } from '../internal/error.js';
 import { ErrnoError } from '../internal/error.js';
 import { File, type FileReadResult } from '../internal/file.js';
-import { FileSystem, type UsageInfo } from '../internal/filesystem.js';
+import { FileSystem, type ChangeListener, type UsageInfo } from '../internal/filesystem.js';
 import type { InodeLike } from '../internal/inode.js';
 import { join, resolve } from '../vfs/path.js';
 import { Stats } from '../vfs/stats.js';
 import type { Backend } from './backend.js';
 
+/**
+ * Converts a time in milliseconds (or nanoseconds if it is a bigint) to the seconds Node.js expects
+ */
+function toSeconds(time: number | bigint): number {
+	return typeof time == 'bigint' ? Number(time) / 1e9 : time / 1000;
+}
+
 // Type for Node.js fs module
 export type NodeFS = typeof fs;
 
@@ -133,12 +140,12 @@ class PassthroughFile extends File<PassthroughFS> {
 		this.node.fchownSync(this.fd, uid, gid);
 	}
 
-	public async utimes(atime: number, mtime: number): Promise<void> {
-		await this.node.promises.utimes(this.nodePath, atime, mtime);
+	public async utimes(atime: number | bigint, mtime: number | bigint): Promise<void> {
+		await this.node.promises.utimes(this.nodePath, toSeconds(atime), toSeconds(mtime));
 	}
 
-	public utimesSync(atime: number, mtime: number): void {
-		this.node.futimesSync(this.fd, atime, mtime);
+	public utimesSync(atime: number | bigint, mtime: number | bigint): void {
+		this.node.futimesSync(this.fd, toSeconds(atime), toSeconds(mtime));
 	}
 }
 
@@ -167,6 +174,17 @@ export class PassthroughFS extends FileSystem {
 		throw ErrnoError.With(error.code as keyof typeof Errno, path, error.syscall);
 	}
 
+	/**
+	 * Watches for changes using the host's `fs.watch`.
+	 * Note that this also reports changes made through the VFS, so watchers may be notified of them twice.
+	 */
+	public watch(listener: ChangeListener): () => void {
+		const watcher = this.nodeFS.watch(this.prefix, { recursive: true, persistent: false }, (eventType, filename) => {
+			if (filename) listener(eventType, '/' + filename.replaceAll('\\', '/'));
+		});
+		return () => watcher.close();
+	}
+
 	/**
 	 * Rename a file or directory.
 	 */
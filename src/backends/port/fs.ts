@@ -1,9 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type { ExtractProperties } from 'utilium';
-import type { Inode, InodeLike } from '../..//internal/inode.js';
+import type { Attributes, Inode, InodeLike } from '../..//internal/inode.js';
 import type { MountConfiguration } from '../../config.js';
 import type { File } from '../../internal/file.js';
-import type { CreationOptions, UsageInfo } from '../../internal/filesystem.js';
+import type { FileLock } from '../../internal/locks.js';
+import type { ChangeListener, CreationOptions, UsageInfo } from '../../internal/filesystem.js';
 import type { Backend, FilesystemOf } from '../backend.js';
 
 import { pick } from 'utilium';
@@ -26,6 +27,16 @@ export type FSRequest<TMethod extends FSMethod = FSMethod> = RPC.Message
 		};
 	}[TMethod];
 
+/**
+ * Requests to start or stop sending change events to a port
+ */
+export type WatchRequest = RPC.Message & { method: 'watch' | 'unwatch'; args: [] };
+
+/**
+ * How long to wait before retrying to take a lock, in milliseconds
+ */
+const _lockRetryInterval = 10;
+
 /**
  * PortFS lets you access an FS instance that is running in a port, or the other way around.
  *
@@ -35,6 +46,8 @@ export type FSRequest<TMethod extends FSMethod = FSMethod> = RPC.Message
 export class PortFS extends Async(FileSystem) {
 	public readonly port: RPC.Port;
 
+	protected listeners = new Set<ChangeListener>();
+
 	/**`
 	 * @hidden
 	 */
@@ -47,6 +60,10 @@ export class PortFS extends Async(FileSystem) {
 		super(0x706f7274, 'portfs');
 		this.port = options.port;
 		RPC.attach<RPC.Response>(this.port, RPC.handleResponse);
+		RPC.attach<RPC.Response>(this.port, event => {
+			if (!RPC.isChangeEvent(event)) return;
+			for (const listener of this.listeners) listener(event.eventType, event.path);
+		});
 	}
 
 	protected rpc<const T extends FSMethod>(method: T, ...args: Parameters<FSMethods[T]>): Promise<Awaited<ReturnType<FSMethods[T]>>> {
@@ -118,11 +135,117 @@ export class PortFS extends Async(FileSystem) {
 	public write(path: string, buffer: Uint8Array, offset: number): Promise<void> {
 		return this.rpc('write', path, buffer, offset);
 	}
+
+	public getxattrs(path: string): Promise<Attributes> {
+		return this.rpc('getxattrs', path);
+	}
+
+	public setxattrs(path: string, attributes: Attributes): Promise<void> {
+		return this.rpc('setxattrs', path, attributes);
+	}
+
+	public getLock(path: string, lock: FileLock): Promise<FileLock | undefined> {
+		return this.rpc('getLock', path, lock);
+	}
+
+	/**
+	 * Watches for changes made by other clients of the remote file system, or by the remote file system itself.
+	 * The remote only sends change events while something is watching.
+	 */
+	public watch(listener: ChangeListener): () => void {
+		this.listeners.add(listener);
+		if (this.listeners.size == 1) this._watch('watch');
+
+		return () => {
+			if (!this.listeners.delete(listener) || this.listeners.size) return;
+			this._watch('unwatch');
+		};
+	}
+
+	protected _watch(method: 'watch' | 'unwatch'): void {
+		RPC.request<WatchRequest, void>({ method, args: [] }, { ...this.options, fs: this }).catch((e: ErrnoError) => err(e, { fs: this }));
+	}
+
+	/**
+	 * Waiting is done by retrying, since a remote wait could outlast the RPC timeout.
+	 */
+	public async setLock(path: string, lock: FileLock, wait: boolean): Promise<void> {
+		while (true) {
+			try {
+				return await this.rpc('setLock', path, lock, false);
+			} catch (e) {
+				if (!wait || (e as ErrnoError).errno != Errno.EWOULDBLOCK) throw e;
+			}
+			await new Promise(resolve => setTimeout(resolve, _lockRetryInterval));
+		}
+	}
+
+	public releaseLocks(owner: string): Promise<void> {
+		return this.rpc('releaseLocks', owner);
+	}
+}
+
+/**
+ * The ports watching each file system, with the functions that stop watching
+ */
+const watching = new Map<FileSystem, Map<RPC.Port, () => void>>();
+
+/**
+ * The methods that change a file system, and the kind of change event they cause
+ */
+const changes: Partial<Record<FSMethod, 'rename' | 'change'>> = {
+	rename: 'rename',
+	link: 'rename',
+	createFile: 'rename',
+	mkdir: 'rename',
+	unlink: 'rename',
+	rmdir: 'rename',
+	touch: 'change',
+	sync: 'change',
+	write: 'change',
+	setxattrs: 'change',
+};
+
+function _watch(port: RPC.Port, fs: FileSystem, method: 'watch' | 'unwatch'): void {
+	const ports = watching.get(fs) ?? new Map<RPC.Port, () => void>();
+	watching.set(fs, ports);
+
+	if (method == 'watch' && !ports.has(port)) {
+		const stop = fs.watch((eventType, path) => port.postMessage({ _zenfs: true, _change: true, eventType, path } satisfies RPC.ChangeEvent));
+		ports.set(port, stop);
+	}
+
+	if (method == 'unwatch') {
+		ports.get(port)?.();
+		ports.delete(port);
+	}
+
+	if (!ports.size) watching.delete(fs);
+}
+
+/**
+ * Sends change events for a request to the ports watching `fs`, except the one that made the request
+ */
+function _notify(origin: RPC.Port, fs: FileSystem, { method, args }: FSRequest): void {
+	const eventType = changes[method];
+	if (!eventType) return;
+
+	// `rename` and `link` have a second path
+	const paths = args.slice(0, method == 'rename' || method == 'link' ? 2 : 1) as string[];
+
+	for (const port of watching.get(fs)?.keys() ?? []) {
+		if (port == origin) continue;
+		for (const path of paths) port.postMessage({ _zenfs: true, _change: true, eventType, path } satisfies RPC.ChangeEvent);
+	}
 }
 
 /** @internal */
-export async function handleRequest(port: RPC.Port, fs: FileSystem & { _descriptors?: Map<number, File> }, request: FSRequest): Promise<void> {
-	if (!RPC.isMessage(request)) return;
+export async function handleRequest(
+	port: RPC.Port,
+	fs: FileSystem & { _descriptors?: Map<number, File> },
+	request: FSRequest | WatchRequest
+): Promise<void> {
+	if (!RPC.isMessage(request) || RPC.isChangeEvent(request)) return;
 
 	const { method, args, id, stack } = request;
 
@@ -130,8 +253,15 @@ export async function handleRequest(port: RPC.Port, fs: FileSystem & { _descript
 		error: boolean = false;
 
 	try {
+		if (method == 'watch' || method == 'unwatch') {
+			_watch(port, fs, method);
+			port.postMessage({ _zenfs: true, id, error, method, stack, value });
+			return;
+		}
+
 		// @ts-expect-error 2556
 		value = await fs[method](...args);
+		_notify(port, fs, request as FSRequest);
 		switch (method) {
 			case 'openFile':
 			case 'createFile': {
@@ -155,7 +285,7 @@ export async function handleRequest(port: RPC.Port, fs: FileSystem & { _descript
 }
 
 export function attachFS(port: RPC.Port, fs: FileSystem): void {
-	RPC.attach<FSRequest>(port, request => handleRequest(port, fs, request));
+	RPC.attach<FSRequest | WatchRequest>(port, request => handleRequest(port, fs, request));
 }
 
 export function detachFS(port: RPC.Port, fs: FileSystem): void {
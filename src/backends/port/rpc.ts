@@ -78,6 +78,20 @@ function isFileData(value: unknown): value is FileData {
 
 export type { FileData as File };
 
+/**
+ * Sent to ports watching a file system when it changes
+ */
+export interface ChangeEvent {
+	_zenfs: true;
+	_change: true;
+	eventType: 'rename' | 'change';
+	path: string;
+}
+
+export function isChangeEvent(arg: unknown): arg is ChangeEvent {
+	return isMessage(arg) && '_change' in arg && !!arg._change;
+}
+
 // general types
 
 export function isMessage(arg: unknown): arg is Message {
@@ -116,8 +130,8 @@ export function request<const TRequest extends Request, TValue>(
 	});
 }
 
-export function handleResponse<const TResponse extends Response>(response: TResponse): void {
-	if (!isMessage(response)) {
+export function handleResponse<const TResponse extends Response>(response: TResponse | ChangeEvent): void {
+	if (!isMessage(response) || isChangeEvent(response)) {
 		return;
 	}
 	const { id, value, error, stack } = response;
@@ -11,11 +11,19 @@ import type { Store } from './store/store.js';
 
 @struct()
 class MetadataEntry {
-	/** Inode or data ID */
-	@t.uint32 id: number = 0;
+	/**
+	 * Inode or data ID.
+	 * @privateRemarks In version 1, this was 32 bits followed by 32 reserved (zero) bits, which is the same when read as 64 bits.
+	 */
+	@t.uint64 protected _id: bigint = BigInt(0);
 
-	/** Reserved for 64-bit offset expansion */
-	@t.uint32 protected offset_: number = 0;
+	public get id(): number {
+		return Number(this._id);
+	}
+
+	public set id(value: number) {
+		this._id = BigInt(value);
+	}
 
 	/** Offset into the buffer the data is stored at. */
 	@t.uint32 offset: number = 0;
@@ -29,6 +37,14 @@ class MetadataEntry {
  */
 const entries_per_block = 255;
 
+/**
+ * A region of the buffer
+ */
+interface Extent {
+	offset: number;
+	size: number;
+}
+
 /**
  * A block of metadata for a single-buffer file system.
  * This metadata maps IDs (for inodes and data) to actual offsets in the buffer.
@@ -85,6 +101,7 @@ class SuperBlock {
 		if (store._view.getUint32(offsetof(SuperBlock, 'magic'), true) != sb_magic) {
 			warn('SingleBuffer: Invalid magic value, assuming this is a fresh super block');
 			this.metadata = new MetadataBlock(this);
+			this.metadata.offset = this.metadata_offset = sizeof(SuperBlock);
 			this.used_bytes = BigInt(sizeof(SuperBlock) + sizeof(MetadataBlock));
 			this.total_bytes = BigInt(store._buffer.byteLength);
 			store._write(this);
@@ -108,8 +125,13 @@ class SuperBlock {
 	/** Signature for the superblock. */
 	@t.uint32 magic: number = sb_magic;
 
-	/** The version of the on-disk format */
-	@t.uint16 version: number = 1;
+	/**
+	 * The version of the on-disk format.
+	 * Versions:
+	 * 1. Metadata entries have 32-bit IDs
+	 * 2. (current) Metadata entries have 64-bit IDs
+	 */
+	@t.uint16 version: number = 2;
 
 	/** Which format of `Inode` is used */
 	@t.uint16 inode_format: number = _inode_version;
@@ -117,7 +139,10 @@ class SuperBlock {
 	/** Flags for the file system. Currently unused */
 	@t.uint32 flags: number = 0;
 
-	/** The number of used bytes, including the super block and metadata */
+	/**
+	 * The end of the used space, including the super block and metadata.
+	 * There may be unused regions before this, which are reused when data is allocated.
+	 */
 	@t.uint64 used_bytes: bigint = BigInt(0);
 
 	/** The total size of the entire file system, including the super block and metadata */
@@ -142,63 +167,73 @@ class SuperBlock {
 	/** An optional label for the file system */
 	@t.char(64) label: string = '';
 
+	/**
+	 * Used to lock the file system when the buffer is shared between threads.
+	 * 0 is unlocked, 1 is locked, and 2 is locked with other threads waiting.
+	 * @privateRemarks This is only accessed using `Atomics` and is not included in the checksum.
+	 */
+	@t.int32 lock: number = 0;
+
+	/**
+	 * Incremented every time the file system is changed, so other threads know to reload their metadata.
+	 * @privateRemarks This is only accessed using `Atomics` and is not included in the checksum.
+	 */
+	@t.uint32 generation: number = 0;
+
 	/** Padded to 256 bytes */
-	@t.char(132) _padding: number[] = new Array(132).fill(0);
+	@t.char(124) _padding: number[] = new Array(124).fill(0);
 
 	/**
 	 * Rotate out the current metadata block.
-	 * Allocates a new metadata block, moves the current one to backup,
-	 * and updates used_bytes accordingly.
+	 * Allocates a new metadata block and moves the current one to backup.
 	 * @returns the new metadata block
 	 */
 	public rotateMetadata(): MetadataBlock {
 		const metadata = new MetadataBlock(this);
-		metadata.offset = Number(this.used_bytes);
+		metadata.offset = this.store._allocate(sizeof(MetadataBlock));
 		metadata.previous_offset = this.metadata_offset;
 
 		this.metadata = metadata;
 		this.metadata_offset = metadata.offset;
 		this.store._write(metadata);
-
-		this.used_bytes += BigInt(sizeof(MetadataBlock));
 		this.store._write(this);
 
 		return metadata;
 	}
+}
 
-	/**
-	 * Checks to see if `length` bytes are unused, starting at `offset`.
-	 * @internal Not for external use!
-	 */
-	public isUnused(offset: number, length: number): boolean {
-		if (!length) return true;
-
-		if (offset + length > this.total_bytes || offset < sizeof(SuperBlock)) return false;
+/**
+ * The range of the super block that is updated atomically.
+ * This is excluded from the checksum and never written with the rest of the super block.
+ */
+const sb_sync_start = offsetof(SuperBlock, 'lock'),
+	sb_sync_end = offsetof(SuperBlock, '_padding');
 
-		for (let block: MetadataBlock | undefined = this.metadata; block; block = block.previous) {
-			if (offset < block.offset + sizeof(MetadataBlock) && offset + length > block.offset) return false;
+function computeChecksum(value: SuperBlock | MetadataBlock): number {
+	const buffer = serialize(value);
+	if (value instanceof SuperBlock) buffer.fill(0, sb_sync_start, sb_sync_end);
+	return crc32c(buffer.subarray(4)); // note we don't include the checksum when computing a new one.
+}
 
-			for (const entry of block.entries) {
-				if (!entry.offset) continue;
-
-				if (
-					(offset >= entry.offset && offset < entry.offset + entry.size)
-					|| (offset + length > entry.offset && offset + length <= entry.offset + entry.size)
-					|| (offset <= entry.offset && offset + length >= entry.offset + entry.size)
-				) {
-					return false;
-				}
-			}
-		}
+function checksumMatches(value: SuperBlock | MetadataBlock): boolean {
+	return value.checksum === computeChecksum(value);
+}
 
-		return true;
+/**
+ * Waits for `sync[index]` to no longer be `value`.
+ * `Atomics.wait` is not allowed on some threads (e.g. the main thread in browsers), in which case this returns immediately so the caller spins.
+ */
+function wait(sync: Int32Array, index: number, value: number, timeout?: number): 'ok' | 'not-equal' | 'timed-out' | 'unsupported' {
+	try {
+		return Atomics.wait(sync, index, value, timeout);
+	} catch {
+		return 'unsupported';
 	}
 }
 
-function checksumMatches(value: SuperBlock | MetadataBlock): boolean {
-	const buffer = serialize(value);
-	const computed = crc32c(buffer.subarray(4)); // note we don't include the checksum when computing a new one.
-	return value.checksum === computed;
+const enum Sync {
+	Lock = 0,
+	Generation = 1,
 }
 
 /**
@@ -222,14 +257,159 @@ export class SingleBufferStore implements SyncMapStore {
 	 */
 	readonly _buffer: Uint8Array;
 
-	public constructor(buffer: ArrayBufferLike | ArrayBufferView) {
+	/**
+	 * The lock and generation words of the super block, if the buffer is shared.
+	 */
+	protected readonly _sync?: Int32Array;
+
+	/** How many times this thread has acquired the lock without releasing it */
+	protected _depth: number = 0;
+
+	/** The last generation this thread has seen */
+	protected _generation: number = 0;
+
+	/** The generation of the buffer, as of the last time this thread locked it */
+	public get generation(): number {
+		return this._generation;
+	}
+
+	/** Whether the buffer was changed while this thread held the lock */
+	protected _dirty: boolean = false;
+
+	/**
+	 * The buffer, if it can be resized
+	 */
+	protected readonly _resizable?: ArrayBuffer | SharedArrayBuffer;
+
+	/**
+	 * The maximum size of the buffer.
+	 * This is the size of the buffer if it can't be resized.
+	 */
+	public readonly maxByteLength: number;
+
+	/**
+	 * @param buffer The buffer to use. If this is a resizable `ArrayBuffer` or growable `SharedArrayBuffer`, it is grown when more space is needed.
+	 * @param maxByteLength The maximum size to grow the buffer to, which can be lower than the buffer's own maximum
+	 */
+	public constructor(buffer: ArrayBufferLike | ArrayBufferView, maxByteLength?: number) {
 		if (buffer.byteLength < sizeof(SuperBlock) + sizeof(MetadataBlock))
 			throw crit(new ErrnoError(Errno.EINVAL, 'SingleBuffer: Buffer is too small for a file system'));
 
+		// Views without a length track the size of resizable buffers
 		this._view = !ArrayBuffer.isView(buffer) ? new DataView(buffer) : new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
 		this._buffer = !ArrayBuffer.isView(buffer) ? new Uint8Array(buffer) : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
 
+		if (!ArrayBuffer.isView(buffer) && (('resizable' in buffer && buffer.resizable) || ('growable' in buffer && buffer.growable))) {
+			this._resizable = buffer;
+		}
+
+		this.maxByteLength = Math.min(maxByteLength ?? Infinity, this._resizable?.maxByteLength ?? buffer.byteLength);
+
+		if (typeof SharedArrayBuffer != 'undefined' && this._buffer.buffer instanceof SharedArrayBuffer) {
+			if ((this._buffer.byteOffset + sb_sync_start) % 4)
+				throw crit(new ErrnoError(Errno.EINVAL, 'SingleBuffer: Shared buffers must be aligned to 4 bytes'));
+			this._sync = new Int32Array(this._buffer.buffer, this._buffer.byteOffset + sb_sync_start, 2);
+		}
+
+		this._lock();
+		try {
+			this.superblock = new SuperBlock(this);
+			this._generation = this._sync ? Atomics.load(this._sync, Sync.Generation) : 0;
+		} finally {
+			this._unlock();
+		}
+	}
+
+	/**
+	 * Whether the buffer is a `SharedArrayBuffer`, and so may be used by other threads
+	 */
+	public get shared(): boolean {
+		return !!this._sync;
+	}
+
+	/**
+	 * Acquires the lock for the buffer.
+	 * If another thread changed the buffer since this thread last held the lock, the metadata is reloaded.
+	 * The lock is re-entrant, since the store is shared by all of the transactions on this thread.
+	 * @internal @hidden
+	 */
+	_lock(): void {
+		if (!this._sync || this._depth++) return;
+
+		let state = Atomics.compareExchange(this._sync, Sync.Lock, 0, 1);
+		while (state) {
+			// Mark the lock as contended so whoever holds it notifies us
+			if (state == 2 || Atomics.compareExchange(this._sync, Sync.Lock, 1, 2)) wait(this._sync, Sync.Lock, 2);
+			state = Atomics.compareExchange(this._sync, Sync.Lock, 0, 2);
+		}
+
+		const generation = Atomics.load(this._sync, Sync.Generation);
+		if (generation == this._generation || !this.superblock) return;
+
+		this._generation = generation;
 		this.superblock = new SuperBlock(this);
+		this._free = undefined;
+		this._fs?._invalidate();
+	}
+
+	/**
+	 * Releases the lock for the buffer, notifying other threads if the buffer was changed.
+	 * @internal @hidden
+	 */
+	_unlock(): void {
+		if (!this._sync || --this._depth) return;
+
+		if (this._dirty) {
+			this._dirty = false;
+			this._generation = Atomics.add(this._sync, Sync.Generation, 1) + 1;
+			Atomics.notify(this._sync, Sync.Generation);
+		}
+
+		if (Atomics.exchange(this._sync, Sync.Lock, 0) == 2) Atomics.notify(this._sync, Sync.Lock, 1);
+	}
+
+	/**
+	 * Waits until another thread changes the buffer, then reloads the metadata.
+	 * @param timeout The maximum time to wait, in milliseconds
+	 * @returns whether the buffer was changed
+	 */
+	public waitForChangeSync(timeout?: number): boolean {
+		if (!this._sync) throw ErrnoError.With('ENOTSUP', undefined, 'waitForChange');
+
+		const result = wait(this._sync, Sync.Generation, this._generation, timeout);
+		if (result == 'unsupported') throw ErrnoError.With('ENOTSUP', undefined, 'waitForChange');
+		return this.refresh();
+	}
+
+	/**
+	 * Waits until another thread changes the buffer, then reloads the metadata.
+	 * @param timeout The maximum time to wait, in milliseconds
+	 * @returns whether the buffer was changed
+	 */
+	public async waitForChange(timeout?: number): Promise<boolean> {
+		if (!this._sync || !Atomics.waitAsync) throw ErrnoError.With('ENOTSUP', undefined, 'waitForChange');
+
+		const { value } = Atomics.waitAsync(this._sync, Sync.Generation, this._generation, timeout);
+
+		// Some runtimes (e.g. Node.js) don't keep running while only waiting on `Atomics.waitAsync`
+		const keepAlive = setInterval(() => {}, 0x7fffffff);
+		try {
+			await value;
+		} finally {
+			clearInterval(keepAlive);
+		}
+		return this.refresh();
+	}
+
+	/**
+	 * Reloads the metadata if another thread has changed the buffer
+	 * @returns whether the buffer was changed
+	 */
+	public refresh(): boolean {
+		const generation = this._generation;
+		this._lock();
+		this._unlock();
+		return generation != this._generation;
 	}
 
 	/**
@@ -237,9 +417,18 @@ export class SingleBufferStore implements SyncMapStore {
 	 * @internal @hidden
 	 */
 	_write(value: SuperBlock | MetadataBlock): void {
-		value.checksum = crc32c(serialize(value).subarray(4));
-		const offset = 'offset' in value ? value.offset : 0;
-		this._buffer.set(serialize(value), offset);
+		this._dirty = true;
+		value.checksum = computeChecksum(value);
+		const data = serialize(value);
+
+		if (value instanceof MetadataBlock) {
+			this._buffer.set(data, value.offset);
+			return;
+		}
+
+		// The lock and generation are skipped, since other threads may be using them
+		this._buffer.set(data.subarray(0, sb_sync_start), 0);
+		this._buffer.set(data.subarray(sb_sync_end), sb_sync_end);
 	}
 
 	public keys(): Iterable<number> {
@@ -251,86 +440,260 @@ export class SingleBufferStore implements SyncMapStore {
 	}
 
 	public get(id: number): Uint8Array | undefined {
+		const [, entry] = this.find(id) ?? [];
+		// A copy is returned since the region may be reused (or changed by other threads) once it is freed
+		return entry && this._buffer.slice(entry.offset, entry.offset + entry.size);
+	}
+
+	/**
+	 * Finds the metadata entry for `id`
+	 */
+	protected find(id: number): [MetadataBlock, MetadataEntry] | undefined {
 		for (let block: MetadataBlock | undefined = this.superblock.metadata; block; block = block.previous) {
 			for (const entry of block.entries) {
-				if (entry.offset && entry.id == id) {
-					return this._buffer.subarray(entry.offset, entry.offset + entry.size);
-				}
+				if (entry.offset && entry.id == id) return [block, entry];
 			}
 		}
 	}
 
 	public set(id: number, data: Uint8Array): void {
-		for (let block: MetadataBlock | undefined = this.superblock.metadata; block; block = block.previous) {
-			for (const entry of block.entries) {
-				if (!entry.offset || entry.id != id) continue;
-
-				if (data.length <= entry.size) {
-					this._buffer.set(data, entry.offset);
-					if (data.length < entry.size) {
-						entry.size = data.length;
-						this._write(block);
-					}
-					return;
-				}
-
-				if (this.superblock.isUnused(entry.offset, data.length)) {
-					entry.size = data.length;
-					this._buffer.set(data, entry.offset);
-					this._write(block);
-					return;
-				}
+		this._dirty = true;
 
-				const used_bytes = Number(this.superblock.used_bytes);
+		const existing = this.find(id);
 
-				for (let block: MetadataBlock | undefined = this.superblock.metadata; block; block = block.previous) {
-					for (const entry of block.entries) {
-						if (entry.offset != used_bytes) continue;
-						entry.offset += data.length;
-						this._write(block);
-						break;
-					}
-				}
+		if (existing) {
+			const [block, entry] = existing;
 
-				entry.offset = used_bytes;
-				entry.size = data.length;
-				this._buffer.set(data, entry.offset);
-				this._write(block);
-				this.superblock.used_bytes += BigInt(data.length);
-				this._write(this.superblock);
-				return;
+			if (data.length > entry.size && !this._extend(entry.offset + entry.size, data.length - entry.size)) {
+				const offset = this._allocate(data.length);
+				this._release(entry.offset, entry.size);
+				entry.offset = offset;
+			} else if (data.length < entry.size) {
+				this._release(entry.offset + data.length, entry.size - data.length);
 			}
-		}
 
-		let entry = this.superblock.metadata.entries.find(e => !e.offset);
+			entry.size = data.length;
+			this._buffer.set(data, entry.offset);
+			this._write(block);
+			this._write(this.superblock);
+			return;
+		}
 
-		if (!entry) {
-			this.superblock.rotateMetadata();
-			entry = this.superblock.metadata.entries[0];
+		let block: MetadataBlock | undefined, entry: MetadataEntry | undefined;
+		for (block = this.superblock.metadata; block && !entry; block = entry ? block : block.previous) {
+			entry = block.entries.find(e => !e.offset);
 		}
 
-		const offset = Number(this.superblock.used_bytes);
+		if (!block || !entry) {
+			block = this.superblock.rotateMetadata();
+			entry = block.entries[0];
+		}
 
 		entry.id = id;
-		entry.offset = offset;
+		entry.offset = this._allocate(data.length);
 		entry.size = data.length;
 
-		this._buffer.set(data, offset);
+		this._buffer.set(data, entry.offset);
 
-		this.superblock.used_bytes += BigInt(data.length);
-		this._write(this.superblock.metadata);
+		this._write(block);
 		this._write(this.superblock);
 	}
 
 	public delete(id: number): void {
+		const existing = this.find(id);
+		if (!existing) return;
+
+		const [block, entry] = existing;
+		this._release(entry.offset, entry.size);
+		entry.offset = 0;
+		entry.size = 0;
+		this._write(block);
+		this._write(this.superblock);
+	}
+
+	/**
+	 * Unused regions of the buffer before `used_bytes`, sorted by offset.
+	 * This is computed from the metadata when needed.
+	 */
+	private _free?: Extent[];
+
+	protected get free(): Extent[] {
+		if (this._free) return this._free;
+
+		const used: Extent[] = [{ offset: 0, size: sizeof(SuperBlock) }];
 		for (let block: MetadataBlock | undefined = this.superblock.metadata; block; block = block.previous) {
-			for (const entry of block.entries) {
-				if (entry.id != id) continue;
-				entry.offset = 0;
-				entry.size = 0;
-				this._write(block);
-				return;
+			used.push({ offset: block.offset, size: sizeof(MetadataBlock) });
+			for (const entry of block.entries) if (entry.offset && entry.size) used.push(entry);
+		}
+		used.sort((a, b) => a.offset - b.offset);
+
+		this._free = [];
+		let end = 0;
+		for (const { offset, size } of used) {
+			if (offset > end) this._free.push({ offset: end, size: offset - end });
+			end = Math.max(end, offset + size);
+		}
+
+		const used_bytes = Number(this.superblock.used_bytes);
+		if (end < used_bytes) this._free.push({ offset: end, size: used_bytes - end });
+
+		return this._free;
+	}
+
+	/**
+	 * If the last free region is at the end of the used space, it is given back by reducing `used_bytes`
+	 */
+	private _releaseTail(): void {
+		const last = this._free?.at(-1);
+		if (!last || last.offset + last.size != Number(this.superblock.used_bytes)) return;
+		this._free!.pop();
+		this.superblock.used_bytes = BigInt(last.offset);
+	}
+
+	/**
+	 * Allocates `size` bytes, using the first free region that is large enough or the end of the used space.
+	 * @internal @hidden
+	 */
+	_allocate(size: number): number {
+		const free = this.free;
+
+		const index = free.findIndex(extent => extent.size >= size);
+		if (index != -1) {
+			const extent = free[index];
+			const offset = extent.offset;
+			extent.offset += size;
+			extent.size -= size;
+			if (!extent.size) free.splice(index, 1);
+			return offset;
+		}
+
+		const offset = Number(this.superblock.used_bytes);
+		if (offset + size > this.superblock.total_bytes && !this._grow(offset + size))
+			throw crit(new ErrnoError(Errno.ENOSPC, 'SingleBuffer: Not enough space in buffer'));
+		this.superblock.used_bytes += BigInt(size);
+		return offset;
+	}
+
+	/**
+	 * Grows the buffer so it is at least `size` bytes, doubling its size if possible.
+	 * @returns whether the buffer could be grown
+	 */
+	protected _grow(size: number): boolean {
+		if (!this._resizable || size > this.maxByteLength) return false;
+
+		const newSize = Math.min(this.maxByteLength, Math.max(size, this._buffer.byteLength * 2));
+
+		try {
+			if ('grow' in this._resizable) this._resizable.grow(newSize);
+			else this._resizable.resize(newSize);
+		} catch (e) {
+			warn('SingleBuffer: Failed to grow buffer: ' + (e instanceof Error ? e.message : e));
+			return false;
+		}
+
+		this.superblock.total_bytes = BigInt(this._buffer.byteLength);
+		this._write(this.superblock);
+		return true;
+	}
+
+	/**
+	 * Tries to allocate exactly `size` bytes at `offset`, which is used to grow data in place.
+	 * @internal @hidden
+	 */
+	_extend(offset: number, size: number): boolean {
+		const free = this.free;
+
+		if (offset == Number(this.superblock.used_bytes)) {
+			if (offset + size > this.superblock.total_bytes && !this._grow(offset + size)) return false;
+			this.superblock.used_bytes += BigInt(size);
+			return true;
+		}
+
+		const index = free.findIndex(extent => extent.offset == offset);
+		if (index == -1 || free[index].size < size) return false;
+
+		free[index].offset += size;
+		free[index].size -= size;
+		if (!free[index].size) free.splice(index, 1);
+		return true;
+	}
+
+	/**
+	 * Marks a region as free, merging it with adjacent free regions.
+	 * @internal @hidden
+	 */
+	_release(offset: number, size: number): void {
+		if (!size) return;
+
+		const free = this.free;
+
+		let index = free.findIndex(extent => extent.offset > offset);
+		if (index == -1) index = free.length;
+
+		const previous = free[index - 1],
+			next = free[index];
+
+		if (previous && previous.offset + previous.size == offset) {
+			previous.size += size;
+			if (next && previous.offset + previous.size == next.offset) {
+				previous.size += next.size;
+				free.splice(index, 1);
 			}
+		} else if (next && offset + size == next.offset) {
+			next.offset = offset;
+			next.size += size;
+		} else {
+			free.splice(index, 0, { offset, size });
+		}
+
+		this._releaseTail();
+	}
+
+	/**
+	 * Rewrites all of the data contiguously after the super block and rebuilds the metadata.
+	 * This removes any unused space between data, so all of the free space is at the end of the buffer.
+	 */
+	public compact(): void {
+		this._lock();
+		try {
+			const entries: [id: number, data: Uint8Array][] = [];
+			for (let block: MetadataBlock | undefined = this.superblock.metadata; block; block = block.previous) {
+				for (const entry of block.entries) {
+					if (entry.offset) entries.push([entry.id, this._buffer.slice(entry.offset, entry.offset + entry.size)]);
+				}
+			}
+
+			const old_used = Number(this.superblock.used_bytes);
+			const blocks: MetadataBlock[] = [];
+			let offset = sizeof(SuperBlock);
+
+			for (let i = 0; i < Math.max(1, Math.ceil(entries.length / entries_per_block)); i++) {
+				const block = new MetadataBlock(this.superblock);
+				block.offset = offset;
+				block.previous_offset = blocks.at(-1)?.offset ?? 0;
+				blocks.push(block);
+				offset += sizeof(MetadataBlock);
+			}
+
+			for (const [i, [id, data]] of entries.entries()) {
+				const entry = blocks[Math.floor(i / entries_per_block)].entries[i % entries_per_block];
+				entry.id = id;
+				entry.offset = offset;
+				entry.size = data.length;
+				this._buffer.set(data, offset);
+				offset += data.length;
+			}
+
+			for (const block of blocks) this._write(block);
+			this._buffer.fill(0, offset, old_used);
+
+			this.superblock.metadata = blocks.at(-1)!;
+			this.superblock.metadata_offset = this.superblock.metadata.offset;
+			this.superblock.used_bytes = BigInt(offset);
+			this._write(this.superblock);
+			this._free = [];
+		} finally {
+			this._unlock();
 		}
 	}
 
@@ -341,14 +704,56 @@ export class SingleBufferStore implements SyncMapStore {
 	}
 
 	public usage(): UsageInfo {
+		const free = this.free.reduce((size, extent) => size + extent.size, 0);
+		const total = Math.max(this.maxByteLength, Number(this.superblock.total_bytes));
 		return {
-			totalSpace: Number(this.superblock.total_bytes),
-			freeSpace: Number(this.superblock.total_bytes - this.superblock.used_bytes),
+			totalSpace: total,
+			freeSpace: total - Number(this.superblock.used_bytes) + free,
 		};
 	}
 
-	public transaction(): SyncMapTransaction {
-		return new SyncMapTransaction(this);
+	public transaction(): SingleBufferTransaction {
+		return new SingleBufferTransaction(this);
+	}
+}
+
+/**
+ * A transaction for a `SingleBufferStore`.
+ * The store's lock is held from when the transaction is created until it is committed or aborted.
+ * @category Stores and Transactions
+ */
+export class SingleBufferTransaction extends SyncMapTransaction {
+	declare public readonly store: SingleBufferStore;
+
+	protected done: boolean = false;
+
+	public constructor(store: SingleBufferStore) {
+		super(store);
+		store._lock();
+	}
+
+	protected release(): void {
+		if (this.done) return;
+		this.done = true;
+		this.store._unlock();
+	}
+
+	public commitSync(): void {
+		this.release();
+	}
+
+	public commit(): Promise<void> {
+		this.release();
+		return Promise.resolve();
+	}
+
+	public abortSync(): void {
+		this.release();
+	}
+
+	public abort(): Promise<void> {
+		this.release();
+		return Promise.resolve();
 	}
 }
 
@@ -357,16 +762,34 @@ export class SingleBufferStore implements SyncMapStore {
  * @category Backends and Configuration
  */
 export interface SingleBufferOptions {
+	/**
+	 * The buffer to use.
+	 * If this is a resizable `ArrayBuffer` or growable `SharedArrayBuffer`, it will be grown when more space is needed.
+	 */
 	buffer: ArrayBufferLike | ArrayBufferView;
+
+	/**
+	 * The maximum size to grow the buffer to.
+	 * Defaults to the buffer's `maxByteLength`.
+	 */
+	maxByteLength?: number;
+
+	/**
+	 * Whether to resolve paths as they are looked up, instead of reading every file when the file system is ready
+	 * @see StoreFSOptions#lazy
+	 */
+	lazy?: boolean;
 }
 
 const _SingleBuffer = {
 	name: 'SingleBuffer',
 	options: {
 		buffer: { type: 'object', required: true },
+		maxByteLength: { type: 'number', required: false },
+		lazy: { type: 'boolean', required: false },
 	},
-	create({ buffer }: SingleBufferOptions) {
-		const fs = new StoreFS(new SingleBufferStore(buffer));
+	create({ buffer, maxByteLength, lazy }: SingleBufferOptions) {
+		const fs = new StoreFS(new SingleBufferStore(buffer, maxByteLength), { lazy });
 		fs.checkRootSync();
 		return fs;
 	},
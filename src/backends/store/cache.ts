@@ -0,0 +1,80 @@
+/**
+ * Statistics for a cache
+ * @category Stores and Transactions
+ */
+export interface CacheStats {
+	/** The number of lookups that found a cached value */
+	hits: number;
+
+	/** The number of lookups that did not find a cached value */
+	misses: number;
+
+	/** The number of values currently cached */
+	size: number;
+
+	/** The maximum number of values that can be cached */
+	maxSize: number;
+}
+
+/**
+ * A bounded cache which evicts the least recently used values first.
+ * Since `Map`s iterate in insertion order, values are re-inserted when used so the first key is always the oldest.
+ * @category Stores and Transactions
+ */
+export class LRUCache<K, V> {
+	protected readonly values = new Map<K, V>();
+
+	public hits: number = 0;
+
+	public misses: number = 0;
+
+	public constructor(
+		/** The maximum number of values to cache. If 0, nothing is cached. */
+		public readonly maxSize: number
+	) {}
+
+	public get size(): number {
+		return this.values.size;
+	}
+
+	public has(key: K): boolean {
+		return this.values.has(key);
+	}
+
+	public get(key: K): V | undefined {
+		if (!this.values.has(key)) {
+			this.misses++;
+			return;
+		}
+
+		this.hits++;
+		const value = this.values.get(key)!;
+		this.values.delete(key);
+		this.values.set(key, value);
+		return value;
+	}
+
+	public set(key: K, value: V): void {
+		if (!this.maxSize) return;
+
+		this.values.delete(key);
+		this.values.set(key, value);
+
+		while (this.values.size > this.maxSize) {
+			const [oldest] = this.values.keys();
+			this.values.delete(oldest);
+		}
+	}
+
+	public delete(key: K): boolean {
+		return this.values.delete(key);
+	}
+
+	public clear(): void {
+		this.values.clear();
+	}
+
+	public stats(): CacheStats {
+		return { hits: this.hits, misses: this.misses, size: this.size, maxSize: this.maxSize };
+	}
+}
@@ -0,0 +1,189 @@
+import type { UsageInfo } from '../../internal/filesystem.js';
+import type { SyncMapStore } from './map.js';
+import type { StoreSnapshot } from './store.js';
+
+import { crc32c } from 'utilium/checksum.js';
+import { equal } from '../../utils.js';
+import { size_max } from '../../vfs/constants.js';
+import { SyncMapTransaction } from './map.js';
+
+/**
+ * A unique block of data
+ */
+interface Block {
+	readonly hash: number;
+	readonly data: Uint8Array;
+	/** The number of times the block is used */
+	refs: number;
+}
+
+function join(blocks: readonly Block[]): Uint8Array {
+	const data = new Uint8Array(blocks.reduce((size, block) => size + block.data.byteLength, 0));
+	let offset = 0;
+	for (const block of blocks) {
+		data.set(block.data, offset);
+		offset += block.data.byteLength;
+	}
+	return data;
+}
+
+/**
+ * A snapshot that shares blocks with the store, since blocks are never modified.
+ * Data is only copied when it is read.
+ */
+class DedupSnapshot implements StoreSnapshot {
+	public constructor(protected readonly lists: ReadonlyMap<number, readonly Block[]>) {}
+
+	public get size(): number {
+		return this.lists.size;
+	}
+
+	public has(id: number): boolean {
+		return this.lists.has(id);
+	}
+
+	public get(id: number): Uint8Array | undefined {
+		const blocks = this.lists.get(id);
+		return blocks && join(blocks);
+	}
+
+	public keys(): MapIterator<number> {
+		return this.lists.keys();
+	}
+
+	public *values(): MapIterator<Uint8Array> {
+		for (const blocks of this.lists.values()) yield join(blocks);
+	}
+
+	public *entries(): MapIterator<[number, Uint8Array]> {
+		for (const [id, blocks] of this.lists) yield [id, join(blocks)];
+	}
+
+	public forEach(callback: (value: Uint8Array, key: number, map: ReadonlyMap<number, Uint8Array>) => void, thisArg?: unknown): void {
+		for (const [id, data] of this.entries()) callback.call(thisArg, data, id, this);
+	}
+
+	public [Symbol.iterator](): MapIterator<[number, Uint8Array]> {
+		return this.entries();
+	}
+}
+
+/**
+ * An in-memory store that splits data into fixed-size blocks and stores each unique block once.
+ * Blocks are found by their checksum and compared byte-for-byte, so different data is never merged.
+ * Each ID maps to a list of blocks, and blocks are reference counted so they are freed when no longer used.
+ *
+ * Since blocks are never modified, snapshots only need to copy the block lists.
+ * @category Stores and Transactions
+ */
+export class DedupStore implements SyncMapStore {
+	public readonly flags = [] as const;
+
+	public readonly name = 'dedupfs';
+
+	/** Unique blocks, keyed by checksum */
+	protected readonly blocks = new Map<number, Block[]>();
+
+	/** The blocks each ID's data is made of */
+	protected readonly data = new Map<number, Block[]>();
+
+	public constructor(
+		/** The size data is split into blocks at */
+		public readonly blockSize: number = 4096,
+		public readonly maxSize: number = size_max,
+		public readonly label?: string
+	) {}
+
+	public async sync(): Promise<void> {}
+
+	public transaction(): SyncMapTransaction {
+		return new SyncMapTransaction(this);
+	}
+
+	public keys(): Iterable<number> {
+		return this.data.keys();
+	}
+
+	public get(id: number): Uint8Array | undefined {
+		const blocks = this.data.get(id);
+		return blocks && join(blocks);
+	}
+
+	/**
+	 * Gets an existing block with the same contents as `data`, or adds a new one
+	 */
+	protected acquire(data: Uint8Array): Block {
+		const hash = crc32c(data);
+		const bucket = this.blocks.get(hash) ?? [];
+
+		let block = bucket.find(block => equal(block.data, data));
+		if (!block) {
+			block = { hash, data: data.slice(), refs: 0 };
+			bucket.push(block);
+			this.blocks.set(hash, bucket);
+		}
+
+		block.refs++;
+		return block;
+	}
+
+	protected release(block: Block): void {
+		if (--block.refs) return;
+
+		const bucket = this.blocks.get(block.hash)!;
+		bucket.splice(bucket.indexOf(block), 1);
+		if (!bucket.length) this.blocks.delete(block.hash);
+	}
+
+	public set(id: number, data: Uint8Array): void {
+		const blocks: Block[] = [];
+		for (let offset = 0; offset < data.byteLength; offset += this.blockSize) {
+			blocks.push(this.acquire(data.subarray(offset, offset + this.blockSize)));
+		}
+
+		// Released after acquiring, so blocks that are still used aren't removed and added again
+		for (const block of this.data.get(id) ?? []) this.release(block);
+
+		this.data.set(id, blocks);
+	}
+
+	public delete(id: number): void {
+		for (const block of this.data.get(id) ?? []) this.release(block);
+		this.data.delete(id);
+	}
+
+	/**
+	 * The number of bytes used to store unique blocks and block lists
+	 */
+	public get bytes(): number {
+		let size = 0;
+		for (const bucket of this.blocks.values()) {
+			for (const block of bucket) size += block.data.byteLength;
+		}
+		for (const blocks of this.data.values()) size += 4 + blocks.length * 4;
+		return size;
+	}
+
+	/**
+	 * The number of bytes that would be used without deduplication
+	 */
+	public get logicalBytes(): number {
+		let size = 0;
+		for (const blocks of this.data.values()) {
+			size += 4;
+			for (const block of blocks) size += block.data.byteLength;
+		}
+		return size;
+	}
+
+	public usage(): UsageInfo {
+		return {
+			totalSpace: this.maxSize,
+			freeSpace: this.maxSize - this.bytes,
+		};
+	}
+
+	public snapshot(): StoreSnapshot {
+		return new DedupSnapshot(new Map(Array.from(this.data, ([id, blocks]) => [id, blocks.slice()])));
+	}
+}
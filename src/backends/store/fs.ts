@@ -1,17 +1,46 @@
-import { _throw, canary, serialize, sizeof } from 'utilium';
+import { _throw, canary, sizeof } from 'utilium';
 import { extendBuffer } from 'utilium/buffer.js';
 import { Errno, ErrnoError } from '../../internal/error.js';
 import type { File } from '../../internal/file.js';
 import { LazyFile } from '../../internal/file.js';
 import { Index } from '../../internal/file_index.js';
-import type { CreationOptions, PureCreationOptions, UsageInfo } from '../../internal/filesystem.js';
+import type { ChangeListener, CreationOptions, PureCreationOptions, UsageInfo } from '../../internal/filesystem.js';
 import { FileSystem } from '../../internal/filesystem.js';
-import { Inode, rootIno, type InodeLike } from '../../internal/inode.js';
+import { _setTime, encodeInode, Inode, rootIno, type Attributes, type InodeLike } from '../../internal/inode.js';
 import { crit, debug, err, log_deprecated, notice, warn } from '../../internal/log.js';
-import { decodeDirListing, encodeDirListing, encodeUTF8 } from '../../utils.js';
-import { S_IFDIR, S_IFREG, S_ISGID, S_ISUID, size_max } from '../../vfs/constants.js';
+import type { DirEntry } from '../../utils.js';
+import { decodeDirEntries, decodeDirListing, encodeDirListing, equal, nowNs, updateDirListing } from '../../utils.js';
+import { S_IFDIR, S_IFMT, S_IFREG, S_ISGID, S_ISUID } from '../../vfs/constants.js';
 import { basename, dirname, join, parse, relative } from '../../vfs/path.js';
-import { WrappedTransaction, type Store } from './store.js';
+import { LRUCache, type CacheStats } from './cache.js';
+import { WrappedTransaction, type Store, type StoreSnapshot } from './store.js';
+import { legacyWalKey, walKey } from './wal.js';
+
+/**
+ * Options for `StoreFS`
+ * @category Stores and Transactions
+ */
+export interface StoreFSOptions {
+	/**
+	 * If set, paths are resolved one directory at a time as they are looked up,
+	 * instead of adding every file in the store when the file system is ready.
+	 * This makes startup much faster for large stores.
+	 * @see StoreFS#populate
+	 */
+	lazy?: boolean;
+
+	/**
+	 * The maximum number of decoded inodes and directory listings to cache.
+	 * If 0, nothing is cached.
+	 * @default 1000
+	 */
+	cacheSize?: number;
+}
+
+/**
+ * How long to wait for a change to the store before checking if a watcher was stopped, in milliseconds
+ */
+const _watchTimeout = 500;
 
 /**
  * A file system which uses a `Store`
@@ -91,14 +120,92 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 	public async ready(): Promise<void> {
 		if (this._initialized) return;
 
+		await this.store.recover?.();
 		this.checkRootSync();
 		await this.checkRoot();
+		await this._prepare();
+		this._initialized = true;
+	}
+
+	/**
+	 * Adds every file in the store to the `_ids` and `_paths` maps.
+	 * This is done automatically when the file system is ready, unless it is lazy.
+	 */
+	public async populate(): Promise<void> {
+		this._resetTables();
 		await this._populate();
 		this._initialized = true;
 	}
 
-	public constructor(protected readonly store: T) {
+	/**
+	 * Adds every file in the store to the `_ids` and `_paths` maps.
+	 * This is done automatically when the file system is ready, unless it is lazy.
+	 */
+	public populateSync(): void {
+		this._resetTables();
+		this._populateSync();
+		this._initialized = true;
+	}
+
+	/**
+	 * Whether paths are resolved one directory at a time
+	 * @see StoreFSOptions#lazy
+	 */
+	public readonly lazy: boolean;
+
+	/**
+	 * Directories whose entries have been added to the tables
+	 */
+	private readonly _loaded = new Set<number>();
+
+	/**
+	 * Decoded inodes and directory listings, keyed by ID.
+	 * Only committed values are cached, and entries are removed when they are changed by a transaction.
+	 * @internal @hidden
+	 */
+	readonly _cache: LRUCache<number, Inode | Record<string, DirEntry>>;
+
+	/**
+	 * The encoded data of each listing, including changes that will be made once transactions are committed.
+	 * Listings are only changed in place if they are up to date, otherwise they are left out of the cache.
+	 */
+	private readonly _listingData = new WeakMap<Readonly<Record<string, DirEntry>>, Uint8Array>();
+
+	/**
+	 * The number of open transactions that changed each ID.
+	 * These IDs are not cached, since their values may not be committed.
+	 * @internal @hidden
+	 */
+	readonly _uncommitted = new Map<number, number>();
+
+	/**
+	 * Incremented whenever a transaction changes a value, so values read before the change are not cached.
+	 * @internal @hidden
+	 */
+	_changes: number = 0;
+
+	/**
+	 * Whether a value read when `_changes` was `changes` can be cached,
+	 * i.e. it is committed and hasn't been changed since it was read.
+	 */
+	private _cacheable(id: number, changes: number): boolean {
+		return changes == this._changes && !this._uncommitted.has(id);
+	}
+
+	/**
+	 * Hit and miss statistics for the inode and directory listing cache
+	 */
+	public cacheStats(): CacheStats {
+		return this._cache.stats();
+	}
+
+	public constructor(
+		protected readonly store: T,
+		options: StoreFSOptions = {}
+	) {
 		super(store.id ?? 0x6b766673, store.name);
+		this.lazy = options.lazy ?? false;
+		this._cache = new LRUCache(options.cacheSize ?? 1000);
 		this.attributes.set('setid');
 		store._fs = this;
 		debug(this.name + ': supports features: ' + this.store.flags?.join(', '));
@@ -116,6 +223,56 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		);
 	}
 
+	/**
+	 * Watches for changes made to the store by something else, like another thread using the same buffer.
+	 * Changes are found by comparing indexes of the file system, so this is slow for large file systems.
+	 * The file system is only re-indexed after the store is changed, not each time waiting for a change times out.
+	 */
+	public watch(listener: ChangeListener): () => void {
+		if (!this.store.waitForChange) return super.watch(listener);
+
+		let watching = true;
+
+		const poll = async () => {
+			let previous = await this.createIndex();
+			let generation = this.store.generation;
+
+			while (watching) {
+				// Changes made by this thread are already reported by the VFS, so they only need to be indexed
+				if (this.store.generation === undefined || this.store.generation != generation) {
+					previous = await this.createIndex();
+					generation = this.store.generation;
+				}
+
+				if (!(await this.store.waitForChange!(_watchTimeout)) || !watching) continue;
+
+				const current = await this.createIndex();
+
+				for (const [path, inode] of current) {
+					const old = previous.get(path);
+					if (old?.ino != inode.ino) listener('rename', path);
+					else if (old.mtimeMs != inode.mtimeMs || old.ctimeMs != inode.ctimeMs) listener('change', path);
+				}
+
+				for (const path of previous.keys()) {
+					if (!current.has(path)) listener('rename', path);
+				}
+
+				previous = current;
+				generation = this.store.generation;
+			}
+		};
+
+		poll().catch((e: ErrnoError) => {
+			// Stores may only support waiting in some configurations, e.g. `SingleBuffer` with a `SharedArrayBuffer`
+			if (e.code != 'ENOTSUP') err(e, { fs: this });
+		});
+
+		return () => {
+			watching = false;
+		};
+	}
+
 	/* node:coverage disable */
 	/**
 	 * Delete all contents stored in the file system.
@@ -149,7 +306,7 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		for (const [path, inode] of index) {
 			this._add(inode.ino, path);
-			await tx.set(inode.ino, serialize(inode));
+			await tx.set(inode.ino, encodeInode(inode));
 			if (dirs.has(path)) await tx.set(inode.data, encodeDirListing(dirs.get(path)!));
 		}
 
@@ -167,7 +324,7 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		for (const [path, inode] of index) {
 			this._add(inode.ino, path);
-			tx.setSync(inode.ino, serialize(inode));
+			tx.setSync(inode.ino, encodeInode(inode));
 			if (dirs.has(path)) tx.setSync(inode.data, encodeDirListing(dirs.get(path)!));
 		}
 
@@ -190,10 +347,10 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 			index.set(path, inode);
 
 			if (inode.mode & S_IFDIR) {
-				const dir = decodeDirListing((await tx.get(inode.data)) ?? _throw(ErrnoError.With('ENODATA', path)));
+				const dir = (await this.getListing(tx, inode.data)) ?? _throw(ErrnoError.With('ENODATA', path));
 
-				for (const [name, id] of Object.entries(dir)) {
-					queue.push([join(path, name), id]);
+				for (const [name, { ino }] of Object.entries(dir)) {
+					queue.push([join(path, name), ino]);
 				}
 			}
 		}
@@ -218,10 +375,10 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 			index.set(path, inode);
 
 			if (inode.mode & S_IFDIR) {
-				const dir = decodeDirListing(tx.getSync(inode.data) ?? _throw(ErrnoError.With('ENODATA', path)));
+				const dir = this.getListingSync(tx, inode.data) ?? _throw(ErrnoError.With('ENODATA', path));
 
-				for (const [name, id] of Object.entries(dir)) {
-					queue.push([join(path, name), id]);
+				for (const [name, { ino }] of Object.entries(dir)) {
+					queue.push([join(path, name), ino]);
 				}
 			}
 		}
@@ -230,6 +387,120 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		return index;
 	}
 
+	/**
+	 * Creates a point-in-time image of every key in the store.
+	 * @see restore
+	 */
+	public async snapshot(): Promise<StoreSnapshot> {
+		if (this.store.snapshot) return this.store.snapshot();
+
+		await using tx = this.transaction();
+
+		const snapshot = new Map<number, Uint8Array>();
+
+		for (const id of await tx.keys()) {
+			const data = await tx.get(id);
+			if (data) snapshot.set(id, data.slice());
+		}
+
+		return snapshot;
+	}
+
+	/**
+	 * Creates a point-in-time image of every key in the store.
+	 * If the store can't list keys synchronously, this only includes keys reachable from the root directory.
+	 * @see restoreSync
+	 */
+	public snapshotSync(): StoreSnapshot {
+		if (this.store.snapshot) return this.store.snapshot();
+
+		using tx = this.transaction();
+
+		const snapshot = new Map<number, Uint8Array>();
+
+		for (const id of tx.keysSync() ?? this._reachableSync(tx)) {
+			const data = tx.getSync(id);
+			if (data) snapshot.set(id, data.slice());
+		}
+
+		return snapshot;
+	}
+
+	/**
+	 * Gets the IDs of every inode and data node reachable from the root directory
+	 */
+	private _reachableSync(tx: WrappedTransaction): Set<number> {
+		const ids = new Set<number>();
+
+		const queue: number[] = [rootIno];
+
+		while (queue.length) {
+			const ino = queue.shift()!;
+			if (ids.has(ino)) continue;
+
+			const data = tx.getSync(ino);
+			if (!data) continue;
+
+			const inode = new Inode(data);
+			ids.add(ino);
+			ids.add(inode.data);
+
+			if (!(inode.mode & S_IFDIR)) continue;
+
+			const listing = tx.getSync(inode.data);
+			if (listing) queue.push(...Object.values(decodeDirListing(listing)));
+		}
+
+		return ids;
+	}
+
+	/**
+	 * Rolls the entire file system back to a snapshot.
+	 * Keys created after the snapshot was taken are removed.
+	 */
+	public async restore(snapshot: StoreSnapshot): Promise<void> {
+		await using tx = this.transaction();
+
+		for (const id of await tx.keys()) {
+			if (!snapshot.has(id)) await tx.remove(id);
+		}
+
+		for (const [id, data] of snapshot) {
+			await tx.set(id, data.slice());
+		}
+
+		await tx.commit();
+
+		this._resetTables();
+		await this._prepare();
+		this._initialized = true;
+	}
+
+	/**
+	 * Rolls the entire file system back to a snapshot.
+	 * Keys created after the snapshot was taken are removed, so this requires a store that can list keys synchronously.
+	 */
+	public restoreSync(snapshot: StoreSnapshot): void {
+		using tx = this.transaction();
+
+		const keys = tx.keysSync();
+		if (!keys) throw err(new ErrnoError(Errno.ENOTSUP, 'Store can not list keys synchronously, use restore instead', undefined, 'restoreSync'));
+
+		for (const id of keys) {
+			if (!snapshot.has(id)) tx.removeSync(id);
+		}
+
+		for (const [id, data] of snapshot) {
+			tx.setSync(id, data.slice());
+		}
+
+		tx.commitSync();
+
+		this._resetTables();
+		this._prepareSync();
+		this._initialized = true;
+	}
+
 	/**
 	 * @todo Make rename compatible with the cache.
 	 */
@@ -239,15 +510,19 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 			_new = parse(newPath),
 			// Remove oldPath from parent's directory listing.
 			oldDirNode = await this.findInode(tx, _old.dir, 'rename'),
-			oldDirList = decodeDirListing((await tx.get(oldDirNode.data)) ?? _throw(ErrnoError.With('ENODATA', _old.dir, 'rename')));
+			oldDirList = (await this.getListing(tx, oldDirNode.data)) ?? _throw(ErrnoError.With('ENODATA', _old.dir, 'rename'));
 
 		if (!oldDirList[_old.base]) throw ErrnoError.With('ENOENT', oldPath, 'rename');
 
-		const ino: number = oldDirList[_old.base];
+		const entry = oldDirList[_old.base];
+		const ino = entry.ino;
+
+		// The entries of the old directory may not have been loaded yet
+		if (this.lazy && !this._ids.has(oldPath)) this._add(ino, oldPath);
 
 		if (ino != this._ids.get(oldPath)) err(`Ino mismatch while renaming ${oldPath} to ${newPath}`);
 
-		delete oldDirList[_old.base];
+		if (oldPath == newPath) return;
 
 		/* 
 			Can't move a folder inside itself.
@@ -260,24 +535,23 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		const sameParent = _new.dir == _old.dir;
 
-		// Prevent us from re-grabbing the same directory listing, which still contains `old_path.base.`
+		// Prevent us from re-grabbing the same directory listing
 		const newDirNode: Inode = sameParent ? oldDirNode : await this.findInode(tx, _new.dir, 'rename');
 		const newDirList: typeof oldDirList = sameParent
 			? oldDirList
-			: decodeDirListing((await tx.get(newDirNode.data)) ?? _throw(ErrnoError.With('ENODATA', _new.dir, 'rename')));
+			: ((await this.getListing(tx, newDirNode.data)) ?? _throw(ErrnoError.With('ENODATA', _new.dir, 'rename')));
 
 		if (newDirList[_new.base]) {
 			// If it's a file, delete it, if it's a directory, throw a permissions error.
-			const existing = new Inode((await tx.get(newDirList[_new.base])) ?? _throw(ErrnoError.With('ENOENT', newPath, 'rename')));
+			const existing = (await this.getInode(tx, newDirList[_new.base].ino)) ?? _throw(ErrnoError.With('ENOENT', newPath, 'rename'));
 			if (!existing.toStats().isFile()) throw ErrnoError.With('EPERM', newPath, 'rename');
 
 			await tx.remove(existing.data);
-			await tx.remove(newDirList[_new.base]);
+			await tx.remove(newDirList[_new.base].ino);
 		}
-		newDirList[_new.base] = ino;
 		// Commit the two changed directory listings.
-		await tx.set(oldDirNode.data, encodeDirListing(oldDirList));
-		await tx.set(newDirNode.data, encodeDirListing(newDirList));
+		await this.setEntry(tx, oldDirNode.data, oldDirList, _old.base);
+		await this.setEntry(tx, newDirNode.data, newDirList, _new.base, entry);
 		await tx.commit();
 		this._move(oldPath, newPath);
 	}
@@ -288,15 +562,19 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 			_new = parse(newPath),
 			// Remove oldPath from parent's directory listing.
 			oldDirNode = this.findInodeSync(tx, _old.dir, 'rename'),
-			oldDirList = decodeDirListing(tx.getSync(oldDirNode.data) ?? _throw(ErrnoError.With('ENODATA', _old.dir, 'rename')));
+			oldDirList = this.getListingSync(tx, oldDirNode.data) ?? _throw(ErrnoError.With('ENODATA', _old.dir, 'rename'));
 
 		if (!oldDirList[_old.base]) throw ErrnoError.With('ENOENT', oldPath, 'rename');
 
-		const ino: number = oldDirList[_old.base];
+		const entry = oldDirList[_old.base];
+		const ino = entry.ino;
+
+		// The entries of the old directory may not have been loaded yet
+		if (this.lazy && !this._ids.has(oldPath)) this._add(ino, oldPath);
 
 		if (ino != this._ids.get(oldPath)) err(`Ino mismatch while renaming ${oldPath} to ${newPath}`);
 
-		delete oldDirList[_old.base];
+		if (oldPath == newPath) return;
 
 		/* 
 			Can't move a folder inside itself.
@@ -308,25 +586,23 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		// Add newPath to parent's directory listing.
 		const sameParent = _new.dir === _old.dir;
 
-		// Prevent us from re-grabbing the same directory listing, which still contains `old_path.base.`
+		// Prevent us from re-grabbing the same directory listing
 		const newDirNode: Inode = sameParent ? oldDirNode : this.findInodeSync(tx, _new.dir, 'rename');
 		const newDirList: typeof oldDirList = sameParent
 			? oldDirList
-			: decodeDirListing(tx.getSync(newDirNode.data) ?? _throw(ErrnoError.With('ENODATA', _new.dir, 'rename')));
+			: (this.getListingSync(tx, newDirNode.data) ?? _throw(ErrnoError.With('ENODATA', _new.dir, 'rename')));
 
 		if (newDirList[_new.base]) {
 			// If it's a file, delete it, if it's a directory, throw a permissions error.
-			const existing = new Inode(tx.getSync(newDirList[_new.base]) ?? _throw(ErrnoError.With('ENOENT', newPath, 'rename')));
+			const existing = this.getInodeSync(tx, newDirList[_new.base].ino) ?? _throw(ErrnoError.With('ENOENT', newPath, 'rename'));
 			if (!existing.toStats().isFile()) throw ErrnoError.With('EPERM', newPath, 'rename');
 
 			tx.removeSync(existing.data);
-			tx.removeSync(newDirList[_new.base]);
+			tx.removeSync(newDirList[_new.base].ino);
 		}
-		newDirList[_new.base] = ino;
-
 		// Commit the two changed directory listings.
-		tx.setSync(oldDirNode.data, encodeDirListing(oldDirList));
-		tx.setSync(newDirNode.data, encodeDirListing(newDirList));
+		this.setEntrySync(tx, oldDirNode.data, oldDirList, _old.base);
+		this.setEntrySync(tx, newDirNode.data, newDirList, _new.base, entry);
 		tx.commitSync();
 		this._move(oldPath, newPath);
 	}
@@ -347,7 +623,7 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		if (inode.update(metadata)) {
 			this._add(inode.ino, path);
-			tx.setSync(inode.ino, serialize(inode));
+			tx.setSync(inode.ino, encodeInode(inode));
 		}
 
 		await tx.commit();
@@ -360,12 +636,42 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		if (inode.update(metadata)) {
 			this._add(inode.ino, path);
-			tx.setSync(inode.ino, serialize(inode));
+			tx.setSync(inode.ino, encodeInode(inode));
 		}
 
 		tx.commitSync();
 	}
 
+	public async getxattrs(path: string): Promise<Attributes> {
+		await using tx = this.transaction();
+		const inode = await this.findInode(tx, path, 'getxattrs');
+		return inode.attributes;
+	}
+
+	public getxattrsSync(path: string): Attributes {
+		using tx = this.transaction();
+		const inode = this.findInodeSync(tx, path, 'getxattrs');
+		return inode.attributes;
+	}
+
+	public async setxattrs(path: string, attributes: Attributes): Promise<void> {
+		await using tx = this.transaction();
+		const inode = await this.findInode(tx, path, 'setxattrs');
+		inode.attributes = { ...attributes };
+		_setTime(inode, 'ctime', nowNs());
+		await tx.set(inode.ino, encodeInode(inode));
+		await tx.commit();
+	}
+
+	public setxattrsSync(path: string, attributes: Attributes): void {
+		using tx = this.transaction();
+		const inode = this.findInodeSync(tx, path, 'setxattrs');
+		inode.attributes = { ...attributes };
+		_setTime(inode, 'ctime', nowNs());
+		tx.setSync(inode.ino, encodeInode(inode));
+		tx.commitSync();
+	}
+
 	public async createFile(path: string, flag: string, mode: number, options: CreationOptions): Promise<File> {
 		const node = await this.commitNew(path, { mode: mode | S_IFREG, ...options }, new Uint8Array(), 'createFile');
 		return new LazyFile(this, path, flag, node.toStats());
@@ -413,23 +719,37 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 	}
 
 	public async mkdir(path: string, mode: number, options: CreationOptions): Promise<void> {
-		await this.commitNew(path, { mode: mode | S_IFDIR, ...options }, encodeUTF8('{}'), 'mkdir');
+		await this.commitNew(path, { mode: mode | S_IFDIR, ...options }, encodeDirListing({}), 'mkdir');
 	}
 
 	public mkdirSync(path: string, mode: number, options: CreationOptions): void {
-		this.commitNewSync(path, { mode: mode | S_IFDIR, ...options }, encodeUTF8('{}'), 'mkdir');
+		this.commitNewSync(path, { mode: mode | S_IFDIR, ...options }, encodeDirListing({}), 'mkdir');
 	}
 
 	public async readdir(path: string): Promise<string[]> {
 		await using tx = this.transaction();
 		const node = await this.findInode(tx, path, 'readdir');
-		return Object.keys(decodeDirListing((await tx.get(node.data)) ?? _throw(ErrnoError.With('ENOENT', path, 'readdir'))));
+		return Object.keys((await this.getListing(tx, node.data)) ?? _throw(ErrnoError.With('ENOENT', path, 'readdir')));
 	}
 
 	public readdirSync(path: string): string[] {
 		using tx = this.transaction();
 		const node = this.findInodeSync(tx, path, 'readdir');
-		return Object.keys(decodeDirListing(tx.getSync(node.data) ?? _throw(ErrnoError.With('ENOENT', path, 'readdir'))));
+		return Object.keys(this.getListingSync(tx, node.data) ?? _throw(ErrnoError.With('ENOENT', path, 'readdir')));
+	}
+
+	public async readdirTypes(path: string): Promise<Map<string, number>> {
+		await using tx = this.transaction();
+		const node = await this.findInode(tx, path, 'readdir');
+		const listing = (await this.getListing(tx, node.data)) ?? _throw(ErrnoError.With('ENOENT', path, 'readdir'));
+		return new Map(Object.entries(listing).map(([name, { type }]) => [name, type]));
+	}
+
+	public readdirTypesSync(path: string): Map<string, number> {
+		using tx = this.transaction();
+		const node = this.findInodeSync(tx, path, 'readdir');
+		const listing = this.getListingSync(tx, node.data) ?? _throw(ErrnoError.With('ENOENT', path, 'readdir'));
+		return new Map(Object.entries(listing).map(([name, { type }]) => [name, type]));
 	}
 
 	/**
@@ -445,7 +765,7 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		if (inode.update(metadata)) {
 			this._add(inode.ino, path);
-			await tx.set(inode.ino, serialize(inode));
+			await tx.set(inode.ino, encodeInode(inode));
 		}
 
 		await tx.commit();
@@ -464,7 +784,7 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		if (inode.update(metadata)) {
 			this._add(inode.ino, path);
-			tx.setSync(inode.ino, serialize(inode));
+			tx.setSync(inode.ino, encodeInode(inode));
 		}
 
 		tx.commitSync();
@@ -475,16 +795,15 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		const newDir: string = dirname(link),
 			newDirNode = await this.findInode(tx, newDir, 'link'),
-			listing = decodeDirListing((await tx.get(newDirNode.data)) ?? _throw(ErrnoError.With('ENOENT', newDir, 'link')));
+			listing = (await this.getListing(tx, newDirNode.data)) ?? _throw(ErrnoError.With('ENOENT', newDir, 'link'));
 
 		const inode = await this.findInode(tx, target, 'link');
 
 		inode.nlink++;
-		listing[basename(link)] = inode.ino;
 
 		this._add(inode.ino, link);
-		await tx.set(inode.ino, serialize(inode));
-		await tx.set(newDirNode.data, encodeDirListing(listing));
+		await tx.set(inode.ino, encodeInode(inode));
+		await this.setEntry(tx, newDirNode.data, listing, basename(link), { ino: inode.ino, type: inode.mode & S_IFMT });
 		await tx.commit();
 	}
 
@@ -493,16 +812,15 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		const newDir: string = dirname(link),
 			newDirNode = this.findInodeSync(tx, newDir, 'link'),
-			listing = decodeDirListing(tx.getSync(newDirNode.data) ?? _throw(ErrnoError.With('ENOENT', newDir, 'link')));
+			listing = this.getListingSync(tx, newDirNode.data) ?? _throw(ErrnoError.With('ENOENT', newDir, 'link'));
 
 		const inode = this.findInodeSync(tx, target, 'link');
 
 		inode.nlink++;
-		listing[basename(link)] = inode.ino;
 
 		this._add(inode.ino, link);
-		tx.setSync(inode.ino, serialize(inode));
-		tx.setSync(newDirNode.data, encodeDirListing(listing));
+		tx.setSync(inode.ino, encodeInode(inode));
+		this.setEntrySync(tx, newDirNode.data, listing, basename(link), { ino: inode.ino, type: inode.mode & S_IFMT });
 		tx.commitSync();
 	}
 
@@ -535,18 +853,20 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		const inode = await this.findInode(tx, path, 'write');
 
+		const end = offset + data.byteLength;
+
 		let buffer = data;
 		if (!tx.flag('partial')) {
-			buffer = extendBuffer((await tx.get(inode.data)) ?? new Uint8Array(), offset + data.byteLength);
+			buffer = extendBuffer((await tx.get(inode.data)) ?? new Uint8Array(), end);
 			buffer.set(data, offset);
 			offset = 0;
 		}
 
 		await tx.set(inode.data, buffer, offset);
 
-		inode.update({ mtimeMs: Date.now(), size: Math.max(inode.size, data.byteLength + offset) });
+		inode.update({ mtimeNs: nowNs(), size: Math.max(inode.size, end) });
 		this._add(inode.ino, path);
-		await tx.set(inode.ino, serialize(inode));
+		await tx.set(inode.ino, encodeInode(inode));
 
 		await tx.commit();
 	}
@@ -556,18 +876,20 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		const inode = this.findInodeSync(tx, path, 'write');
 
+		const end = offset + data.byteLength;
+
 		let buffer = data;
 		if (!tx.flag('partial')) {
-			buffer = extendBuffer(tx.getSync(inode.data) ?? new Uint8Array(), offset + data.byteLength);
+			buffer = extendBuffer(tx.getSync(inode.data) ?? new Uint8Array(), end);
 			buffer.set(data, offset);
 			offset = 0;
 		}
 
 		tx.setSync(inode.data, buffer, offset);
 
-		inode.update({ mtimeMs: Date.now(), size: Math.max(inode.size, data.byteLength + offset) });
+		inode.update({ mtimeNs: nowNs(), size: Math.max(inode.size, end) });
 		this._add(inode.ino, path);
-		tx.setSync(inode.ino, serialize(inode));
+		tx.setSync(inode.ino, encodeInode(inode));
 
 		tx.commitSync();
 	}
@@ -588,10 +910,10 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		if (await tx.get(rootIno)) return;
 
 		const inode = new Inode({ ino: rootIno, data: 1, mode: 0o777 | S_IFDIR });
-		await tx.set(inode.data, encodeUTF8('{}'));
+		await tx.set(inode.data, encodeDirListing({}));
 
 		this._add(rootIno, '/');
-		await tx.set(rootIno, serialize(inode));
+		await tx.set(rootIno, encodeInode(inode));
 		await tx.commit();
 	}
 
@@ -603,38 +925,26 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		if (tx.getSync(rootIno)) return;
 
 		const inode = new Inode({ ino: rootIno, data: 1, mode: 0o777 | S_IFDIR });
-		tx.setSync(inode.data, encodeUTF8('{}'));
+		tx.setSync(inode.data, encodeDirListing({}));
 
 		this._add(rootIno, '/');
-		tx.setSync(rootIno, serialize(inode));
+		tx.setSync(rootIno, encodeInode(inode));
 		tx.commitSync();
 	}
 
 	/**
-	 * Populates the `_ids` and `_paths` maps with all existing files stored in the underlying `Store`.
+	 * Walks the store from the root directory, adding every file to the tables.
+	 * The IDs that are needed are yielded and the walk is resumed with their data,
+	 * so the same walk can be used synchronously and asynchronously.
+	 * @returns whether the store has a root inode
 	 */
-	private async _populate(): Promise<void> {
-		if (this._initialized) {
-			warn('Attempted to populate tables after initialization');
-			return;
-		}
-		debug('Populating tables with existing store metadata');
-		await using tx = this.transaction();
-
-		const rootData = await tx.get(rootIno);
-		if (!rootData) {
-			notice('Store does not have a root inode');
-			const inode = new Inode({ ino: rootIno, data: 1, mode: 0o777 | S_IFDIR });
-			await tx.set(inode.data, encodeUTF8('{}'));
-			this._add(rootIno, '/');
-			await tx.set(rootIno, serialize(inode));
-			await tx.commit();
-			return;
-		}
+	private *_populateWalk(): Generator<number, boolean, Uint8Array | undefined> {
+		const rootData = yield rootIno;
+		if (!rootData) return false;
 
-		if (rootData.length != sizeof(Inode)) {
+		if (rootData.length < sizeof(Inode)) {
 			crit('Store contains an invalid root inode. Refusing to populate tables');
-			return;
+			return true;
 		}
 
 		// Keep track of directories we have already traversed to avoid loops
@@ -652,13 +962,13 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 			this._add(ino, path);
 
 			// Get the inode data from the store
-			const inodeData = await tx.get(ino);
+			const inodeData = yield ino;
 			if (!inodeData) {
 				warn('Store is missing data for inode: ' + ino);
 				continue;
 			}
 
-			if (inodeData.length != sizeof(Inode)) {
+			if (inodeData.length < sizeof(Inode)) {
 				warn(`Invalid inode size for ino ${ino}: ${inodeData.length}`);
 				continue;
 			}
@@ -672,9 +982,10 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 			}
 
 			visitedDirectories.add(ino);
+			this._loaded.add(ino);
 
 			// Grab the directory listing from the store
-			const dirData = await tx.get(inode.data);
+			const dirData = yield inode.data;
 			if (!dirData) {
 				warn('Store is missing directory data: ' + inode.data);
 				continue;
@@ -687,41 +998,351 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		}
 
 		debug(`Added ${i} existing inode(s) from store`);
+		return true;
+	}
+
+	/**
+	 * Populates the `_ids` and `_paths` maps with all existing files stored in the underlying `Store`.
+	 */
+	private async _populate(): Promise<void> {
+		if (this._initialized) {
+			warn('Attempted to populate tables after initialization');
+			return;
+		}
+		debug('Populating tables with existing store metadata');
+		await using tx = this.transaction();
+
+		const walk = this._populateWalk();
+		let step = walk.next();
+		while (!step.done) step = walk.next(await tx.get(step.value));
+		if (step.value) return;
+
+		notice('Store does not have a root inode');
+		const inode = new Inode({ ino: rootIno, data: 1, mode: 0o777 | S_IFDIR });
+		await tx.set(inode.data, encodeDirListing({}));
+		this._add(rootIno, '/');
+		await tx.set(rootIno, encodeInode(inode));
+		await tx.commit();
+	}
+
+	/**
+	 * Populates the `_ids` and `_paths` maps with all existing files stored in the underlying `Store`.
+	 */
+	private _populateSync(): void {
+		if (this._initialized) {
+			warn('Attempted to populate tables after initialization');
+			return;
+		}
+		debug('Populating tables with existing store metadata');
+		using tx = this.transaction();
+
+		const walk = this._populateWalk();
+		let step = walk.next();
+		while (!step.done) step = walk.next(tx.getSync(step.value));
+		if (step.value) return;
+
+		notice('Store does not have a root inode');
+		const inode = new Inode({ ino: rootIno, data: 1, mode: 0o777 | S_IFDIR });
+		tx.setSync(inode.data, encodeDirListing({}));
+		this._add(rootIno, '/');
+		tx.setSync(rootIno, encodeInode(inode));
+		tx.commitSync();
+	}
+
+	/**
+	 * Prepares the `_ids` and `_paths` maps for use.
+	 * If the file system is lazy, only the last used ID is found.
+	 */
+	private async _prepare(): Promise<void> {
+		if (!this.lazy) return await this._populate();
+
+		await using tx = this.transaction();
+		let lastID = rootIno;
+		for (const id of await tx.keys()) lastID = Math.max(lastID, id);
+		this._lastID = lastID;
+		this._staleLastID = false;
+	}
+
+	/**
+	 * Prepares the `_ids` and `_paths` maps for use.
+	 * If the file system is lazy, nothing needs to be done since keys can't be listed synchronously.
+	 */
+	private _prepareSync(): void {
+		if (!this.lazy) this._populateSync();
+	}
+
+	/**
+	 * Adds the entries of the directory at `path` to the tables
+	 */
+	private async _load(tx: WrappedTransaction, ino: number, path: string): Promise<void> {
+		this._loaded.add(ino);
+
+		const inode = await this.getInode(tx, ino);
+		if (!inode || !(inode.mode & S_IFDIR)) return;
+
+		const listing = await this.getListing(tx, inode.data);
+		if (!listing) return;
+
+		for (const [name, { ino }] of Object.entries(listing)) this._add(ino, join(path, name));
+	}
+
+	/**
+	 * Adds the entries of the directory at `path` to the tables
+	 */
+	private _loadSync(tx: WrappedTransaction, ino: number, path: string): void {
+		this._loaded.add(ino);
+
+		const inode = this.getInodeSync(tx, ino);
+		if (!inode || !(inode.mode & S_IFDIR)) return;
+
+		const listing = this.getListingSync(tx, inode.data);
+		if (!listing) return;
+
+		for (const [name, { ino }] of Object.entries(listing)) this._add(ino, join(path, name));
+	}
+
+	/**
+	 * Resolves `path` by loading the entries of each directory in it.
+	 * @returns the ID of the inode at `path`, or undefined if it doesn't exist
+	 */
+	private async _lookup(tx: WrappedTransaction, path: string): Promise<number | undefined> {
+		let ino: number | undefined = rootIno,
+			current = '/';
+
+		for (const name of path.split('/')) {
+			if (!name) continue;
+			if (!this._loaded.has(ino)) await this._load(tx, ino, current);
+			current = join(current, name);
+			ino = this._ids.get(current);
+			if (ino === undefined) return;
+		}
+
+		return ino;
+	}
+
+	/**
+	 * Resolves `path` by loading the entries of each directory in it.
+	 * @returns the ID of the inode at `path`, or undefined if it doesn't exist
+	 */
+	private _lookupSync(tx: WrappedTransaction, path: string): number | undefined {
+		let ino: number | undefined = rootIno,
+			current = '/';
+
+		for (const name of path.split('/')) {
+			if (!name) continue;
+			if (!this._loaded.has(ino)) this._loadSync(tx, ino, current);
+			current = join(current, name);
+			ino = this._ids.get(current);
+			if (ino === undefined) return;
+		}
+
+		return ino;
+	}
+
+	/**
+	 * Discards the `_ids` and `_paths` maps and populates them again.
+	 * Stores call this when they are changed externally, for example by another thread.
+	 * @internal @hidden
+	 */
+	_invalidate(): void {
+		const initialized = this._initialized;
+		this._resetTables();
+		if (!initialized) return;
+		this._prepareSync();
+		this._initialized = true;
+	}
+
+	/**
+	 * Clears the `_ids` and `_paths` maps so they can be populated again
+	 */
+	private _resetTables(): void {
+		this._ids.clear();
+		this._paths.clear();
+		this._loaded.clear();
+		this._cache.clear();
+		this._add(rootIno, '/');
+		this._staleLastID = true;
+		this._initialized = false;
 	}
 
 	/**
 	 * Finds the Inode of `path`.
 	 * @param path The path to look up.
-	 * @todo memoize/cache
 	 */
 	protected async findInode(tx: WrappedTransaction, path: string, syscall: string): Promise<Inode> {
-		const ino = this._ids.get(path);
+		const ino = this._ids.get(path) ?? (this.lazy ? await this._lookup(tx, path) : undefined);
 		if (ino === undefined) throw ErrnoError.With('ENOENT', path, syscall);
-		return new Inode((await tx.get(ino)) ?? _throw(ErrnoError.With('ENOENT', path, syscall)));
+		return (await this.getInode(tx, ino)) ?? _throw(ErrnoError.With('ENOENT', path, syscall));
 	}
 
 	/**
 	 * Finds the Inode of `path`.
 	 * @param path The path to look up.
 	 * @return The Inode of the path p.
-	 * @todo memoize/cache
 	 */
 	protected findInodeSync(tx: WrappedTransaction, path: string, syscall: string): Inode {
-		const ino = this._ids.get(path);
+		const ino = this._ids.get(path) ?? (this.lazy ? this._lookupSync(tx, path) : undefined);
 		if (ino === undefined) throw ErrnoError.With('ENOENT', path, syscall);
-		return new Inode(tx.getSync(ino) ?? _throw(ErrnoError.With('ENOENT', path, syscall)));
+		return this.getInodeSync(tx, ino) ?? _throw(ErrnoError.With('ENOENT', path, syscall));
+	}
+
+	/**
+	 * Gets an inode, using the cache if possible.
+	 * A copy is returned so changes don't affect the cache until they are written.
+	 */
+	protected async getInode(tx: WrappedTransaction, ino: number): Promise<Inode | undefined> {
+		const cached = this._cache.get(ino);
+		if (cached instanceof Inode) return new Inode({ ...cached, attributes: { ...cached.attributes } });
+
+		const changes = this._changes;
+		const data = await tx.get(ino);
+		if (!data) return;
+		const inode = new Inode(data);
+		if (this._cacheable(ino, changes)) this._cache.set(ino, new Inode({ ...inode, attributes: { ...inode.attributes } }));
+		return inode;
+	}
+
+	/**
+	 * Gets an inode, using the cache if possible.
+	 * A copy is returned so changes don't affect the cache until they are written.
+	 */
+	protected getInodeSync(tx: WrappedTransaction, ino: number): Inode | undefined {
+		const cached = this._cache.get(ino);
+		if (cached instanceof Inode) return new Inode({ ...cached, attributes: { ...cached.attributes } });
+
+		const changes = this._changes;
+		const data = tx.getSync(ino);
+		if (!data) return;
+		const inode = new Inode(data);
+		if (this._cacheable(ino, changes)) this._cache.set(ino, new Inode({ ...inode, attributes: { ...inode.attributes } }));
+		return inode;
+	}
+
+	/**
+	 * Gets a directory listing, using the cache if possible.
+	 * The cached listing is returned, so it must only be changed with `setEntry`.
+	 */
+	protected async getListing(tx: WrappedTransaction, id: number): Promise<Readonly<Record<string, DirEntry>> | undefined> {
+		const cached = this._cache.get(id);
+		if (cached && !(cached instanceof Inode)) return cached;
+
+		const changes = this._changes;
+		const data = await tx.get(id);
+		if (!data) return;
+		const listing = decodeDirEntries(data);
+		this._listingData.set(listing, data);
+		if (this._cacheable(id, changes)) this._cache.set(id, listing);
+		return listing;
+	}
+
+	/**
+	 * Gets a directory listing, using the cache if possible.
+	 * The cached listing is returned, so it must only be changed with `setEntry`.
+	 */
+	protected getListingSync(tx: WrappedTransaction, id: number): Readonly<Record<string, DirEntry>> | undefined {
+		const cached = this._cache.get(id);
+		if (cached && !(cached instanceof Inode)) return cached;
+
+		const changes = this._changes;
+		const data = tx.getSync(id);
+		if (!data) return;
+		const listing = decodeDirEntries(data);
+		this._listingData.set(listing, data);
+		if (this._cacheable(id, changes)) this._cache.set(id, listing);
+		return listing;
+	}
+
+	/**
+	 * Adds, replaces, or removes (if `entry` is undefined) a single entry in the directory listing `id`,
+	 * without decoding and encoding the rest of the listing.
+	 * `listing` is updated and cached once the transaction is committed.
+	 */
+	protected async setEntry(
+		tx: WrappedTransaction,
+		id: number,
+		listing: Readonly<Record<string, DirEntry>>,
+		name: string,
+		entry?: DirEntry
+	): Promise<void> {
+		const data = (await tx.get(id)) ?? encodeDirListing(listing);
+		await tx.set(id, this._updateEntry(tx, id, listing, data, name, entry));
+	}
+
+	/**
+	 * Adds, replaces, or removes (if `entry` is undefined) a single entry in the directory listing `id`,
+	 * without decoding and encoding the rest of the listing.
+	 * `listing` is updated and cached once the transaction is committed.
+	 */
+	protected setEntrySync(tx: WrappedTransaction, id: number, listing: Readonly<Record<string, DirEntry>>, name: string, entry?: DirEntry): void {
+		const data = tx.getSync(id) ?? encodeDirListing(listing);
+		tx.setSync(id, this._updateEntry(tx, id, listing, data, name, entry));
+	}
+
+	/**
+	 * Updates the encoded listing `data`.
+	 * If `listing` is up to date with `data`, it is changed and cached once `tx` is committed.
+	 */
+	private _updateEntry(
+		tx: WrappedTransaction,
+		id: number,
+		listing: Record<string, DirEntry>,
+		data: Uint8Array,
+		name: string,
+		entry?: DirEntry
+	): Uint8Array {
+		const updated = updateDirListing(data, name, entry);
+
+		const current = this._listingData.get(listing);
+		if (!current || (current !== data && !equal(current, data))) {
+			// Another transaction changed the listing
+			this._listingData.delete(listing);
+			return updated;
+		}
+
+		this._listingData.set(listing, updated);
+		tx.onCommit(() => {
+			if (entry) listing[name] = entry;
+			else delete listing[name];
+			if (!this._uncommitted.has(id)) this._cache.set(id, listing);
+		});
+		return updated;
 	}
 
 	private _lastID?: number;
 
+	/**
+	 * Whether the tables were reset since `_lastID` was found
+	 */
+	private _staleLastID: boolean = false;
+
+	/**
+	 * Finds the largest ID that is in use.
+	 * Keys that are not reachable from the root (e.g. orphaned inodes) are only found if the store can list its keys synchronously,
+	 * so IDs that were already allocated are never reused.
+	 */
+	private _findLastID(): number {
+		let lastID = this._lastID ?? rootIno;
+
+		using tx = this.transaction();
+		const keys = tx.keysSync() ?? (this.lazy ? this._reachableSync(tx) : this._paths.keys());
+		for (const id of keys) lastID = Math.max(lastID, id);
+		return lastID;
+	}
+
 	/**
 	 * Allocates a new ID and adds the ID/path
 	 */
 	protected allocNew(path: string, syscall: string): number {
-		this._lastID ??= Math.max(...this._paths.keys());
+		if (this._lastID === undefined || this._staleLastID) {
+			this._lastID = this._findLastID();
+			this._staleLastID = false;
+		}
 		this._lastID += 2;
+		// Older versions of the WAL used the largest 32-bit ID, so it is never used for an inode or its data
+		if (this._lastID == legacyWalKey || this._lastID + 1 == legacyWalKey) this._lastID += 2;
 		const id = this._lastID;
-		if (id > size_max) throw err(new ErrnoError(Errno.ENOSPC, 'No IDs available', path, syscall), { fs: this });
+		// The largest ID is used by the WAL
+		if (id + 1 >= walKey) throw err(new ErrnoError(Errno.ENOSPC, 'No IDs available', path, syscall), { fs: this });
 		this._add(id, path);
 		return id;
 	}
@@ -745,7 +1366,7 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		const { dir: parentPath, base: fname } = parse(path);
 		const parent = await this.findInode(tx, parentPath, syscall);
-		const listing = decodeDirListing((await tx.get(parent.data)) ?? _throw(ErrnoError.With('ENOENT', parentPath, syscall)));
+		const listing = (await this.getListing(tx, parent.data)) ?? _throw(ErrnoError.With('ENOENT', parentPath, syscall));
 
 		// Check if file already exists.
 		if (listing[fname]) throw ErrnoError.With('EEXIST', path, syscall);
@@ -762,12 +1383,11 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 			gid: parent.mode & S_ISGID ? parent.gid : options.gid,
 		});
 
-		await tx.set(inode.ino, serialize(inode));
+		await tx.set(inode.ino, encodeInode(inode));
 		await tx.set(inode.data, data);
 
 		// Update and commit parent directory listing.
-		listing[fname] = inode.ino;
-		await tx.set(parent.data, encodeDirListing(listing));
+		await this.setEntry(tx, parent.data, listing, fname, { ino: inode.ino, type: inode.mode & S_IFMT });
 		await tx.commit();
 		return inode;
 	}
@@ -793,7 +1413,7 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		const { dir: parentPath, base: fname } = parse(path);
 		const parent = this.findInodeSync(tx, parentPath, syscall);
 
-		const listing = decodeDirListing(tx.getSync(parent.data) ?? _throw(ErrnoError.With('ENOENT', parentPath, syscall)));
+		const listing = this.getListingSync(tx, parent.data) ?? _throw(ErrnoError.With('ENOENT', parentPath, syscall));
 
 		// Check if file already exists.
 		if (listing[fname]) throw ErrnoError.With('EEXIST', path, syscall);
@@ -811,10 +1431,9 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		});
 
 		// Update and commit parent directory listing.
-		tx.setSync(inode.ino, serialize(inode));
+		tx.setSync(inode.ino, encodeInode(inode));
 		tx.setSync(inode.data, data);
-		listing[fname] = inode.ino;
-		tx.setSync(parent.data, encodeDirListing(listing));
+		this.setEntrySync(tx, parent.data, listing, fname, { ino: inode.ino, type: inode.mode & S_IFMT });
 		tx.commitSync();
 		return inode;
 	}
@@ -831,23 +1450,21 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 
 		const { dir: parent, base: fileName } = parse(path),
 			parentNode = await this.findInode(tx, parent, syscall),
-			listing = decodeDirListing((await tx.get(parentNode.data)) ?? _throw(ErrnoError.With('ENOENT', parent, syscall)));
+			listing = (await this.getListing(tx, parentNode.data)) ?? _throw(ErrnoError.With('ENOENT', parent, syscall));
 
 		if (!listing[fileName]) {
 			throw ErrnoError.With('ENOENT', path, syscall);
 		}
 
-		const fileIno = listing[fileName];
+		const fileIno = listing[fileName].ino;
 
 		// Get file inode.
-		const fileNode = new Inode((await tx.get(fileIno)) ?? _throw(ErrnoError.With('ENOENT', path, syscall)));
-
-		// Remove from directory listing of parent.
-		delete listing[fileName];
+		const fileNode = (await this.getInode(tx, fileIno)) ?? _throw(ErrnoError.With('ENOENT', path, syscall));
 
 		if (!isDir && fileNode.toStats().isDirectory()) throw ErrnoError.With('EISDIR', path, syscall);
 
-		await tx.set(parentNode.data, encodeDirListing(listing));
+		// Remove from directory listing of parent.
+		await this.setEntry(tx, parentNode.data, listing, fileName);
 
 		if (--fileNode.nlink < 1) {
 			// remove file
@@ -871,23 +1488,20 @@ export class StoreFS<T extends Store = Store> extends FileSystem {
 		using tx = this.transaction();
 		const { dir: parent, base: fileName } = parse(path),
 			parentNode = this.findInodeSync(tx, parent, syscall),
-			listing = decodeDirListing(tx.getSync(parentNode.data) ?? _throw(ErrnoError.With('ENOENT', parent, syscall))),
-			fileIno: number = listing[fileName];
+			listing = this.getListingSync(tx, parentNode.data) ?? _throw(ErrnoError.With('ENOENT', parent, syscall)),
+			fileIno: number = listing[fileName]?.ino;
 
 		if (!fileIno) throw ErrnoError.With('ENOENT', path, syscall);
 
 		// Get file inode.
-		const fileNode = new Inode(tx.getSync(fileIno) ?? _throw(ErrnoError.With('ENOENT', path, syscall)));
-
-		// Remove from directory listing of parent.
-		delete listing[fileName];
+		const fileNode = this.getInodeSync(tx, fileIno) ?? _throw(ErrnoError.With('ENOENT', path, syscall));
 
 		if (!isDir && fileNode.toStats().isDirectory()) {
 			throw ErrnoError.With('EISDIR', path, syscall);
 		}
 
-		// Update directory listing.
-		tx.setSync(parentNode.data, encodeDirListing(listing));
+		// Remove from directory listing of parent.
+		this.setEntrySync(tx, parentNode.data, listing, fileName);
 
 		if (--fileNode.nlink < 1) {
 			// remove file
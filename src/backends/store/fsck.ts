@@ -0,0 +1,367 @@
+import type { Store, Transaction } from './store.js';
+
+import { deserialize, sizeof } from 'utilium';
+import { _inode_version, encodeInode, Inode, isDirectory, rootIno } from '../../internal/inode.js';
+import { debug, notice, warn } from '../../internal/log.js';
+import type { DirEntry } from '../../utils.js';
+import { decodeDirEntries, decodeDirListing, decodeUTF8, encodeDirListing } from '../../utils.js';
+import { S_IFDIR, S_IFMT } from '../../vfs/constants.js';
+import { join } from '../../vfs/path.js';
+import { legacyWalKey, walKey } from './wal.js';
+
+/**
+ * Options for `fsck`
+ * @category Stores and Transactions
+ */
+export interface FsckOptions {
+	/**
+	 * Whether to repair the problems that are found.
+	 * If false, the store is not modified.
+	 */
+	repair?: boolean;
+
+	/**
+	 * Whether orphaned inodes are moved to `/lost+found` when repairing.
+	 * If false, they are removed instead.
+	 * @default true
+	 */
+	lostAndFound?: boolean;
+}
+
+/**
+ * The kinds of problems `fsck` can find
+ * @category Stores and Transactions
+ */
+export type FsckIssueType =
+	/** An inode has an invalid size or its ID doesn't match its key */
+	| 'invalid-inode'
+	/** An inode uses an older format */
+	| 'outdated-inode'
+	/** An inode's `attributes_size` doesn't match the stored attributes, or the attributes can't be decoded */
+	| 'invalid-attributes'
+	/** The data for an inode is missing */
+	| 'missing-data'
+	/** A directory listing can't be decoded */
+	| 'invalid-listing'
+	/** A directory listing references an inode that doesn't exist or is invalid */
+	| 'dangling-entry'
+	/** An inode's `nlink` doesn't match the number of directory entries for it */
+	| 'nlink'
+	/** An inode isn't in any directory */
+	| 'orphaned-inode'
+	/** Data isn't used by any inode */
+	| 'orphaned-data';
+
+/**
+ * A problem found by `fsck`
+ * @category Stores and Transactions
+ */
+export interface FsckIssue {
+	type: FsckIssueType;
+
+	/** The ID of the affected inode or data */
+	id: number;
+
+	/** The path of the affected file, if known */
+	path?: string;
+
+	message: string;
+
+	/**
+	 * Whether the problem was repaired.
+	 * Invalid inodes can't be repaired, though entries referencing them and their data are still removed.
+	 */
+	repaired: boolean;
+}
+
+/**
+ * The results of `fsck`
+ * @category Stores and Transactions
+ */
+export interface FsckResult {
+	issues: FsckIssue[];
+
+	/** The number of inodes reachable from the root */
+	inodes: number;
+}
+
+/**
+ * Sizes of older inode formats
+ * @see _inode_version
+ */
+const outdatedSizes = [58, 66, 72];
+
+/**
+ * Checks the consistency of a store used by `StoreFS`, and optionally repairs it.
+ *
+ * This checks that:
+ * - Inodes have a valid size and format, and their attributes match `attributes_size`
+ * - Directory listings can be decoded and only reference existing inodes
+ * - Every inode has data, and `nlink` matches the number of directory entries for it
+ * - Every key is used by an inode reachable from the root
+ *
+ * The store should not be in use while this runs.
+ * @category Stores and Transactions
+ */
+export async function fsck(store: Store, options: FsckOptions = {}): Promise<FsckResult> {
+	const { repair = false, lostAndFound = true } = options;
+
+	const tx: Transaction = store.transaction();
+	let committed = false;
+
+	try {
+		const keys = new Set(await tx.keys());
+		keys.delete(walKey);
+		keys.delete(legacyWalKey);
+
+		let lastID = 0;
+		for (const id of keys) lastID = Math.max(lastID, id);
+
+		const issues: FsckIssue[] = [];
+
+		function report(type: FsckIssueType, id: number, message: string, path?: string, repaired: boolean = repair): void {
+			issues.push({ type, id, path, message, repaired });
+			(repaired ? notice : warn)('fsck: ' + message + (path ? ` (${path})` : ''));
+		}
+
+		async function set(id: number, data: Uint8Array): Promise<void> {
+			if (!repair) return;
+			await tx.set(id, data, 0);
+			keys.add(id);
+		}
+
+		async function remove(id: number): Promise<void> {
+			if (!repair) return;
+			await tx.remove(id);
+			keys.delete(id);
+		}
+
+		/**
+		 * Reads and validates the inode stored at `id`.
+		 * @returns the inode, or undefined if it is missing or invalid
+		 */
+		async function readInode(id: number, path?: string): Promise<Inode | undefined> {
+			const data = await tx.get(id, 0);
+			if (!data) return;
+
+			if (outdatedSizes.includes(data.byteLength)) {
+				report('outdated-inode', id, `Inode ${id} uses an outdated format (${data.byteLength} bytes)`, path);
+				const inode = new Inode(data);
+				inode.ino = id;
+				await set(id, encodeInode(inode));
+				return inode;
+			}
+
+			if (data.byteLength < sizeof(Inode)) {
+				report('invalid-inode', id, `Inode ${id} has an invalid size (${data.byteLength} bytes)`, path, false);
+				return;
+			}
+
+			const inode = new Inode();
+			deserialize(inode, data);
+			const version = inode.version;
+
+			try {
+				inode._upgrade();
+			} catch {
+				report('invalid-inode', id, `Inode ${id} has values that are too large`, path, false);
+				return;
+			}
+
+			if (inode.ino != id) {
+				report('invalid-inode', id, `Inode ${id} has a mismatched ID (${inode.ino})`, path, false);
+				return;
+			}
+
+			const rawAttributes = data.subarray(sizeof(Inode));
+			try {
+				if (rawAttributes.byteLength) inode.attributes = JSON.parse(decodeUTF8(rawAttributes));
+				if (rawAttributes.byteLength != inode.attributes_size) {
+					report(
+						'invalid-attributes',
+						id,
+						`Inode ${id} has ${rawAttributes.byteLength} bytes of attributes but attributes_size is ${inode.attributes_size}`,
+						path
+					);
+				} else if (version < _inode_version) {
+					report('outdated-inode', id, `Inode ${id} uses an outdated format (version ${version || 4})`, path);
+				} else return inode;
+			} catch {
+				report('invalid-attributes', id, `Inode ${id} has attributes that can not be decoded`, path);
+				inode.attributes = {};
+			}
+
+			await set(id, encodeInode(inode));
+			return inode;
+		}
+
+		/**
+		 * Checks everything reachable from the root.
+		 * @returns the inodes that were found
+		 */
+		async function walk(): Promise<Map<number, Inode>> {
+			const inodes = new Map<number, Inode>();
+
+			let root = await readInode(rootIno, '/');
+			if (!root) {
+				if (!keys.has(rootIno)) report('invalid-inode', rootIno, 'Root inode is missing', '/');
+				if (!repair) return inodes;
+				root = new Inode({ ino: rootIno, data: ++lastID, mode: 0o777 | S_IFDIR });
+				await set(root.data, encodeDirListing({}));
+				await set(rootIno, encodeInode(root));
+				// An invalid root inode is repaired by replacing it
+				for (const issue of issues) if (issue.id == rootIno) issue.repaired = true;
+			}
+
+			inodes.set(rootIno, root);
+			const links = new Map<number, number>([[rootIno, 1]]);
+			const queue: [path: string, inode: Inode][] = [['/', root]];
+
+			while (queue.length) {
+				const [path, inode] = queue.shift()!;
+
+				if (!keys.has(inode.data)) {
+					report('missing-data', inode.ino, `Data for inode ${inode.ino} is missing`, path);
+					if (!isDirectory(inode)) {
+						inode.size = 0;
+						await set(inode.ino, encodeInode(inode));
+					}
+					await set(inode.data, isDirectory(inode) ? encodeDirListing({}) : new Uint8Array());
+					continue;
+				}
+
+				if (!isDirectory(inode)) continue;
+
+				let listing: Record<string, DirEntry>;
+				try {
+					listing = decodeDirEntries((await tx.get(inode.data, 0))!);
+				} catch {
+					report('invalid-listing', inode.ino, `Directory listing for inode ${inode.ino} can not be decoded`, path);
+					await set(inode.data, encodeDirListing({}));
+					continue;
+				}
+
+				let changed = false;
+
+				for (const [name, { ino }] of Object.entries(listing)) {
+					const childPath = join(path, name);
+
+					if (!inodes.has(ino)) {
+						const child = await readInode(ino, childPath);
+						if (!child) {
+							report(
+								'dangling-entry',
+								ino,
+								`Directory entry references ${keys.has(ino) ? 'an invalid' : 'a missing'} inode (${ino})`,
+								childPath
+							);
+							delete listing[name];
+							changed = true;
+							continue;
+						}
+						inodes.set(ino, child);
+						queue.push([childPath, child]);
+					}
+
+					links.set(ino, (links.get(ino) ?? 0) + 1);
+				}
+
+				if (changed) await set(inode.data, encodeDirListing(listing));
+			}
+
+			for (const [ino, inode] of inodes) {
+				const nlink = links.get(ino) ?? 0;
+				if (inode.nlink == nlink) continue;
+				report('nlink', ino, `Inode ${ino} has nlink ${inode.nlink} but ${nlink} directory entries`);
+				inode.nlink = nlink;
+				await set(ino, encodeInode(inode));
+			}
+
+			return inodes;
+		}
+
+		let inodes = await walk();
+
+		const used = new Set<number>();
+		for (const inode of inodes.values()) used.add(inode.ino).add(inode.data);
+
+		// Anything left is either an orphaned inode, data for an orphaned inode, or orphaned data
+		const orphans = new Map<number, Inode>();
+		for (const id of keys) {
+			if (used.has(id)) continue;
+			const data = (await tx.get(id, 0))!;
+			if (data.byteLength < sizeof(Inode)) continue;
+			const inode = new Inode();
+			deserialize(inode, data);
+			try {
+				inode._upgrade();
+			} catch {
+				continue;
+			}
+			if (inode.ino == id && data.byteLength == sizeof(Inode) + inode.attributes_size) orphans.set(id, inode);
+		}
+
+		// Orphans in orphaned directories are moved along with their directory
+		const contained = new Set<number>();
+		for (const inode of orphans.values()) {
+			if (!isDirectory(inode) || !keys.has(inode.data)) continue;
+			try {
+				for (const ino of Object.values(decodeDirListing((await tx.get(inode.data, 0))!))) contained.add(ino);
+			} catch {
+				// The listing will be reported if the directory is moved to lost+found
+			}
+		}
+
+		const topLevel: Inode[] = [];
+		for (const inode of orphans.values()) {
+			if (contained.has(inode.ino)) continue;
+			topLevel.push(inode);
+			report('orphaned-inode', inode.ino, `Inode ${inode.ino} is not in any directory`);
+		}
+
+		if (repair && topLevel.length && lostAndFound && inodes.has(rootIno)) {
+			const root = inodes.get(rootIno)!;
+			const rootListing = decodeDirEntries((await tx.get(root.data, 0))!);
+
+			let lostFound = 'lost+found' in rootListing ? inodes.get(rootListing['lost+found'].ino) : undefined;
+			if (!lostFound || !isDirectory(lostFound)) {
+				lostFound = new Inode({ ino: ++lastID, data: ++lastID, mode: 0o700 | S_IFDIR, nlink: 1 });
+				await set(lostFound.data, encodeDirListing({}));
+				await set(lostFound.ino, encodeInode(lostFound));
+				// Don't replace a file that happens to be called lost+found
+				rootListing['lost+found' in rootListing ? 'lost+found.' + lostFound.ino : 'lost+found'] = { ino: lostFound.ino, type: S_IFDIR };
+				await set(root.data, encodeDirListing(rootListing));
+			}
+
+			const listing = decodeDirEntries((await tx.get(lostFound.data, 0))!);
+			for (const inode of topLevel) listing['#' + inode.ino] = { ino: inode.ino, type: inode.mode & S_IFMT };
+			await set(lostFound.data, encodeDirListing(listing));
+
+			debug(`fsck: Moved ${topLevel.length} orphaned inode(s) to lost+found`);
+
+			// Check the moved inodes, and fix their nlink
+			inodes = await walk();
+			for (const inode of inodes.values()) used.add(inode.ino).add(inode.data);
+		}
+
+		// Data for orphaned inodes is not reported separately
+		const orphanedData = new Set<number>();
+		for (const inode of orphans.values()) orphanedData.add(inode.data);
+
+		for (const id of keys) {
+			if (used.has(id)) continue;
+			if (!orphans.has(id) && !orphanedData.has(id)) report('orphaned-data', id, `Data ${id} is not used by any inode`);
+			await remove(id);
+		}
+
+		if (repair) {
+			await tx.commit();
+			committed = true;
+		}
+
+		return { issues, inodes: inodes.size };
+	} finally {
+		// Nothing is changed unless repairing, and a failed repair shouldn't leave partial changes
+		if (!committed) await tx.abort();
+	}
+}
@@ -26,6 +26,10 @@ export class SyncMapTransaction extends SyncTransaction<SyncMapStore> {
 		return this.store.keys();
 	}
 
+	public keysSync(): Iterable<number> {
+		return this.store.keys();
+	}
+
 	public async get(id: number): Promise<Uint8Array | undefined> {
 		return await (this.store.getAsync?.(id) ?? this.store.get(id));
 	}
@@ -68,12 +68,44 @@ export interface Store {
 	 */
 	usage?(): UsageInfo;
 
+	/**
+	 * Natively creates a point-in-time image of every key in the store.
+	 * If not implemented, `StoreFS` will create snapshots using a transaction.
+	 */
+	snapshot?(): StoreSnapshot;
+
+	/**
+	 * Recovers the store from an interrupted state (e.g. replaying a write-ahead log).
+	 * This is called by `StoreFS` before the file system is used.
+	 */
+	recover?(): Promise<void>;
+
+	/**
+	 * Waits until something else, like another thread, changes the store.
+	 * This is used by `StoreFS` to watch for changes.
+	 * @param timeout The maximum time to wait, in milliseconds
+	 * @returns whether the store was changed
+	 */
+	waitForChange?(timeout?: number): Promise<boolean>;
+
+	/**
+	 * Incremented whenever the store is changed, including by this thread.
+	 * `StoreFS` uses this to avoid re-indexing while watching if nothing has changed.
+	 */
+	readonly generation?: number;
+
 	/**
 	 * @internal @hidden
 	 */
 	_fs?: StoreFS;
 }
 
+/**
+ * A point-in-time image of every key in a store
+ * @category Stores and Transactions
+ */
+export type StoreSnapshot = ReadonlyMap<number, Uint8Array>;
+
 /**
  * A transaction for a store.
  * @category Stores and Transactions
@@ -86,6 +118,14 @@ export abstract class Transaction<T extends Store = Store> {
 	 */
 	public abstract keys(): Promise<Iterable<number>>;
 
+	/**
+	 * Gets all of the keys, if the store can list them synchronously.
+	 * By default this returns undefined.
+	 */
+	public keysSync(): Iterable<number> | undefined {
+		return;
+	}
+
 	/**
 	 * Retrieves data.
 	 * @param id The key to look under for data.
@@ -125,6 +165,34 @@ export abstract class Transaction<T extends Store = Store> {
 	 * @param id The key to delete from the store.
 	 */
 	public abstract removeSync(id: number): void;
+
+	/**
+	 * Commits the transaction.
+	 * Most transactions apply changes immediately, so by default this does nothing.
+	 */
+	public commit(): Promise<void> {
+		return Promise.resolve();
+	}
+
+	/**
+	 * Commits the transaction.
+	 * Most transactions apply changes immediately, so by default this does nothing.
+	 */
+	public commitSync(): void {}
+
+	/**
+	 * Discards any changes that have not been applied.
+	 * By default this does nothing.
+	 */
+	public abort(): Promise<void> {
+		return Promise.resolve();
+	}
+
+	/**
+	 * Discards any changes that have not been applied.
+	 * By default this does nothing.
+	 */
+	public abortSync(): void {}
 }
 
 /**
@@ -251,10 +319,26 @@ export class WrappedTransaction<T extends Store = Store> {
 	 */
 	protected modifiedKeys: Set<number> = new Set();
 
+	/**
+	 * Functions to call once the transaction is committed
+	 */
+	protected committed: (() => void)[] = [];
+
+	/**
+	 * Calls `callback` once the transaction is committed, e.g. to cache the committed state.
+	 */
+	public onCommit(callback: () => void): void {
+		this.committed.push(callback);
+	}
+
 	public keys(): Promise<Iterable<number>> {
 		return this.raw.keys();
 	}
 
+	public keysSync(): Iterable<number> | undefined {
+		return this.raw.keysSync();
+	}
+
 	public async get(id: number, offset: number = 0, end?: number): Promise<Uint8Array | undefined> {
 		const data = await this.raw.get(id, offset, end);
 		this.stash(id);
@@ -270,30 +354,39 @@ export class WrappedTransaction<T extends Store = Store> {
 	public async set(id: number, data: Uint8Array, offset: number = 0): Promise<void> {
 		await this.markModified(id, offset, data.byteLength);
 		await this.raw.set(id, data, offset);
+		this.fs._cache.delete(id);
 	}
 
 	public setSync(id: number, data: Uint8Array, offset: number = 0): void {
 		this.markModifiedSync(id, offset, data.byteLength);
 		this.raw.setSync(id, data, offset);
+		this.fs._cache.delete(id);
 	}
 
 	public async remove(id: number): Promise<void> {
 		await this.markModified(id, 0, undefined);
 		await this.raw.remove(id);
+		this.fs._cache.delete(id);
 	}
 
 	public removeSync(id: number): void {
 		this.markModifiedSync(id, 0, undefined);
 		this.raw.removeSync(id);
+		this.fs._cache.delete(id);
 	}
 
-	public commit(): Promise<void> {
+	public async commit(): Promise<void> {
+		await this.raw.commit();
 		this.done = true;
-		return Promise.resolve();
+		this.invalidate();
+		for (const callback of this.committed) callback();
 	}
 
 	public commitSync(): void {
+		this.raw.commitSync();
 		this.done = true;
+		this.invalidate();
+		for (const callback of this.committed) callback();
 	}
 
 	public async abort(): Promise<void> {
@@ -313,7 +406,9 @@ export class WrappedTransaction<T extends Store = Store> {
 				await this.raw.set(id, entry.data!, entry.offset);
 			}
 		}
+		await this.raw.abort();
 		this.done = true;
+		this.invalidate();
 	}
 
 	public abortSync(): void {
@@ -333,7 +428,33 @@ export class WrappedTransaction<T extends Store = Store> {
 				this.raw.setSync(id, entry.data!, entry.offset);
 			}
 		}
+		this.raw.abortSync();
 		this.done = true;
+		this.invalidate();
+	}
+
+	/**
+	 * Removes the keys modified by this transaction from the file system's cache,
+	 * since values read during the transaction may not have been committed.
+	 */
+	protected invalidate(): void {
+		for (const id of this.modifiedKeys) {
+			this.fs._cache.delete(id);
+			const count = this.fs._uncommitted.get(id)! - 1;
+			if (count) this.fs._uncommitted.set(id, count);
+			else this.fs._uncommitted.delete(id);
+		}
+		this.modifiedKeys.clear();
+	}
+
+	/**
+	 * Marks `id` as changed by this transaction, so the file system doesn't cache it until the transaction is done.
+	 */
+	private _change(id: number): void {
+		this.fs._changes++;
+		if (this.modifiedKeys.has(id)) return;
+		this.modifiedKeys.add(id);
+		this.fs._uncommitted.set(id, (this.fs._uncommitted.get(id) ?? 0) + 1);
 	}
 
 	public async [Symbol.asyncDispose]() {
@@ -363,7 +484,7 @@ export class WrappedTransaction<T extends Store = Store> {
 	 * Marks an id as modified, and stashes its value if it has not been stashed already.
 	 */
 	protected async markModified(id: number, offset: number, length?: number): Promise<void> {
-		this.modifiedKeys.add(id);
+		this._change(id);
 		const end = length ? offset + length : undefined;
 		try {
 			this.stash(id, await this.raw.get(id, offset, end), offset);
@@ -390,7 +511,7 @@ export class WrappedTransaction<T extends Store = Store> {
 	 * Marks an id as modified, and stashes its value if it has not been stashed already.
 	 */
 	protected markModifiedSync(id: number, offset: number, length?: number): void {
-		this.modifiedKeys.add(id);
+		this._change(id);
 		const end = length ? offset + length : undefined;
 
 		try {
@@ -0,0 +1,404 @@
+import type { UsageInfo } from '../../internal/filesystem.js';
+import type { StoreFS } from './fs.js';
+
+import { crc32c } from 'utilium/checksum.js';
+import { Errno, ErrnoError } from '../../internal/error.js';
+import { inode_max } from '../../internal/inode.js';
+import { crit, debug, notice, warn } from '../../internal/log.js';
+import { size_max } from '../../vfs/constants.js';
+import { Transaction, type Store } from './store.js';
+
+/**
+ * The key used to store the intent record in the underlying store.
+ * This is the largest ID, which is never allocated to an inode or its data.
+ * @internal @hidden
+ */
+export const walKey = inode_max;
+
+/**
+ * The key used for intent records before IDs were 64-bit
+ * @internal @hidden
+ */
+export const legacyWalKey = size_max;
+
+/**
+ * Identifies intent records from before they had a version, which use 32-bit IDs
+ */
+const legacyMagic = 0x7a2e776c; // 'z.wl'
+
+const walMagic = 0x7a2e7769; // 'z.wi'
+
+/**
+ * The version of the intent record format.
+ * Versions:
+ * 0. (`legacyMagic`) No version field and 32-bit IDs
+ * 1. (current) 64-bit IDs
+ */
+const walVersion = 1;
+
+const enum WALOp {
+	Set = 0,
+	Remove = 1,
+}
+
+/**
+ * Changes that have been made in a transaction but not applied to the underlying store.
+ * An `undefined` value means the key was removed.
+ */
+type PendingChanges = Map<number, Uint8Array | undefined>;
+
+/**
+ * The layout of each version of the intent record format.
+ * The header is the magic number, version (if any), checksum, and number of entries.
+ * Each entry has a header with the ID, op (1), and data length (4), followed by the data.
+ */
+const layouts = [
+	{ magic: legacyMagic, checksum: 4, count: 8, header: 12, id: 4 },
+	{ magic: walMagic, checksum: 8, count: 12, header: 16, id: 8 },
+] as const;
+
+/**
+ * Serializes pending changes into an intent record
+ * @internal @hidden
+ */
+export function encodeIntent(changes: PendingChanges): Uint8Array {
+	const layout = layouts[walVersion];
+	const entryHeaderSize = layout.id + 5;
+
+	let size = layout.header;
+	for (const data of changes.values()) size += entryHeaderSize + (data?.byteLength ?? 0);
+
+	const buffer = new Uint8Array(size);
+	const view = new DataView(buffer.buffer);
+
+	view.setUint32(0, walMagic, true);
+	view.setUint32(4, walVersion, true);
+	view.setUint32(layout.count, changes.size, true);
+
+	let offset = layout.header;
+	for (const [id, data] of changes) {
+		view.setBigUint64(offset, BigInt(id), true);
+		view.setUint8(offset + layout.id, data ? WALOp.Set : WALOp.Remove);
+		view.setUint32(offset + layout.id + 1, data?.byteLength ?? 0, true);
+		offset += entryHeaderSize;
+		if (!data) continue;
+		buffer.set(data, offset);
+		offset += data.byteLength;
+	}
+
+	view.setUint32(layout.checksum, crc32c(buffer.subarray(layout.count)), true);
+
+	return buffer;
+}
+
+/**
+ * Parses an intent record.
+ * @returns The changes in the record, or undefined if the record is incomplete or corrupted
+ * @internal @hidden
+ */
+export function decodeIntent(buffer: Uint8Array): PendingChanges | undefined {
+	if (buffer.byteLength < 4) return;
+
+	const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+	const magic = view.getUint32(0, true);
+	if (magic != legacyMagic && magic != walMagic) return;
+	if (magic == walMagic && buffer.byteLength < 8) return;
+
+	const version = magic == legacyMagic ? 0 : view.getUint32(4, true);
+	if (version > walVersion) {
+		throw crit(new ErrnoError(Errno.ENOTSUP, 'WAL: Intent record has an unsupported version: ' + version, undefined, 'recover'));
+	}
+
+	const layout = layouts[version];
+	const entryHeaderSize = layout.id + 5;
+
+	if (buffer.byteLength < layout.header) return;
+	if (view.getUint32(layout.checksum, true) != crc32c(buffer.subarray(layout.count))) return;
+
+	const changes: PendingChanges = new Map();
+	const count = view.getUint32(layout.count, true);
+
+	let offset = layout.header;
+	for (let i = 0; i < count; i++) {
+		if (offset + entryHeaderSize > buffer.byteLength) return;
+
+		const id = layout.id == 8 ? Number(view.getBigUint64(offset, true)) : view.getUint32(offset, true);
+		const op: WALOp = view.getUint8(offset + layout.id);
+		const length = view.getUint32(offset + layout.id + 1, true);
+		offset += entryHeaderSize;
+
+		if (op == WALOp.Remove) {
+			changes.set(id, undefined);
+			continue;
+		}
+
+		if (offset + length > buffer.byteLength) return;
+		changes.set(id, buffer.slice(offset, offset + length));
+		offset += length;
+	}
+
+	return changes;
+}
+
+/**
+ * A store that buffers writes until a transaction is committed.
+ * On commit, an intent record is persisted to the underlying store before any changes are applied.
+ * If the changes are interrupted (e.g. by a crash), the intent is replayed when the file system is next used.
+ * If the intent record itself is incomplete, it is discarded, since none of its changes have been applied yet.
+ * @category Stores and Transactions
+ */
+export class WALStore<T extends Store = Store> implements Store {
+	public constructor(public readonly raw: T) {}
+
+	public get id(): number | undefined {
+		return this.raw.id;
+	}
+
+	public get name(): string {
+		return this.raw.name;
+	}
+
+	public get label(): string | undefined {
+		return this.raw.label;
+	}
+
+	/**
+	 * Transactions always read whole values so pending changes can be merged, so `partial` is never supported.
+	 */
+	public readonly flags = [] as const;
+
+	public sync(): Promise<void> {
+		return this.raw.sync();
+	}
+
+	public usage(): UsageInfo {
+		return this.raw.usage?.() ?? { totalSpace: 0, freeSpace: 0 };
+	}
+
+	public transaction(): WALTransaction<T> {
+		return new WALTransaction(this);
+	}
+
+	/**
+	 * Replays or discards an intent record left over from an interrupted commit.
+	 */
+	public async recover(): Promise<void> {
+		const tx = this.raw.transaction();
+
+		let found = false;
+		for (const key of [legacyWalKey, walKey]) {
+			const data = await tx.get(key, 0);
+			if (!_isIntent(key, data)) continue;
+			found = true;
+
+			const changes = decodeIntent(data);
+
+			if (changes) {
+				notice(`WAL: Replaying ${changes.size} change(s) from an interrupted commit`);
+				await _apply(tx, changes);
+			} else {
+				warn('WAL: Discarding incomplete intent record');
+			}
+
+			await tx.remove(key);
+		}
+
+		if (found) await tx.commit();
+	}
+
+	/**
+	 * Replays or discards an intent record left over from an interrupted commit.
+	 */
+	public recoverSync(): void {
+		const tx = this.raw.transaction();
+
+		let found = false;
+		for (const key of [legacyWalKey, walKey]) {
+			const data = tx.getSync(key, 0);
+			if (!_isIntent(key, data)) continue;
+			found = true;
+
+			const changes = decodeIntent(data);
+
+			if (changes) {
+				notice(`WAL: Replaying ${changes.size} change(s) from an interrupted commit`);
+				_applySync(tx, changes);
+			} else {
+				warn('WAL: Discarding incomplete intent record');
+			}
+
+			tx.removeSync(key);
+		}
+
+		if (found) tx.commitSync();
+	}
+
+	_fs?: StoreFS<Store> | undefined;
+}
+
+/**
+ * Whether `data` stored at `key` is an intent record.
+ * Since the legacy key is a valid ID, only legacy intent records there are used.
+ */
+function _isIntent(key: number, data: Uint8Array | undefined): data is Uint8Array {
+	if (!data) return false;
+	if (key != legacyWalKey) return true;
+	return data.byteLength >= 4 && new DataView(data.buffer, data.byteOffset).getUint32(0, true) == legacyMagic;
+}
+
+async function _apply(tx: Transaction, changes: PendingChanges): Promise<void> {
+	for (const [id, data] of changes) {
+		if (data) await tx.set(id, data, 0);
+		else await tx.remove(id);
+	}
+}
+
+function _applySync(tx: Transaction, changes: PendingChanges): void {
+	for (const [id, data] of changes) {
+		if (data) tx.setSync(id, data, 0);
+		else tx.removeSync(id);
+	}
+}
+
+/**
+ * Copies `data` into `base` at `offset`, growing it if needed
+ */
+function _merge(base: Uint8Array | undefined, data: Uint8Array, offset: number): Uint8Array {
+	if (!offset && (!base || data.byteLength >= base.byteLength)) return data.slice();
+
+	const merged = new Uint8Array(Math.max(base?.byteLength ?? 0, offset + data.byteLength));
+	if (base) merged.set(base);
+	merged.set(data, offset);
+	return merged;
+}
+
+/**
+ * A transaction for a `WALStore`.
+ * Changes are kept in memory until the transaction is committed.
+ * @category Stores and Transactions
+ */
+export class WALTransaction<T extends Store = Store> extends Transaction<WALStore<T>> {
+	/**
+	 * The transaction for the underlying store
+	 */
+	protected readonly raw: Transaction;
+
+	protected readonly pending: PendingChanges = new Map();
+
+	public constructor(store: WALStore<T>) {
+		super(store);
+		this.raw = store.raw.transaction();
+	}
+
+	public async keys(): Promise<Iterable<number>> {
+		return this._withPending(await this.raw.keys());
+	}
+
+	public keysSync(): Iterable<number> | undefined {
+		const keys = this.raw.keysSync();
+		return keys && this._withPending(keys);
+	}
+
+	/**
+	 * Applies the pending changes to the keys of the underlying store
+	 */
+	protected _withPending(raw: Iterable<number>): Set<number> {
+		const keys = new Set(raw);
+		keys.delete(walKey);
+		for (const [id, data] of this.pending) {
+			if (data) keys.add(id);
+			else keys.delete(id);
+		}
+		return keys;
+	}
+
+	public async get(id: number, offset: number = 0, end?: number): Promise<Uint8Array | undefined> {
+		if (id == walKey) throw ErrnoError.With('EINVAL', undefined, 'WAL.get');
+		const data = this.pending.has(id) ? this.pending.get(id) : await this.raw.get(id, 0);
+		// Copy so callers can't modify pending or stored data in place
+		return data?.slice(offset, end);
+	}
+
+	public getSync(id: number, offset: number = 0, end?: number): Uint8Array | undefined {
+		if (id == walKey) throw ErrnoError.With('EINVAL', undefined, 'WAL.get');
+		const data = this.pending.has(id) ? this.pending.get(id) : this.raw.getSync(id, 0);
+		// Copy so callers can't modify pending or stored data in place
+		return data?.slice(offset, end);
+	}
+
+	public async set(id: number, data: Uint8Array, offset: number = 0): Promise<void> {
+		if (id == walKey) throw ErrnoError.With('EINVAL', undefined, 'WAL.set');
+		const base = offset ? await this.get(id) : undefined;
+		this.pending.set(id, _merge(base, data, offset));
+	}
+
+	public setSync(id: number, data: Uint8Array, offset: number = 0): void {
+		if (id == walKey) throw ErrnoError.With('EINVAL', undefined, 'WAL.set');
+		const base = offset ? this.getSync(id) : undefined;
+		this.pending.set(id, _merge(base, data, offset));
+	}
+
+	// eslint-disable-next-line @typescript-eslint/require-await
+	public async remove(id: number): Promise<void> {
+		this.pending.set(id, undefined);
+	}
+
+	public removeSync(id: number): void {
+		this.pending.set(id, undefined);
+	}
+
+	/**
+	 * Persists the intent record, applies the changes, then removes the intent record.
+	 */
+	public async commit(): Promise<void> {
+		if (!this.pending.size) return;
+
+		debug(`WAL: Committing ${this.pending.size} change(s)`);
+
+		await this.raw.set(walKey, encodeIntent(this.pending), 0);
+		await this.raw.commit();
+
+		try {
+			await _apply(this.raw, this.pending);
+			await this.raw.remove(walKey);
+			await this.raw.commit();
+		} catch (e) {
+			throw crit(new ErrnoError(Errno.EIO, 'WAL: Failed to apply committed changes: ' + (e as Error).message, undefined, 'commit'));
+		}
+
+		this.pending.clear();
+	}
+
+	/**
+	 * Persists the intent record, applies the changes, then removes the intent record.
+	 */
+	public commitSync(): void {
+		if (!this.pending.size) return;
+
+		debug(`WAL: Committing ${this.pending.size} change(s)`);
+
+		this.raw.setSync(walKey, encodeIntent(this.pending), 0);
+		this.raw.commitSync();
+
+		try {
+			_applySync(this.raw, this.pending);
+			this.raw.removeSync(walKey);
+			this.raw.commitSync();
+		} catch (e) {
+			throw crit(new ErrnoError(Errno.EIO, 'WAL: Failed to apply committed changes: ' + (e as Error).message, undefined, 'commit'));
+		}
+
+		this.pending.clear();
+	}
+
+	public async abort(): Promise<void> {
+		this.pending.clear();
+		await this.raw.abort();
+	}
+
+	public abortSync(): void {
+		this.pending.clear();
+		this.raw.abortSync();
+	}
+}
@@ -0,0 +1,330 @@
+/* eslint-disable @typescript-eslint/require-await */
+import type { MountConfiguration } from '../config.js';
+import type { FileSystem, UsageInfo } from '../internal/filesystem.js';
+import type { Backend } from './backend.js';
+
+import { _throw } from 'utilium';
+import { Errno, ErrnoError } from '../internal/error.js';
+import { IndexFS } from '../internal/index_fs.js';
+import { Inode } from '../internal/inode.js';
+import { debug, err, warn } from '../internal/log.js';
+import { Readonly } from '../mixins/readonly.js';
+import { decodeUTF8, decompress, encodeUTF8, readArchive } from '../utils.js';
+import { S_IFBLK, S_IFCHR, S_IFDIR, S_IFIFO, S_IFLNK, S_IFREG } from '../vfs/constants.js';
+import { dirname, join } from '../vfs/path.js';
+import { resolveMount } from '../vfs/shared.js';
+
+const blockSize = 512;
+
+/**
+ * Maps tar entry types to file types
+ */
+const fileTypes: Record<string, number> = {
+	'0': S_IFREG,
+	'7': S_IFREG,
+	'2': S_IFLNK,
+	'3': S_IFCHR,
+	'4': S_IFBLK,
+	'5': S_IFDIR,
+	'6': S_IFIFO,
+};
+
+/**
+ * Reads a null-terminated string from a header
+ */
+function readString(block: Uint8Array, offset: number, length: number): string {
+	const raw = block.subarray(offset, offset + length);
+	const end = raw.indexOf(0);
+	return decodeUTF8(end == -1 ? raw : raw.subarray(0, end));
+}
+
+/**
+ * Reads a number from a header.
+ * Numbers are stored as octal strings, or as big-endian base-256 if the high bit of the first byte is set (a GNU extension)
+ */
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+	if (block[offset] & 0x80) {
+		let value = block[offset] & 0x7f;
+		for (let i = 1; i < length; i++) value = value * 256 + block[offset + i];
+		return value;
+	}
+
+	const value = readString(block, offset, length).trim();
+	return value ? parseInt(value, 8) : 0;
+}
+
+/**
+ * Computes the checksum of a header, which is the sum of its bytes with the checksum field treated as spaces.
+ */
+function checksum(header: Uint8Array): number {
+	let sum = 0;
+	for (let i = 0; i < blockSize; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+	return sum;
+}
+
+/**
+ * Parses pax extended header records, which have the form `<length> <key>=<value>\n`
+ */
+function parsePax(data: Uint8Array): Record<string, string> {
+	const records: Record<string, string> = {};
+
+	for (let offset = 0; offset < data.byteLength; ) {
+		const space = data.indexOf(0x20, offset);
+		if (space == -1) break;
+
+		const length = parseInt(decodeUTF8(data.subarray(offset, space)), 10);
+		if (!length) break;
+
+		const record = decodeUTF8(data.subarray(space + 1, offset + length - 1));
+		const separator = record.indexOf('=');
+		if (separator != -1) records[record.slice(0, separator)] = record.slice(separator + 1);
+
+		offset += length;
+	}
+
+	return records;
+}
+
+/**
+ * Converts an archive path to an absolute path
+ */
+function normalizeEntryPath(path: string): string {
+	path = join('/', path);
+	return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+/**
+ * A read-only file system backed by a tar archive.
+ * File contents are served directly from the archive without extracting them.
+ * @category Internals
+ * @internal
+ */
+export class TarFS extends Readonly(IndexFS) {
+	/**
+	 * Maps data IDs to file contents, which are views into the archive
+	 */
+	protected readonly contents = new Map<number, Uint8Array>();
+
+	protected lastID = 0;
+
+	public constructor(
+		/** The (uncompressed) archive */
+		protected readonly data: Uint8Array,
+		label?: string
+	) {
+		super(0x74617266, 'tarfs');
+		this.label = label;
+		this.index.set('/', new Inode({ ino: 0, data: 0, mode: S_IFDIR | 0o755 }));
+		this.parse();
+	}
+
+	public usage(): UsageInfo {
+		return {
+			totalSpace: this.data.byteLength,
+			freeSpace: 0,
+		};
+	}
+
+	/**
+	 * Creates any missing parent directories of `path`
+	 */
+	protected createParents(path: string, metadata: Partial<Inode>): void {
+		const parent = dirname(path);
+		if (this.index.has(parent)) return;
+
+		this.createParents(parent, metadata);
+		const ino = ++this.lastID;
+		this.index.set(parent, new Inode({ ...metadata, ino, data: ino, mode: S_IFDIR | 0o755, size: 0, nlink: 1 }));
+	}
+
+	/**
+	 * Parses the headers in the archive and builds the index
+	 */
+	protected parse(): void {
+		const global: Record<string, string> = {};
+		let pax: Record<string, string> = {};
+		let longName: string | undefined, longLink: string | undefined;
+
+		let offset = 0;
+		while (offset + blockSize <= this.data.byteLength) {
+			const header = this.data.subarray(offset, offset + blockSize);
+
+			// The end of the archive is marked by empty blocks
+			if (header.every(byte => !byte)) break;
+
+			if (readNumber(header, 148, 8) != checksum(header)) {
+				throw err(new ErrnoError(Errno.EIO, 'Tar: Invalid checksum for header at 0x' + offset.toString(16)), { fs: this });
+			}
+
+			const type = header[156] ? String.fromCharCode(header[156]) : '0';
+			const attributes = { ...global, ...pax };
+			const isMeta = 'xgLK'.includes(type);
+
+			const size = !isMeta && attributes.size ? parseInt(attributes.size) : readNumber(header, 124, 12);
+			const content = this.data.subarray(offset + blockSize, offset + blockSize + size);
+			offset += blockSize + Math.ceil(size / blockSize) * blockSize;
+
+			switch (type) {
+				case 'x':
+					pax = parsePax(content);
+					continue;
+				case 'g':
+					Object.assign(global, parsePax(content));
+					continue;
+				case 'L':
+					longName = readString(content, 0, content.byteLength);
+					continue;
+				case 'K':
+					longLink = readString(content, 0, content.byteLength);
+					continue;
+			}
+
+			const magic = readString(header, 257, 6);
+			const prefix = magic.startsWith('ustar') ? readString(header, 345, 155) : '';
+			const name = readString(header, 0, 100);
+
+			const path = normalizeEntryPath(attributes.path ?? longName ?? (prefix ? prefix + '/' + name : name));
+			const linkname = attributes.linkpath ?? longLink ?? readString(header, 157, 100);
+
+			pax = {};
+			longName = longLink = undefined;
+
+			const mtimeMs = (attributes.mtime ? parseFloat(attributes.mtime) : readNumber(header, 136, 12)) * 1000;
+
+			const metadata = {
+				uid: attributes.uid ? parseInt(attributes.uid) : readNumber(header, 108, 8),
+				gid: attributes.gid ? parseInt(attributes.gid) : readNumber(header, 116, 8),
+				mtimeMs,
+				ctimeMs: attributes.ctime ? parseFloat(attributes.ctime) * 1000 : mtimeMs,
+				atimeMs: attributes.atime ? parseFloat(attributes.atime) * 1000 : mtimeMs,
+				birthtimeMs: mtimeMs,
+			};
+
+			if (path == '/') {
+				this.index.get('/')!.update({ ...metadata, mode: S_IFDIR | (readNumber(header, 100, 8) & 0o7777) });
+				continue;
+			}
+
+			this.createParents(path, metadata);
+
+			if (type == '1') {
+				const target = this.index.get(normalizeEntryPath(linkname));
+				if (!target) {
+					warn(`Tar: Hard link target does not exist: ${linkname} (linked from ${path})`);
+					continue;
+				}
+				target.nlink++;
+				this.index.set(path, target);
+				continue;
+			}
+
+			if (!(type in fileTypes)) warn(`Tar: Unsupported entry type "${type}", treating ${path} as a regular file`);
+
+			const mode = (fileTypes[type] ?? S_IFREG) | (readNumber(header, 100, 8) & 0o7777);
+
+			const existing = this.index.get(path);
+			if (existing && type == '5') {
+				existing.update({ ...metadata, mode });
+				continue;
+			}
+
+			const ino = ++this.lastID;
+
+			if (type == '5') {
+				this.index.set(path, new Inode({ ...metadata, ino, data: ino, mode, size: 0 }));
+				continue;
+			}
+
+			const data = type == '2' ? encodeUTF8(linkname) : content;
+			this.index.set(path, new Inode({ ...metadata, ino, data: ino, mode, size: data.byteLength }));
+			this.contents.set(ino, data);
+		}
+
+		debug(`Tar: Indexed ${this.index.size} entries`);
+	}
+
+	protected async remove(path: string): Promise<void> {
+		throw ErrnoError.With('EROFS', path, 'remove');
+	}
+
+	protected removeSync(path: string): void {
+		throw ErrnoError.With('EROFS', path, 'remove');
+	}
+
+	public async read(path: string, buffer: Uint8Array, offset: number, end: number): Promise<void> {
+		this.readSync(path, buffer, offset, end);
+	}
+
+	public readSync(path: string, buffer: Uint8Array, offset: number, end: number): void {
+		const inode = this.index.get(path) ?? _throw(ErrnoError.With('ENOENT', path, 'read'));
+		const data = this.contents.get(inode.data) ?? _throw(ErrnoError.With('EISDIR', path, 'read'));
+		buffer.set(data.subarray(offset, end));
+	}
+}
+
+/**
+ * Options for the `Tar` backend
+ * @category Backends and Configuration
+ */
+export interface TarOptions {
+	/** The contents of the archive */
+	data?: ArrayBufferLike | ArrayBufferView;
+
+	/** The path to the archive. This is used if `data` is not set. */
+	path?: string;
+
+	/**
+	 * The file system to read the archive at `path` from.
+	 * If not set, the archive is read from the VFS.
+	 */
+	fs?: MountConfiguration<any>;
+
+	/**
+	 * Whether the archive is compressed with gzip.
+	 * If not set, this is detected from the contents of the archive.
+	 */
+	gzip?: boolean;
+
+	/** The label to use for the file system */
+	label?: string;
+}
+
+const _Tar = {
+	name: 'Tar',
+	options: {
+		data: { type: 'object', required: false },
+		path: { type: 'string', required: false },
+		fs: { type: 'object', required: false },
+		gzip: { type: 'boolean', required: false },
+		label: { type: 'string', required: false },
+	},
+	async create(options: TarOptions) {
+		let data: Uint8Array;
+
+		if (options.data) {
+			data = ArrayBuffer.isView(options.data)
+				? new Uint8Array(options.data.buffer, options.data.byteOffset, options.data.byteLength)
+				: new Uint8Array(options.data);
+		} else if (options.path) {
+			const { fs, path } = options.fs ? { fs: options.fs as FileSystem, path: options.path } : resolveMount(options.path, undefined);
+			data = await readArchive(fs, path);
+		} else {
+			throw err(new ErrnoError(Errno.EINVAL, 'Tar: Either data or path must be set'));
+		}
+
+		if (options.gzip ?? (data[0] == 0x1f && data[1] == 0x8b)) {
+			data = await decompress(data, 'gzip');
+		}
+
+		return new TarFS(data, options.label);
+	},
+} as const satisfies Backend<TarFS, TarOptions>;
+type _Tar = typeof _Tar;
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface Tar extends _Tar {}
+
+/**
+ * A read-only backend that mounts a tar archive, optionally compressed with gzip.
+ * @category Backends and Configuration
+ */
+export const Tar: Tar = _Tar;
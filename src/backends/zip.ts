@@ -0,0 +1,791 @@
+/* eslint-disable @typescript-eslint/require-await */
+import type { MountConfiguration } from '../config.js';
+import type { FileSystem, PureCreationOptions, UsageInfo } from '../internal/filesystem.js';
+import type { InodeLike } from '../internal/inode.js';
+import type { Backend } from './backend.js';
+
+import { _throw } from 'utilium';
+import { Errno, ErrnoError } from '../internal/error.js';
+import { IndexFS } from '../internal/index_fs.js';
+import { Inode, isDirectory } from '../internal/inode.js';
+import { debug, err } from '../internal/log.js';
+import { decodeUTF8, encodeUTF8, nowNs, readArchive } from '../utils.js';
+import { S_IFDIR, S_IFMT, S_IFREG, size_max } from '../vfs/constants.js';
+import { dirname, join } from '../vfs/path.js';
+import { resolveMount } from '../vfs/shared.js';
+
+const localSignature = 0x04034b50;
+const centralSignature = 0x02014b50;
+const endSignature = 0x06054b50;
+const zip64EndSignature = 0x06064b50;
+const zip64LocatorSignature = 0x07064b50;
+
+/** General purpose flag: the entry is encrypted */
+const flagEncrypted = 1;
+/** General purpose flag: the name is encoded using UTF-8 */
+const flagUTF8 = 0x800;
+
+/** The "version made by" host for Unix, which means the upper 16 bits of the external attributes are a mode */
+const hostUnix = 3;
+
+/** Extra field with 64-bit sizes and offsets */
+const extraZip64 = 0x0001;
+/** Extra field with Unix timestamps */
+const extraTimestamp = 0x5455;
+
+/**
+ * The central directory information for an entry
+ */
+interface ZipEntry {
+	/** General purpose flags */
+	flags: number;
+	/** Compression method. 0 is stored and 8 is deflated */
+	method: number;
+	crc: number;
+	compressedSize: number;
+	/** Uncompressed size */
+	size: number;
+	/** Offset of the local header */
+	offset: number;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Computes the CRC-32 of some data, as used by ZIP
+ */
+function crc32(data: Uint8Array): number {
+	crcTable ??= Uint32Array.from({ length: 256 }, (_, n) => {
+		for (let k = 0; k < 8; k++) n = n & 1 ? 0xedb88320 ^ (n >>> 1) : n >>> 1;
+		return n >>> 0;
+	});
+
+	let crc = 0xffffffff;
+	for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/* Deflate (RFC 1951) tables */
+const lengthBase = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const lengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const distanceBase = [
+	1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const distanceExtra = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const codeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * A canonical Huffman code, stored as the number of codes of each length and the symbols ordered by code
+ */
+interface Huffman {
+	counts: Uint16Array;
+	symbols: Uint16Array;
+}
+
+function huffman(lengths: ArrayLike<number>): Huffman {
+	const counts = new Uint16Array(16);
+	for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+	counts[0] = 0;
+
+	const offsets = new Uint16Array(16);
+	for (let i = 1; i < 16; i++) offsets[i] = offsets[i - 1] + counts[i - 1];
+
+	const symbols = new Uint16Array(lengths.length);
+	for (let i = 0; i < lengths.length; i++) if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+
+	return { counts, symbols };
+}
+
+let fixed: [Huffman, Huffman] | undefined;
+
+/**
+ * Synchronously decompresses raw deflate data.
+ * This is used instead of `DecompressionStream` so entries can be read using the synchronous API.
+ * @param size The size of the decompressed data
+ */
+function inflate(data: Uint8Array, size: number): Uint8Array {
+	const output = new Uint8Array(size);
+	let position = 0;
+	let bitBuffer = 0,
+		bitCount = 0,
+		offset = 0;
+
+	const invalid = (message: string) => new ErrnoError(Errno.EIO, 'Zip: Invalid deflate data: ' + message);
+
+	function bits(count: number): number {
+		while (bitCount < count) {
+			if (offset >= data.byteLength) throw invalid('unexpected end of data');
+			bitBuffer |= data[offset++] << bitCount;
+			bitCount += 8;
+		}
+		const value = bitBuffer & ((1 << count) - 1);
+		bitBuffer >>>= count;
+		bitCount -= count;
+		return value;
+	}
+
+	function decode({ counts, symbols }: Huffman): number {
+		let code = 0,
+			first = 0,
+			index = 0;
+		for (let length = 1; length < 16; length++) {
+			code |= bits(1);
+			const count = counts[length];
+			if (code - count < first) return symbols[index + (code - first)];
+			index += count;
+			first = (first + count) << 1;
+			code <<= 1;
+		}
+		throw invalid('bad code');
+	}
+
+	function codes(literals: Huffman, distances: Huffman): void {
+		for (;;) {
+			let symbol = decode(literals);
+			if (symbol == 256) return;
+
+			if (symbol < 256) {
+				if (position >= size) throw invalid('too much data');
+				output[position++] = symbol;
+				continue;
+			}
+
+			symbol -= 257;
+			if (symbol >= lengthBase.length) throw invalid('bad length');
+			const length = lengthBase[symbol] + bits(lengthExtra[symbol]);
+
+			const distanceSymbol = decode(distances);
+			if (distanceSymbol >= distanceBase.length) throw invalid('bad distance');
+			const distance = distanceBase[distanceSymbol] + bits(distanceExtra[distanceSymbol]);
+
+			if (distance > position) throw invalid('distance too far back');
+			if (position + length > size) throw invalid('too much data');
+
+			for (let i = 0; i < length; i++, position++) output[position] = output[position - distance];
+		}
+	}
+
+	let last: number;
+	do {
+		last = bits(1);
+		switch (bits(2)) {
+			case 0: {
+				// Stored blocks start at a byte boundary
+				bitBuffer = bitCount = 0;
+				if (offset + 4 > data.byteLength) throw invalid('unexpected end of data');
+				const length = data[offset] | (data[offset + 1] << 8);
+				offset += 4;
+				if (offset + length > data.byteLength) throw invalid('unexpected end of data');
+				if (position + length > size) throw invalid('too much data');
+				output.set(data.subarray(offset, offset + length), position);
+				offset += length;
+				position += length;
+				break;
+			}
+			case 1: {
+				fixed ??= [
+					huffman(Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))),
+					huffman(new Array(30).fill(5)),
+				];
+				codes(...fixed);
+				break;
+			}
+			case 2: {
+				const literalCount = bits(5) + 257,
+					distanceCount = bits(5) + 1,
+					codeLengthCount = bits(4) + 4;
+
+				const codeLengths = new Uint8Array(19);
+				for (let i = 0; i < codeLengthCount; i++) codeLengths[codeLengthOrder[i]] = bits(3);
+				const lengthCode = huffman(codeLengths);
+
+				const lengths = new Uint8Array(literalCount + distanceCount);
+				for (let i = 0; i < lengths.length; ) {
+					const symbol = decode(lengthCode);
+					if (symbol < 16) {
+						lengths[i++] = symbol;
+						continue;
+					}
+
+					if (symbol == 16 && !i) throw invalid('repeat with no previous length');
+					const value = symbol == 16 ? lengths[i - 1] : 0;
+					const repeat = symbol == 16 ? 3 + bits(2) : symbol == 17 ? 3 + bits(3) : 11 + bits(7);
+					if (i + repeat > lengths.length) throw invalid('too many lengths');
+					lengths.fill(value, i, i + repeat);
+					i += repeat;
+				}
+
+				codes(huffman(lengths.subarray(0, literalCount)), huffman(lengths.subarray(literalCount)));
+				break;
+			}
+			default:
+				throw invalid('bad block type');
+		}
+	} while (!last);
+
+	if (position != size) throw invalid('size mismatch');
+
+	return output;
+}
+
+/**
+ * Reads the extra fields of an entry
+ */
+function readExtras(data: Uint8Array): Map<number, DataView> {
+	const extras = new Map<number, DataView>();
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	for (let offset = 0; offset + 4 <= data.byteLength; ) {
+		const size = view.getUint16(offset + 2, true);
+		extras.set(
+			view.getUint16(offset, true),
+			new DataView(data.buffer, data.byteOffset + offset + 4, Math.min(size, data.byteLength - offset - 4))
+		);
+		offset += 4 + size;
+	}
+	return extras;
+}
+
+/**
+ * Converts an MS-DOS date and time, which are in local time, to a timestamp
+ */
+function fromDOSTime(time: number, date: number): number {
+	return new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2).getTime();
+}
+
+/**
+ * Converts a timestamp to an MS-DOS time and date
+ */
+function toDOSTime(ms: number): [time: number, date: number] {
+	const d = new Date(Math.max(ms, new Date(1980, 0, 1).getTime()));
+	return [
+		(d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+		((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+	];
+}
+
+/**
+ * Converts an archive path to an absolute path
+ */
+function normalizeEntryPath(path: string): string {
+	path = join('/', path);
+	return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+/**
+ * Encodes a local header or central directory header for an entry.
+ * Both headers share most of their fields, but the central directory header has additional fields in the middle.
+ */
+function encodeHeader(central: boolean, name: Uint8Array, inode: Inode, entry: ZipEntry): Uint8Array {
+	const fixed = central ? 46 : 30;
+	const header = new Uint8Array(fixed + name.byteLength + 9);
+	const view = new DataView(header.buffer);
+
+	view.setUint32(0, central ? centralSignature : localSignature, true);
+	if (central) view.setUint16(4, (hostUnix << 8) | 20, true);
+
+	// The remaining shared fields are offset by 2 in the central directory header
+	const shift = central ? 2 : 0;
+	const [time, date] = toDOSTime(inode.mtimeMs);
+	view.setUint16(4 + shift, 20, true);
+	view.setUint16(6 + shift, entry.flags | flagUTF8, true);
+	view.setUint16(8 + shift, entry.method, true);
+	view.setUint16(10 + shift, time, true);
+	view.setUint16(12 + shift, date, true);
+	view.setUint32(14 + shift, entry.crc, true);
+	view.setUint32(18 + shift, entry.compressedSize, true);
+	view.setUint32(22 + shift, entry.size, true);
+	view.setUint16(26 + shift, name.byteLength, true);
+	view.setUint16(28 + shift, 9, true);
+
+	if (central) {
+		view.setUint32(38, ((inode.mode << 16) | (isDirectory(inode) ? 0x10 : 0)) >>> 0, true);
+		view.setUint32(42, entry.offset, true);
+	}
+
+	header.set(name, fixed);
+
+	// Unix modification time, since MS-DOS times only have a precision of 2 seconds
+	const extra = fixed + name.byteLength;
+	view.setUint16(extra, extraTimestamp, true);
+	view.setUint16(extra + 2, 5, true);
+	view.setUint8(extra + 4, 1);
+	view.setUint32(extra + 5, Math.floor(inode.mtimeMs / 1000) >>> 0, true);
+
+	return header;
+}
+
+/**
+ * A file system backed by a ZIP archive.
+ *
+ * Only the central directory is read when the file system is created.
+ * Entries are located and inflated when they are read.
+ *
+ * If the file system is writable, changes are kept in memory and appended to the archive as stored (uncompressed) entries,
+ * and the central directory is rewritten, when a file is synced.
+ * Entries that are replaced or removed are left in the archive.
+ * @category Internals
+ * @internal
+ */
+export class ZipFS extends IndexFS {
+	/**
+	 * Maps data IDs to entries in the archive
+	 */
+	protected readonly entries = new Map<number, ZipEntry>();
+
+	/**
+	 * Maps data IDs to contents that have not been written to the archive
+	 */
+	protected readonly pending = new Map<number, Uint8Array>();
+
+	/**
+	 * Whether the central directory needs to be rewritten
+	 */
+	protected dirty = false;
+
+	protected lastID = 0;
+
+	/**
+	 * The end of the entries in the archive, which is also where the central directory starts
+	 */
+	protected end = 0;
+
+	/**
+	 * The archive comment
+	 */
+	protected comment: Uint8Array = new Uint8Array(0);
+
+	/**
+	 * The most recently inflated entry, so sequential reads of a compressed file don't inflate it every time
+	 */
+	private _inflated?: { id: number; data: Uint8Array };
+
+	public constructor(
+		/** The archive */
+		protected data: Uint8Array,
+		/** Whether changes can be made to the archive */
+		public readonly writable: boolean = false,
+		label?: string
+	) {
+		super(0x7a697066, 'zipfs');
+		this.label = label;
+		if (!writable) this.attributes.set('no_write');
+		this.index.set('/', new Inode({ ino: 0, data: 0, mode: S_IFDIR | 0o755 }));
+		this.parse();
+	}
+
+	/**
+	 * The archive, including any changes
+	 */
+	public get archive(): Uint8Array {
+		this.flush();
+		return this.data;
+	}
+
+	public usage(): UsageInfo {
+		if (this.writable) return super.usage();
+
+		return {
+			totalSpace: this.data.byteLength,
+			freeSpace: 0,
+		};
+	}
+
+	/**
+	 * Creates any missing parent directories of `path`
+	 */
+	protected createParents(path: string, metadata: Partial<Inode>): void {
+		const parent = dirname(path);
+		if (this.index.has(parent)) return;
+
+		this.createParents(parent, metadata);
+		const ino = ++this.lastID;
+		this.index.set(parent, new Inode({ ...metadata, ino, data: ino, mode: S_IFDIR | 0o755, size: 0, nlink: 1 }));
+	}
+
+	/**
+	 * Reads the central directory and builds the index
+	 */
+	protected parse(): void {
+		const { data } = this;
+		const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+		let eocd = -1;
+		for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+			if (view.getUint32(i, true) != endSignature) continue;
+			eocd = i;
+			break;
+		}
+
+		if (eocd == -1) throw err(new ErrnoError(Errno.EINVAL, 'Zip: End of central directory record not found'), { fs: this });
+
+		let count = view.getUint16(eocd + 10, true);
+		let offset = view.getUint32(eocd + 16, true);
+		this.comment = data.slice(eocd + 22, eocd + 22 + view.getUint16(eocd + 20, true));
+
+		if (eocd >= 20 && view.getUint32(eocd - 20, true) == zip64LocatorSignature) {
+			const record = Number(view.getBigUint64(eocd - 12, true));
+			if (view.getUint32(record, true) != zip64EndSignature) {
+				throw err(new ErrnoError(Errno.EIO, 'Zip: Invalid ZIP64 end of central directory record'), { fs: this });
+			}
+			count = Number(view.getBigUint64(record + 32, true));
+			offset = Number(view.getBigUint64(record + 48, true));
+		}
+
+		this.end = offset;
+
+		for (let i = 0; i < count; i++) {
+			if (offset + 46 > data.byteLength || view.getUint32(offset, true) != centralSignature) {
+				throw err(new ErrnoError(Errno.EIO, 'Zip: Invalid central directory entry at 0x' + offset.toString(16)), { fs: this });
+			}
+
+			const nameLength = view.getUint16(offset + 28, true);
+			const extraLength = view.getUint16(offset + 30, true);
+			const name = decodeUTF8(data.subarray(offset + 46, offset + 46 + nameLength));
+			const extras = readExtras(data.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength));
+
+			const entry: ZipEntry = {
+				flags: view.getUint16(offset + 8, true),
+				method: view.getUint16(offset + 10, true),
+				crc: view.getUint32(offset + 16, true),
+				compressedSize: view.getUint32(offset + 20, true),
+				size: view.getUint32(offset + 24, true),
+				offset: view.getUint32(offset + 42, true),
+			};
+
+			// ZIP64 values are only present for fields which are set to the maximum
+			const zip64 = extras.get(extraZip64);
+			let position = 0;
+			for (const key of ['size', 'compressedSize', 'offset'] as const) {
+				if (!zip64 || entry[key] != size_max || position + 8 > zip64.byteLength) continue;
+				entry[key] = Number(zip64.getBigUint64(position, true));
+				position += 8;
+			}
+
+			const timestamp = extras.get(extraTimestamp);
+			const mtimeMs =
+				timestamp && timestamp.byteLength >= 5 && timestamp.getUint8(0) & 1
+					? timestamp.getUint32(1, true) * 1000
+					: fromDOSTime(view.getUint16(offset + 12, true), view.getUint16(offset + 14, true));
+
+			const isDir = name.endsWith('/');
+			const unixMode = view.getUint8(offset + 5) == hostUnix ? view.getUint32(offset + 38, true) >>> 16 : 0;
+			const mode = unixMode & S_IFMT ? unixMode : (isDir ? S_IFDIR : S_IFREG) | (unixMode & 0o7777 || (isDir ? 0o755 : 0o644));
+
+			offset += 46 + nameLength + extraLength + view.getUint16(offset + 32, true);
+
+			const path = normalizeEntryPath(name);
+			const metadata = { mtimeMs, atimeMs: mtimeMs, ctimeMs: mtimeMs, birthtimeMs: mtimeMs };
+
+			if (path == '/') continue;
+
+			this.createParents(path, metadata);
+
+			const existing = this.index.get(path);
+			if (existing && isDirectory(existing) && isDir) {
+				existing.update({ ...metadata, mode });
+				this.entries.set(existing.data, entry);
+				continue;
+			}
+
+			const ino = ++this.lastID;
+			this.index.set(path, new Inode({ ...metadata, ino, data: ino, mode, size: isDir ? 0 : entry.size }));
+			this.entries.set(ino, entry);
+		}
+
+		debug(`Zip: Indexed ${this.index.size} entries`);
+	}
+
+	/**
+	 * Gets the contents of a file
+	 */
+	protected contents(path: string, inode: Inode): Uint8Array {
+		const pending = this.pending.get(inode.data);
+		if (pending) return pending;
+
+		const entry = this.entries.get(inode.data);
+		if (!entry) return new Uint8Array(0);
+
+		if (this._inflated?.id == inode.data) return this._inflated.data;
+
+		if (entry.flags & flagEncrypted)
+			throw err(new ErrnoError(Errno.ENOTSUP, 'Zip: Encrypted entries are not supported', path, 'read'), { fs: this });
+
+		if (entry.offset + 30 > this.data.byteLength)
+			throw err(new ErrnoError(Errno.EIO, 'Zip: Entry is outside of the archive', path, 'read'), { fs: this });
+
+		const header = new DataView(this.data.buffer, this.data.byteOffset + entry.offset, 30);
+		if (header.getUint32(0, true) != localSignature)
+			throw err(new ErrnoError(Errno.EIO, 'Zip: Invalid local header', path, 'read'), { fs: this });
+
+		const start = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+		const raw = this.data.subarray(start, start + entry.compressedSize);
+
+		switch (entry.method) {
+			case 0:
+				return raw;
+			case 8: {
+				const data = inflate(raw, entry.size);
+				if (crc32(data) != entry.crc) throw err(new ErrnoError(Errno.EIO, 'Zip: CRC mismatch', path, 'read'), { fs: this });
+				this._inflated = { id: inode.data, data };
+				return data;
+			}
+			default:
+				throw err(new ErrnoError(Errno.ENOTSUP, 'Zip: Unsupported compression method ' + entry.method, path, 'read'), { fs: this });
+		}
+	}
+
+	/**
+	 * Appends new and changed entries to the archive and rewrites the central directory
+	 */
+	protected flush(): void {
+		if (!this.writable || !this.dirty) return;
+
+		const appended: Uint8Array[] = [];
+		const central: Uint8Array[] = [];
+		const written = new Set<number>();
+		let offset = this.end;
+
+		for (const [path, inode] of this.index) {
+			if (path == '/') continue;
+
+			const name = encodeUTF8(path.slice(1) + (isDirectory(inode) ? '/' : ''));
+			let entry = this.entries.get(inode.data);
+
+			// Hard links share an entry, so it only needs to be written once
+			if (!written.has(inode.data) && (!entry || this.pending.has(inode.data))) {
+				const data = this.pending.get(inode.data) ?? new Uint8Array(0);
+				entry = { flags: 0, method: 0, crc: crc32(data), compressedSize: data.byteLength, size: data.byteLength, offset };
+				const header = encodeHeader(false, name, inode, entry);
+				appended.push(header, data);
+				offset += header.byteLength + data.byteLength;
+				this.entries.set(inode.data, entry);
+			}
+
+			written.add(inode.data);
+			central.push(encodeHeader(true, name, inode, entry!));
+		}
+
+		const centralSize = central.reduce((size, header) => size + header.byteLength, 0);
+		if (offset + centralSize > size_max || central.length > 0xffff) {
+			throw err(new ErrnoError(Errno.EFBIG, 'Zip: Archive is too large to be written without ZIP64'), { fs: this });
+		}
+
+		const eocd = new Uint8Array(22 + this.comment.byteLength);
+		const view = new DataView(eocd.buffer);
+		view.setUint32(0, endSignature, true);
+		view.setUint16(8, central.length, true);
+		view.setUint16(10, central.length, true);
+		view.setUint32(12, centralSize, true);
+		view.setUint32(16, offset, true);
+		view.setUint16(20, this.comment.byteLength, true);
+		eocd.set(this.comment, 22);
+
+		const archive = new Uint8Array(offset + centralSize + eocd.byteLength);
+		archive.set(this.data.subarray(0, this.end));
+		let position = this.end;
+		for (const chunk of [...appended, ...central, eocd]) {
+			archive.set(chunk, position);
+			position += chunk.byteLength;
+		}
+
+		for (const id of this.entries.keys()) {
+			if (!written.has(id)) this.entries.delete(id);
+		}
+
+		if (this._inflated && this.pending.has(this._inflated.id)) this._inflated = undefined;
+		this.pending.clear();
+		this.data = archive;
+		this.end = offset;
+		this.dirty = false;
+	}
+
+	/**
+	 * Makes sure the contents of a file match the size in its metadata, for example after it was truncated.
+	 */
+	protected resize(path: string): void {
+		const inode = this.index.get(path)!;
+		if (isDirectory(inode)) return;
+
+		const data = this.contents(path, inode);
+		if (data.byteLength == inode.size) return;
+
+		const resized = new Uint8Array(inode.size);
+		resized.set(data.subarray(0, inode.size));
+		this.pending.set(inode.data, resized);
+		this.dirty = true;
+	}
+
+	protected checkWritable(path: string, syscall: string): void {
+		if (!this.writable) throw ErrnoError.With('EROFS', path, syscall);
+	}
+
+	protected create(path: string, options: PureCreationOptions): Inode {
+		this.checkWritable(path, (options.mode & S_IFMT) == S_IFDIR ? 'mkdir' : 'createFile');
+		const inode = super.create(path, options);
+		this.dirty = true;
+		return inode;
+	}
+
+	protected _remove(path: string, isUnlink: boolean): void {
+		this.checkWritable(path, isUnlink ? 'unlink' : 'rmdir');
+		super._remove(path, isUnlink);
+	}
+
+	protected async remove(): Promise<void> {
+		this.dirty = true;
+	}
+
+	protected removeSync(): void {
+		this.dirty = true;
+	}
+
+	public async rename(oldPath: string, newPath: string): Promise<void> {
+		this.renameSync(oldPath, newPath);
+	}
+
+	public renameSync(oldPath: string, newPath: string): void {
+		this.checkWritable(oldPath, 'rename');
+		if (oldPath == newPath) return;
+
+		// Contents are stored by data ID, so only the paths in the index need to change
+		for (const { from, to, inode } of this.pathsForRename(oldPath, newPath)) {
+			this.index.delete(from);
+			this.index.set(to, inode);
+		}
+		this.dirty = true;
+	}
+
+	public async touch(path: string, metadata: InodeLike): Promise<void> {
+		this.checkWritable(path, 'touch');
+		await super.touch(path, metadata);
+		this.dirty = true;
+	}
+
+	public touchSync(path: string, metadata: InodeLike): void {
+		this.checkWritable(path, 'touch');
+		super.touchSync(path, metadata);
+		this.dirty = true;
+	}
+
+	public async sync(path: string, data?: Uint8Array, stats?: Readonly<InodeLike>): Promise<void> {
+		this.checkWritable(path, 'sync');
+		await super.sync(path, data, stats);
+		this.resize(path);
+		this.dirty = true;
+		this.flush();
+	}
+
+	public syncSync(path: string, data?: Uint8Array, stats?: Readonly<InodeLike>): void {
+		this.checkWritable(path, 'sync');
+		super.syncSync(path, data, stats);
+		this.resize(path);
+		this.dirty = true;
+		this.flush();
+	}
+
+	public async read(path: string, buffer: Uint8Array, offset: number, end: number): Promise<void> {
+		this.readSync(path, buffer, offset, end);
+	}
+
+	public readSync(path: string, buffer: Uint8Array, offset: number, end: number): void {
+		const inode = this.index.get(path) ?? _throw(ErrnoError.With('ENOENT', path, 'read'));
+		if (isDirectory(inode)) throw ErrnoError.With('EISDIR', path, 'read');
+		buffer.set(this.contents(path, inode).subarray(offset, end));
+	}
+
+	public async write(path: string, buffer: Uint8Array, offset: number): Promise<void> {
+		this.writeSync(path, buffer, offset);
+	}
+
+	public writeSync(path: string, buffer: Uint8Array, offset: number): void {
+		this.checkWritable(path, 'write');
+		const inode = this.index.get(path) ?? _throw(ErrnoError.With('ENOENT', path, 'write'));
+		if (isDirectory(inode)) throw ErrnoError.With('EISDIR', path, 'write');
+
+		const end = offset + buffer.byteLength;
+		let data = this.contents(path, inode);
+
+		// Entries in the archive are never modified in place
+		if (!this.pending.has(inode.data) || data.byteLength < end) {
+			const grown = new Uint8Array(Math.max(data.byteLength, end));
+			grown.set(data);
+			data = grown;
+			this.pending.set(inode.data, data);
+		}
+
+		data.set(buffer, offset);
+		if (this._inflated?.id == inode.data) this._inflated = undefined;
+		inode.update({ mtimeNs: nowNs(), size: Math.max(inode.size, end) });
+		this.dirty = true;
+	}
+}
+
+/**
+ * Options for the `Zip` backend
+ * @category Backends and Configuration
+ */
+export interface ZipOptions {
+	/**
+	 * The contents of the archive.
+	 * If neither this nor `path` is set and the file system is writable, an empty archive is created.
+	 */
+	data?: ArrayBufferLike | ArrayBufferView;
+
+	/** The path to the archive. This is used if `data` is not set. */
+	path?: string;
+
+	/**
+	 * The file system to read the archive at `path` from.
+	 * If not set, the archive is read from the VFS.
+	 */
+	fs?: MountConfiguration<any>;
+
+	/**
+	 * Whether changes can be made.
+	 * Changes are written to the archive when files are synced, and the updated archive is available from `ZipFS.archive`.
+	 * @default false
+	 */
+	writable?: boolean;
+
+	/** The label to use for the file system */
+	label?: string;
+}
+
+const _Zip = {
+	name: 'Zip',
+	options: {
+		data: { type: 'object', required: false },
+		path: { type: 'string', required: false },
+		fs: { type: 'object', required: false },
+		writable: { type: 'boolean', required: false },
+		label: { type: 'string', required: false },
+	},
+	async create(options: ZipOptions) {
+		let data: Uint8Array;
+
+		if (options.data) {
+			data = ArrayBuffer.isView(options.data)
+				? new Uint8Array(options.data.buffer, options.data.byteOffset, options.data.byteLength)
+				: new Uint8Array(options.data);
+		} else if (options.path) {
+			const { fs, path } = options.fs ? { fs: options.fs as FileSystem, path: options.path } : resolveMount(options.path, undefined);
+			data = await readArchive(fs, path);
+		} else if (options.writable) {
+			data = new Uint8Array(22);
+			new DataView(data.buffer).setUint32(0, endSignature, true);
+		} else {
+			throw err(new ErrnoError(Errno.EINVAL, 'Zip: Either data or path must be set'));
+		}
+
+		return new ZipFS(data, options.writable, options.label);
+	},
+} as const satisfies Backend<ZipFS, ZipOptions>;
+type _Zip = typeof _Zip;
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface Zip extends _Zip {}
+
+/**
+ * A backend that mounts a ZIP archive, with entries inflated when they are read.
+ * @category Backends and Configuration
+ */
+export const Zip: Zip = _Zip;
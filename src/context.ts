@@ -51,5 +51,13 @@ export function bindContext(root: string, credentials: CredentialInit = structur
 	const fn_fs = _bindFunctions<Fn_FS>(fs, ctx);
 	const fn_promises = _bindFunctions<Fn_Promises>(fs.promises, ctx);
 
-	return { ...ctx, fs: { ...fs, ...fn_fs, promises: { ...fs.promises, ...fn_promises } } };
+	return {
+		...ctx,
+		fs: {
+			...fs,
+			...fn_fs,
+			xattr: _bindFunctions(fs.xattr, ctx),
+			promises: { ...fs.promises, ...fn_promises, xattr: _bindFunctions(fs.promises.xattr, ctx) },
+		},
+	};
 }
@@ -5,14 +5,14 @@ This is a great resource: https://www.kernel.org/doc/html/latest/admin-guide/dev
 import { canary } from 'utilium';
 import { InMemoryStore } from '../backends/memory.js';
 import { StoreFS } from '../backends/store/fs.js';
-import { decodeUTF8 } from '../utils.js';
+import { decodeUTF8, nowNs } from '../utils.js';
 import { S_IFBLK, S_IFCHR } from '../vfs/constants.js';
 import { basename, dirname } from '../vfs/path.js';
 import { Errno, ErrnoError } from './error.js';
 import type { FileReadResult } from './file.js';
 import { File } from './file.js';
 import type { CreationOptions } from './filesystem.js';
-import { Inode, type InodeLike } from './inode.js';
+import { _setTime, Inode, type InodeLike } from './inode.js';
 import { alert, debug, err, info, log_deprecated } from './log.js';
 
 /**
@@ -180,7 +180,7 @@ export class DeviceFile<TData = any> extends File {
 		length: number = buffer.byteLength - offset,
 		position: number = this.position
 	): number {
-		this.stats.atimeMs = Date.now();
+		_setTime(this.stats, 'atime', nowNs());
 
 		const end = position + length;
 		this.position = end;
@@ -202,7 +202,7 @@ export class DeviceFile<TData = any> extends File {
 
 		if (end > this.stats.size) this.stats.size = end;
 
-		this.stats.mtimeMs = Date.now();
+		_setTime(this.stats, 'mtime', nowNs());
 		this.position = end;
 
 		const data = buffer.subarray(offset, offset + length);
@@ -501,6 +501,26 @@ export class DeviceFS extends StoreFS<InMemoryStore> {
 		return entries;
 	}
 
+	public async readdirTypes(path: string): Promise<Map<string, number>> {
+		const entries = await super.readdirTypes(path);
+		for (const dev of this.devices.keys()) {
+			if (dirname(dev) == path) {
+				entries.set(basename(dev), 0);
+			}
+		}
+		return entries;
+	}
+
+	public readdirTypesSync(path: string): Map<string, number> {
+		const entries = super.readdirTypesSync(path);
+		for (const dev of this.devices.keys()) {
+			if (dirname(dev) == path) {
+				entries.set(basename(dev), 0);
+			}
+		}
+		return entries;
+	}
+
 	public async link(target: string, link: string): Promise<void> {
 		if (this.devices.has(target)) {
 			throw ErrnoError.With('EPERM', target, 'rmdir');
@@ -15,9 +15,17 @@ export enum Errno {
 	EIO = 5,
 	/** No such device or address */
 	ENXIO = 6,
+	/** Argument list too long */
+	E2BIG = 7,
 	/** Bad file descriptor */
 	EBADF = 9,
+	/**
+	 * Operation would block.
+	 * This is the same as `EAGAIN`, so errors with it use the `EAGAIN` code.
+	 */
+	EWOULDBLOCK = 11,
 	/** Resource temporarily unavailable */
+	// eslint-disable-next-line @typescript-eslint/no-duplicate-enum-values
 	EAGAIN = 11,
 	/** Cannot allocate memory */
 	ENOMEM = 12,
@@ -135,6 +143,8 @@ export enum Errno {
 	ENETUNREACH = 101,
 	/** Network dropped connection on reset */
 	ENETRESET = 102,
+	/** No buffer space available */
+	ENOBUFS = 105,
 	/** Connection timed out */
 	ETIMEDOUT = 110,
 	/** Connection refused */
@@ -166,6 +176,7 @@ export const errorMessages: { [K in Errno]: string } = {
 	[Errno.EINTR]: 'Interrupted system call',
 	[Errno.EIO]: 'Input/output error',
 	[Errno.ENXIO]: 'No such device or address',
+	[Errno.E2BIG]: 'Argument list too long',
 	[Errno.EBADF]: 'Bad file descriptor',
 	[Errno.EAGAIN]: 'Resource temporarily unavailable',
 	[Errno.ENOMEM]: 'Cannot allocate memory',
@@ -226,6 +237,7 @@ export const errorMessages: { [K in Errno]: string } = {
 	[Errno.ENETDOWN]: 'Network is down',
 	[Errno.ENETUNREACH]: 'Network is unreachable',
 	[Errno.ENETRESET]: 'Network dropped connection on reset',
+	[Errno.ENOBUFS]: 'No buffer space available',
 	[Errno.ETIMEDOUT]: 'Connection timed out',
 	[Errno.ECONNREFUSED]: 'Connection refused',
 	[Errno.EHOSTDOWN]: 'Host is down',
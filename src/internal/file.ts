@@ -1,11 +1,12 @@
 import { extendBuffer } from 'utilium/buffer.js';
 import '../polyfills.js';
+import { nowNs } from '../utils.js';
 import { config } from '../vfs/config.js';
 import * as c from '../vfs/constants.js';
 import { _chown } from '../vfs/stats.js';
 import { Errno, ErrnoError } from './error.js';
 import type { FileSystem, StreamOptions } from './filesystem.js';
-import type { InodeLike } from './inode.js';
+import { _setTime, type InodeLike } from './inode.js';
 import { err, log_deprecated } from './log.js';
 
 const maxByteLength = 0xffff; // 64 KiB
@@ -252,12 +253,12 @@ export abstract class File<FS extends FileSystem = FileSystem> {
 	/**
 	 * Change the file timestamps of the file.
 	 */
-	public abstract utimes(atime: number, mtime: number): Promise<void>;
+	public abstract utimes(atime: number | bigint, mtime: number | bigint): Promise<void>;
 
 	/**
 	 * Change the file timestamps of the file.
 	 */
-	public abstract utimesSync(atime: number, mtime: number): void;
+	public abstract utimesSync(atime: number | bigint, mtime: number | bigint): void;
 
 	/**
 	 * Create a stream for reading the file.
@@ -409,7 +410,7 @@ export class PreloadFile<FS extends FileSystem> extends File<FS> {
 		if (!isWriteable(this.flag)) {
 			throw new ErrnoError(Errno.EPERM, 'File not opened with a writeable mode');
 		}
-		this.stats.mtimeMs = Date.now();
+		_setTime(this.stats, 'mtime', nowNs());
 		if (length > this._buffer.length) {
 			const data = new Uint8Array(length - this._buffer.length);
 			// Write will set stats.size and handle syncing.
@@ -446,7 +447,7 @@ export class PreloadFile<FS extends FileSystem> extends File<FS> {
 		if (end > this.stats.size) this.stats.size = end;
 
 		this._buffer.set(slice, position);
-		this.stats.mtimeMs = Date.now();
+		_setTime(this.stats, 'mtime', nowNs());
 		this.position = position + slice.byteLength;
 		return slice.byteLength;
 	}
@@ -491,7 +492,7 @@ export class PreloadFile<FS extends FileSystem> extends File<FS> {
 			this.dirty = true;
 		}
 
-		this.stats.atimeMs = Date.now();
+		_setTime(this.stats, 'atime', nowNs());
 
 		position ??= this.position;
 		let end = position + length;
@@ -571,19 +572,19 @@ export class PreloadFile<FS extends FileSystem> extends File<FS> {
 		if (config.syncImmediately) this.syncSync();
 	}
 
-	public async utimes(atime: number, mtime: number): Promise<void> {
+	public async utimes(atime: number | bigint, mtime: number | bigint): Promise<void> {
 		if (this.closed) throw ErrnoError.With('EBADF', this.path, 'utimes');
 		this.dirty = true;
-		this.stats.atimeMs = atime;
-		this.stats.mtimeMs = mtime;
+		_setTime(this.stats, 'atime', atime);
+		_setTime(this.stats, 'mtime', mtime);
 		if (config.syncImmediately) await this.sync();
 	}
 
-	public utimesSync(atime: number, mtime: number): void {
+	public utimesSync(atime: number | bigint, mtime: number | bigint): void {
 		if (this.closed) throw ErrnoError.With('EBADF', this.path, 'utimes');
 		this.dirty = true;
-		this.stats.atimeMs = atime;
-		this.stats.mtimeMs = mtime;
+		_setTime(this.stats, 'atime', atime);
+		_setTime(this.stats, 'mtime', mtime);
 		if (config.syncImmediately) this.syncSync();
 	}
 }
@@ -726,7 +727,7 @@ export class LazyFile<FS extends FileSystem> extends File<FS> {
 		if (!isWriteable(this.flag)) {
 			throw new ErrnoError(Errno.EPERM, 'File not opened with a writeable mode');
 		}
-		this.stats.mtimeMs = Date.now();
+		_setTime(this.stats, 'mtime', nowNs());
 		this.stats.size = length;
 		if (config.syncImmediately) await this.sync();
 	}
@@ -738,7 +739,7 @@ export class LazyFile<FS extends FileSystem> extends File<FS> {
 		if (!isWriteable(this.flag)) {
 			throw new ErrnoError(Errno.EPERM, 'File not opened with a writeable mode');
 		}
-		this.stats.mtimeMs = Date.now();
+		_setTime(this.stats, 'mtime', nowNs());
 		this.stats.size = length;
 		if (config.syncImmediately) this.syncSync();
 	}
@@ -756,7 +757,7 @@ export class LazyFile<FS extends FileSystem> extends File<FS> {
 
 		if (end > this.stats.size) this.stats.size = end;
 
-		this.stats.mtimeMs = Date.now();
+		_setTime(this.stats, 'mtime', nowNs());
 		this._position = position + slice.byteLength;
 		return slice;
 	}
@@ -807,7 +808,7 @@ export class LazyFile<FS extends FileSystem> extends File<FS> {
 
 		if (config.updateOnRead) this.dirty = true;
 
-		this.stats.atimeMs = Date.now();
+		_setTime(this.stats, 'atime', nowNs());
 
 		let end = position + length;
 		if (end > this.stats.size) {
@@ -888,21 +889,21 @@ export class LazyFile<FS extends FileSystem> extends File<FS> {
 		if (config.syncImmediately) this.syncSync();
 	}
 
-	public async utimes(atime: number, mtime: number): Promise<void> {
+	public async utimes(atime: number | bigint, mtime: number | bigint): Promise<void> {
 		if (this.closed) throw ErrnoError.With('EBADF', this.path, 'utimes');
 
 		this.dirty = true;
-		this.stats.atimeMs = atime;
-		this.stats.mtimeMs = mtime;
+		_setTime(this.stats, 'atime', atime);
+		_setTime(this.stats, 'mtime', mtime);
 		if (config.syncImmediately) await this.sync();
 	}
 
-	public utimesSync(atime: number, mtime: number): void {
+	public utimesSync(atime: number | bigint, mtime: number | bigint): void {
 		if (this.closed) throw ErrnoError.With('EBADF', this.path, 'utimes');
 
 		this.dirty = true;
-		this.stats.atimeMs = atime;
-		this.stats.mtimeMs = mtime;
+		_setTime(this.stats, 'atime', atime);
+		_setTime(this.stats, 'mtime', mtime);
 		if (config.syncImmediately) this.syncSync();
 	}
 }
@@ -1,8 +1,11 @@
 import type { ConstMap } from 'utilium';
 import type { StatsLike } from '../vfs/stats.js';
-import type { ErrnoError } from './error.js';
 import type { File } from './file.js';
-import type { InodeLike } from './inode.js';
+import type { Attributes, InodeLike } from './inode.js';
+import type { FileLock } from './locks.js';
+
+import { ErrnoError } from './error.js';
+import { LockTable } from './locks.js';
 
 /**
  * Usage information about a file system
@@ -177,6 +180,14 @@ export interface StreamOptions {
 	end?: number;
 }
 
+/**
+ * A listener for changes to a file system.
+ * `path` is relative to the root of the file system.
+ * @category Internals
+ * @internal
+ */
+export type ChangeListener = (eventType: 'rename' | 'change', path: string) => void;
+
 const _chunkSize = 0x1000;
 
 /**
@@ -303,6 +314,24 @@ export abstract class FileSystem {
 	public abstract readdir(path: string): Promise<string[]>;
 	public abstract readdirSync(path: string): string[];
 
+	/**
+	 * Reads the contents of a directory, along with the type (`mode & S_IFMT`) of each entry.
+	 * A type of 0 means the type is unknown.
+	 * File systems that know the types of entries without a `stat` should override this to make `readdir` faster.
+	 */
+	public async readdirTypes(path: string): Promise<Map<string, number>> {
+		return new Map((await this.readdir(path)).map(name => [name, 0]));
+	}
+
+	/**
+	 * Reads the contents of a directory, along with the type (`mode & S_IFMT`) of each entry.
+	 * A type of 0 means the type is unknown.
+	 * File systems that know the types of entries without a `stat` should override this to make `readdir` faster.
+	 */
+	public readdirTypesSync(path: string): Map<string, number> {
+		return new Map(this.readdirSync(path).map(name => [name, 0]));
+	}
+
 	/**
 	 * Test whether or not `path` exists.
 	 */
@@ -327,6 +356,108 @@ export abstract class FileSystem {
 		}
 	}
 
+	/* eslint-disable @typescript-eslint/require-await, @typescript-eslint/no-unused-vars */
+	/**
+	 * Gets the extended attributes of a file.
+	 * File systems that support extended attributes should override this, since the default implementation throws `ENOTSUP`.
+	 */
+	public async getxattrs(path: string): Promise<Attributes> {
+		throw ErrnoError.With('ENOTSUP', path, 'getxattrs');
+	}
+
+	/**
+	 * Gets the extended attributes of a file.
+	 * File systems that support extended attributes should override this, since the default implementation throws `ENOTSUP`.
+	 */
+	public getxattrsSync(path: string): Attributes {
+		throw ErrnoError.With('ENOTSUP', path, 'getxattrs');
+	}
+
+	/**
+	 * Replaces the extended attributes of a file.
+	 * File systems that support extended attributes should override this, since the default implementation throws `ENOTSUP`.
+	 */
+	public async setxattrs(path: string, attributes: Attributes): Promise<void> {
+		throw ErrnoError.With('ENOTSUP', path, 'setxattrs');
+	}
+
+	/**
+	 * Replaces the extended attributes of a file.
+	 * File systems that support extended attributes should override this, since the default implementation throws `ENOTSUP`.
+	 */
+	public setxattrsSync(path: string, attributes: Attributes): void {
+		throw ErrnoError.With('ENOTSUP', path, 'setxattrs');
+	}
+
+	/**
+	 * Watches for changes made to the file system by something other than this VFS, like another thread or the host.
+	 * File systems that can be changed this way should override this, since the default implementation never reports any changes.
+	 * @returns A function that stops watching
+	 */
+	public watch(listener: ChangeListener): () => void {
+		return () => {};
+	}
+	/* eslint-enable @typescript-eslint/require-await, @typescript-eslint/no-unused-vars */
+
+	/**
+	 * The advisory locks on files in this file system
+	 * @internal @protected
+	 */
+	_locks?: LockTable;
+
+	/**
+	 * Gets the first advisory lock that conflicts with `lock`, if any.
+	 */
+	public async getLock(path: string, lock: FileLock): Promise<FileLock | undefined> {
+		const { ino } = await this.stat(path);
+		return (this._locks ??= new LockTable()).get(ino, lock);
+	}
+
+	/**
+	 * Gets the first advisory lock that conflicts with `lock`, if any.
+	 */
+	public getLockSync(path: string, lock: FileLock): FileLock | undefined {
+		const { ino } = this.statSync(path);
+		return (this._locks ??= new LockTable()).get(ino, lock);
+	}
+
+	/**
+	 * Sets or removes an advisory lock on a file.
+	 * If a conflicting lock is held and `wait` is set, waits for it to be released. Otherwise, fails with `EWOULDBLOCK`.
+	 */
+	public async setLock(path: string, lock: FileLock, wait: boolean): Promise<void> {
+		const { ino } = await this.stat(path);
+		this._locks ??= new LockTable();
+		if (wait) await this._locks.set(ino, lock, path);
+		else this._locks.setSync(ino, lock, path);
+	}
+
+	/**
+	 * Sets or removes an advisory lock on a file.
+	 * If a conflicting lock is held, fails with `EWOULDBLOCK`.
+	 */
+	public setLockSync(path: string, lock: FileLock): void {
+		const { ino } = this.statSync(path);
+		(this._locks ??= new LockTable()).setSync(ino, lock, path);
+	}
+
+	/**
+	 * Removes all of the advisory locks held by `owner`.
+	 * This does not take a path, since the file may have been renamed or removed since the locks were taken.
+	 */
+	// eslint-disable-next-line @typescript-eslint/require-await
+	public async releaseLocks(owner: string): Promise<void> {
+		this._locks?.release(owner);
+	}
+
+	/**
+	 * Removes all of the advisory locks held by `owner`.
+	 * This does not take a path, since the file may have been renamed or removed since the locks were taken.
+	 */
+	public releaseLocksSync(owner: string): void {
+		this._locks?.release(owner);
+	}
+
 	public abstract link(target: string, link: string): Promise<void>;
 	public abstract linkSync(target: string, link: string): void;
 
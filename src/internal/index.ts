@@ -6,4 +6,5 @@ export * from './file.js';
 export * from './filesystem.js';
 export * from './index_fs.js';
 export * from './inode.js';
+export * from './locks.js';
 export * as log from './log.js';
@@ -51,7 +51,7 @@ export abstract class IndexFS extends FileSystem {
 	/**
 	 * Finds all the paths in the index that need to be moved for a rename
 	 */
-	private pathsForRename(oldPath: string, newPath: string): MoveInfo[] {
+	protected pathsForRename(oldPath: string, newPath: string): MoveInfo[] {
 		if (!this.index.has(oldPath)) throw ErrnoError.With('ENOENT', oldPath, 'rename');
 		if ((dirname(newPath) + '/').startsWith(oldPath + '/')) throw ErrnoError.With('EBUSY', dirname(oldPath), 'rename');
 		const toRename: MoveInfo[] = [];
@@ -1,9 +1,9 @@
-import { deserialize, pick, randomInt, sizeof, struct, types as t } from 'utilium';
+import { deserialize, pick, randomInt, serialize, sizeof, struct, types as t } from 'utilium';
 import { Stats, type StatsLike } from '../vfs/stats.js';
 import { size_max } from '../vfs/constants.js';
 import { crit, debug, err, warn } from './log.js';
 import type { JSONPrimitive } from 'utilium';
-import { decodeUTF8 } from '../utils.js';
+import { decodeUTF8, encodeUTF8, msToNs, nsToMs } from '../utils.js';
 import { Errno, ErrnoError } from './error.js';
 import * as c from '../vfs/constants.js';
 
@@ -22,6 +22,13 @@ export interface InodeFields {
 	data?: number;
 	flags?: number;
 	attributes?: Attributes;
+
+	/* Timestamps with nanosecond precision. If present, these are used instead of the millisecond timestamps. */
+
+	atimeNs?: bigint;
+	mtimeNs?: bigint;
+	ctimeNs?: bigint;
+	birthtimeNs?: bigint;
 }
 
 /**
@@ -35,15 +42,76 @@ export interface InodeLike extends StatsLike<number>, InodeFields {}
  */
 export const _inode_fields = ['ino', 'data', 'size', 'mode', 'flags', 'nlink', 'uid', 'gid', 'atimeMs', 'birthtimeMs', 'mtimeMs', 'ctimeMs'] as const;
 
+/**
+ * The timestamps of an inode
+ * @internal @hidden
+ */
+export const _time_fields = ['atime', 'birthtime', 'mtime', 'ctime'] as const;
+
+/**
+ * @internal @hidden
+ */
+export type TimeField = (typeof _time_fields)[number];
+
+const nsPerMs = BigInt(1e6);
+
+/**
+ * Gets a timestamp in nanoseconds from a timestamp in milliseconds and one in nanoseconds.
+ * The nanosecond timestamp is only used if it is within a millisecond of the millisecond timestamp,
+ * since only the millisecond timestamp may have been changed.
+ * @internal @hidden
+ */
+export function _resolveNs(ms: number, ns?: bigint): bigint {
+	const fromMs = msToNs(ms);
+	if (ns === undefined) return fromMs;
+	const diff = ns - fromMs;
+	return -nsPerMs < diff && diff < nsPerMs ? ns : fromMs;
+}
+
+/**
+ * Gets a timestamp of `stats` in nanoseconds.
+ * @param fallback The nanosecond timestamp to use if `stats` only has a millisecond timestamp
+ * @internal @hidden
+ */
+export function _getTimeNs(stats: Partial<Readonly<InodeLike>>, time: TimeField, fallback?: bigint): bigint | undefined {
+	const ms = stats[`${time}Ms`],
+		ns = stats[`${time}Ns`];
+
+	if (ms === undefined) return ns;
+	return _resolveNs(ms, ns ?? fallback);
+}
+
+/**
+ * Sets a timestamp of `stats`.
+ * @param value The time, in milliseconds if it is a number or in nanoseconds if it is a bigint
+ * @internal @hidden
+ */
+export function _setTime(stats: Partial<InodeLike>, time: TimeField, value: number | bigint): void {
+	const ns = typeof value == 'bigint' ? value : msToNs(value);
+	stats[`${time}Ns`] = ns;
+	stats[`${time}Ms`] = nsToMs(ns);
+}
+
 /**
  * Represents which version of the `Inode` format we are on.
  * 1. 58 bytes. The first member was called `ino` but used as the ID for data.
  * 2. 66 bytes. Renamed the first member from `ino` to `data` and added a separate `ino` field
  * 3. 72 bytes. Changed the ID fields from 64 to 32 bits and added `flags`.
- * 4. (current) Added extended attributes. At least 128 bytes.
+ * 4. Added extended attributes. At least 128 bytes.
+ * 5. (current) Changed `data`, `ino`, and `size` to 64 bits, added `version`, and added nanosecond timestamps.
+ *    The IDs use the upper 32 bits that were reserved in version 3, and `size` was moved.
+ * @internal @hidden
+ */
+export const _inode_version = 5;
+
+/**
+ * The largest ID or size an inode can have.
+ * 64-bit values are stored, but they must be representable as a `number`.
  * @internal @hidden
  */
-export const _inode_version = 4;
+export const inode_max = Number.MAX_SAFE_INTEGER;
+
+const lower32 = BigInt(0xffffffff);
 
 /**
  * Generic inode definition that can easily be serialized.
@@ -58,6 +126,10 @@ export class Inode implements InodeLike {
 
 		if (!('byteLength' in data)) {
 			Object.assign(this, data);
+			for (const time of _time_fields) {
+				const ns = _getTimeNs(data, time, this[`${time}Ns`]);
+				if (ns !== undefined) _setTime(this, time, ns);
+			}
 			return;
 		}
 
@@ -75,16 +147,16 @@ export class Inode implements InodeLike {
 		}
 
 		deserialize(this, data);
+		this._upgrade();
 		const rawAttr = data.subarray(sizeof(Inode));
 		if (rawAttr.length != this.attributes_size) err(new ErrnoError(Errno.EIO, 'Attributes size mismatch with actual size'));
 		else if (rawAttr.length < 2) warn('Attributes is empty');
 		else this.attributes = JSON.parse(decodeUTF8(rawAttr));
 	}
 
-	@t.uint32 public data: number = randomInt(0, size_max);
-	/** For future use */
-	@t.uint32 public __data_old: number = 0;
-	@t.uint32 public size: number = 0;
+	@t.uint64 public data: number = randomInt(0, size_max);
+	/** The size before version 5, only used when upgrading */
+	@t.uint32 protected __size_old: number = 0;
 	@t.uint16 public mode: number = 0;
 	@t.uint32 public nlink: number = 1;
 	@t.uint32 public uid: number = 0;
@@ -93,20 +165,58 @@ export class Inode implements InodeLike {
 	@t.float64 public birthtimeMs: number = Date.now();
 	@t.float64 public mtimeMs: number = Date.now();
 	@t.float64 public ctimeMs: number = Date.now();
-	@t.uint32 public ino: number = randomInt(0, size_max);
-	/** For future use */
-	@t.uint32 public __ino_old: number = 0;
+	@t.uint64 public ino: number = randomInt(0, size_max);
 	@t.uint32 public flags: number = 0;
-	/** For future use */
-	@t.uint16 protected __after_flags: number = 0;
+	/**
+	 * The version of the inode format.
+	 * This is 0 for versions before 5.
+	 * @see _inode_version
+	 */
+	@t.uint16 public version: number = _inode_version;
 
 	@t.uint32 public attributes_size: number = 0;
 
+	@t.uint64 public size: number = 0;
+
+	@t.uint64 public atimeNs: bigint = msToNs(this.atimeMs);
+	@t.uint64 public birthtimeNs: bigint = msToNs(this.birthtimeMs);
+	@t.uint64 public mtimeNs: bigint = msToNs(this.mtimeMs);
+	@t.uint64 public ctimeNs: bigint = msToNs(this.ctimeMs);
+
 	/** Pad to 128 bytes */
-	@t.uint8(52) protected __padding = [];
+	@t.uint8(12) protected __padding = [];
 
 	public attributes: Attributes = {};
 
+	/**
+	 * Converts the 64-bit members to numbers after deserializing, and upgrades inodes from older versions.
+	 * Before version 5, the upper 32 bits of the IDs were reserved and could have old values, so they are ignored.
+	 * @internal @hidden
+	 */
+	_upgrade(): void {
+		const data = BigInt(this.data),
+			ino = BigInt(this.ino),
+			size = BigInt(this.size);
+
+		// Older inodes don't have nanosecond timestamps
+		for (const time of _time_fields) this[`${time}Ns`] = _resolveNs(this[`${time}Ms`], this[`${time}Ns`] || undefined);
+
+		if (this.version >= 5) {
+			if (data > inode_max || ino > inode_max || size > inode_max) {
+				throw err(new ErrnoError(Errno.EOVERFLOW, 'Inode has values that are too large'));
+			}
+			this.data = Number(data);
+			this.ino = Number(ino);
+			this.size = Number(size);
+			return;
+		}
+
+		this.data = Number(data & lower32);
+		this.ino = Number(ino & lower32);
+		this.size = this.__size_old;
+		this.version = _inode_version;
+	}
+
 	public toString(): string {
 		return `<Inode ${this.ino}>`;
 	}
@@ -143,16 +253,50 @@ export class Inode implements InodeLike {
 			// When multiple StoreFSes are used in a single stack, the differing IDs end up here.
 			if (key == 'ino' || key == 'data') continue;
 
+			// Timestamps are updated below, so the nanosecond timestamps are kept in sync
+			if (key.endsWith('timeMs')) continue;
+
 			if (this[key] === data[key]) continue;
 
 			this[key] = data[key];
 			hasChanged = true;
 		}
 
+		for (const time of _time_fields) {
+			const ns = _getTimeNs(data, time, this[`${time}Ns`]);
+			if (ns === undefined || ns === this[`${time}Ns`]) continue;
+
+			_setTime(this, time, ns);
+			hasChanged = true;
+		}
+
 		return hasChanged;
 	}
 }
 
+/**
+ * Serializes an inode along with its extended attributes, which are stored after the inode as JSON.
+ * This also updates `attributes_size`.
+ * @internal @hidden
+ */
+export function encodeInode(inode: Inode): Uint8Array {
+	const attributes = Object.keys(inode.attributes).length ? encodeUTF8(JSON.stringify(inode.attributes)) : new Uint8Array();
+	inode.attributes_size = attributes.byteLength;
+
+	const data = new Uint8Array(sizeof(Inode) + attributes.byteLength);
+	data.set(serialize(inode));
+	data.set(attributes, sizeof(Inode));
+	return data;
+}
+
+/**
+ * Whether `metadata` has any extended attributes
+ * @internal @hidden
+ */
+export function hasAttributes(metadata: InodeLike): metadata is InodeLike & { attributes: Attributes } {
+	return !!metadata.attributes && Object.keys(metadata.attributes).length > 0;
+}
+
 export function isFile(metadata: InodeLike): boolean {
 	return (metadata.mode & c.S_IFMT) === c.S_IFREG;
 }
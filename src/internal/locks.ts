@@ -0,0 +1,176 @@
+import { F_UNLCK, F_WRLCK } from '../vfs/constants.js';
+import { ErrnoError } from './error.js';
+import '../polyfills.js';
+
+/**
+ * An advisory lock on a file.
+ * Note these are plain objects so they can be sent to other threads.
+ * @category Internals
+ * @internal
+ */
+export interface FileLock {
+	/**
+	 * `flock` locks always cover the entire file.
+	 * `posix` locks cover a range of bytes.
+	 * Locks of different kinds never conflict with each other.
+	 */
+	kind: 'flock' | 'posix';
+
+	/**
+	 * `F_RDLCK`, `F_WRLCK`, or `F_UNLCK` to remove a lock
+	 */
+	type: number;
+
+	/**
+	 * The offset of the first byte covered by the lock
+	 */
+	start: number;
+
+	/**
+	 * The number of bytes covered by the lock.
+	 * 0 means the lock extends to the end of the file, no matter how large the file gets.
+	 */
+	length: number;
+
+	/**
+	 * Identifies what holds the lock.
+	 * Locks with the same owner never conflict, and taking a lock replaces the owner's existing locks in the range.
+	 */
+	owner: string;
+}
+
+function _end(lock: FileLock): number {
+	return lock.length ? lock.start + lock.length : Infinity;
+}
+
+function _overlaps(a: FileLock, b: FileLock): boolean {
+	return a.start < _end(b) && b.start < _end(a);
+}
+
+function _conflicts(held: FileLock, lock: FileLock): boolean {
+	return held.kind == lock.kind && held.owner != lock.owner && (held.type == F_WRLCK || lock.type == F_WRLCK) && _overlaps(held, lock);
+}
+
+/**
+ * Tracks the advisory locks on the files of a file system, by inode.
+ * @category Internals
+ * @internal
+ */
+export class LockTable {
+	protected locks = new Map<number, FileLock[]>();
+
+	/**
+	 * Owners waiting on a lock, mapped to the owners holding the conflicting locks.
+	 * This is used to detect deadlocks.
+	 */
+	protected waiting = new Map<string, Set<string>>();
+
+	/**
+	 * Callbacks for when the locks on an inode change
+	 */
+	protected listeners = new Map<number, Set<() => void>>();
+
+	/**
+	 * Gets the first lock that conflicts with `lock`, if any
+	 */
+	public get(ino: number, lock: FileLock): FileLock | undefined {
+		return this.locks.get(ino)?.find(held => _conflicts(held, lock));
+	}
+
+	/**
+	 * Sets or removes a lock.
+	 * If a conflicting lock is held, fails with `EWOULDBLOCK`.
+	 */
+	public setSync(ino: number, lock: FileLock, path?: string): void {
+		if (lock.type != F_UNLCK && this.get(ino, lock)) throw ErrnoError.With('EWOULDBLOCK', path, 'setLock');
+		this.apply(ino, lock);
+	}
+
+	/**
+	 * Sets or removes a lock, waiting for conflicting locks to be released.
+	 * Fails with `EDEADLK` if waiting would never end.
+	 */
+	public async set(ino: number, lock: FileLock, path?: string): Promise<void> {
+		while (lock.type != F_UNLCK) {
+			const owners = new Set(
+				this.locks
+					.get(ino)
+					?.filter(held => _conflicts(held, lock))
+					.map(held => held.owner)
+			);
+			if (!owners.size) break;
+
+			if (this.waitsOn(owners, lock.owner)) throw ErrnoError.With('EDEADLK', path, 'setLock');
+
+			const { promise, resolve } = Promise.withResolvers<void>();
+			const listeners = this.listeners.get(ino) ?? new Set();
+			this.listeners.set(ino, listeners);
+			listeners.add(resolve);
+			this.waiting.set(lock.owner, owners);
+
+			try {
+				await promise;
+			} finally {
+				this.waiting.delete(lock.owner);
+				listeners.delete(resolve);
+				if (!listeners.size) this.listeners.delete(ino);
+			}
+		}
+
+		this.apply(ino, lock);
+	}
+
+	/**
+	 * Whether any of `owners` is waiting on `owner`, directly or through other owners
+	 */
+	protected waitsOn(owners: Iterable<string>, owner: string, seen: Set<string> = new Set()): boolean {
+		for (const waiter of owners) {
+			if (waiter == owner) return true;
+			if (seen.has(waiter)) continue;
+			seen.add(waiter);
+			const next = this.waiting.get(waiter);
+			if (next && this.waitsOn(next, owner, seen)) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Removes all of the locks held by `owner`, on any inode
+	 */
+	public release(owner: string): void {
+		for (const [ino, held] of this.locks) {
+			const locks = held.filter(lock => lock.owner != owner);
+			if (locks.length == held.length) continue;
+
+			if (locks.length) this.locks.set(ino, locks);
+			else this.locks.delete(ino);
+
+			for (const listener of this.listeners.get(ino) ?? []) listener();
+		}
+	}
+
+	/**
+	 * Replaces the owner's locks in the range of `lock` with `lock`
+	 */
+	protected apply(ino: number, lock: FileLock): void {
+		const locks: FileLock[] = [];
+
+		for (const held of this.locks.get(ino) ?? []) {
+			if (held.kind != lock.kind || held.owner != lock.owner || !_overlaps(held, lock)) {
+				locks.push(held);
+				continue;
+			}
+
+			// Keep the parts of the existing lock outside of the range
+			if (held.start < lock.start) locks.push({ ...held, length: lock.start - held.start });
+			if (_end(lock) < _end(held)) locks.push({ ...held, start: _end(lock), length: held.length && _end(held) - _end(lock) });
+		}
+
+		if (lock.type != F_UNLCK) locks.push(lock);
+
+		if (locks.length) this.locks.set(ino, locks);
+		else this.locks.delete(ino);
+
+		for (const listener of this.listeners.get(ino) ?? []) listener();
+	}
+}
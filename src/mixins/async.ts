@@ -5,7 +5,8 @@ import { getAllPrototypes } from 'utilium';
 import { StoreFS } from '../backends/store/fs.js';
 import { Errno, ErrnoError } from '../internal/error.js';
 import { LazyFile, parseFlag } from '../internal/file.js';
-import { isDirectory, type InodeLike } from '../internal/inode.js';
+import { hasAttributes, isDirectory, type Attributes, type InodeLike } from '../internal/inode.js';
+import type { FileLock } from '../internal/locks.js';
 import { crit, debug, err } from '../internal/log.js';
 import { join } from '../vfs/path.js';
 
@@ -193,6 +194,57 @@ export function Async<const T extends abstract new (...args: any[]) => FileSyste
 			this._async(this.write(path, buffer, offset));
 		}
 
+		public getxattrsSync(path: string): Attributes {
+			this.checkSync(path, 'getxattrs');
+			return this._sync.getxattrsSync(path);
+		}
+
+		public setxattrsSync(path: string, attributes: Attributes): void {
+			this.checkSync(path, 'setxattrs');
+			this._sync.setxattrsSync(path, attributes);
+			this._async(this.setxattrs(path, attributes));
+		}
+
+		/**
+		 * Locks are tracked by the sync cache, so sync and async locks share one table.
+		 * Backends that track locks elsewhere (e.g. `PortFS`) override the async lock methods.
+		 */
+		public async getLock(path: string, lock: FileLock): Promise<FileLock | undefined> {
+			if (!this._sync) return await super.getLock(path, lock);
+			return await this._sync.getLock(path, lock);
+		}
+
+		public async setLock(path: string, lock: FileLock, wait: boolean): Promise<void> {
+			if (!this._sync) return await super.setLock(path, lock, wait);
+			await this._sync.setLock(path, lock, wait);
+		}
+
+		public async releaseLocks(owner: string): Promise<void> {
+			if (!this._sync) return await super.releaseLocks(owner);
+			await this._sync.releaseLocks(owner);
+		}
+
+		public getLockSync(path: string, lock: FileLock): FileLock | undefined {
+			this.checkSync(path, 'getLock');
+			return this._sync.getLockSync(path, lock);
+		}
+
+		/**
+		 * The lock is taken on the sync cache, then on the backing file system.
+		 * This means conflicts with locks that only exist on the backing file system (e.g. from other threads) are not detected.
+		 */
+		public setLockSync(path: string, lock: FileLock): void {
+			this.checkSync(path, 'setLock');
+			this._sync.setLockSync(path, lock);
+			this._async(this.setLock(path, lock, false));
+		}
+
+		public releaseLocksSync(owner: string): void {
+			this.checkSync(undefined, 'releaseLocks');
+			this._sync.releaseLocksSync(owner);
+			this._async(this.releaseLocks(owner));
+		}
+
 		public streamWrite(path: string, options: StreamOptions): WritableStream {
 			this.checkSync(path, 'streamWrite');
 			const sync = this._sync.streamWrite(path, options).getWriter();
@@ -222,12 +274,14 @@ export function Async<const T extends abstract new (...args: any[]) => FileSyste
 				const buffer = new Uint8Array(stats.size);
 				await this.read(path, buffer, 0, stats.size);
 				syncFile.writeSync(buffer, 0, stats.size);
+				if (hasAttributes(stats)) this._sync.setxattrsSync(path, stats.attributes);
 				return;
 			}
 			if (path !== '/') {
 				const stats = await this.stat(path);
 				this._sync.mkdirSync(path, stats.mode, stats);
 			}
+			if (hasAttributes(stats)) this._sync.setxattrsSync(path, stats.attributes);
 			const promises = [];
 			for (const file of await this.readdir(path)) {
 				promises.push(this.crossCopy(join(path, file)));
@@ -251,9 +305,11 @@ export function Async<const T extends abstract new (...args: any[]) => FileSyste
 				const originalMethod = this[key] as (...args: unknown[]) => Promise<unknown>;
 
 				(this as any)[key] = async (...args: unknown[]) => {
+					// The stack needs to be captured before awaiting, otherwise it depends on what is awaiting the result
+					const stack = new Error().stack?.split('\n').slice(2).join('\n');
+
 					const result = await originalMethod.apply(this, args);
 
-					const stack = new Error().stack?.split('\n').slice(2).join('\n');
 					// !stack == From the async queue
 					if (stack?.includes(`at <computed> [as ${key}]`) || stack?.includes(`${key}Sync `) || !stack) return result;
 
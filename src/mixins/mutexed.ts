@@ -1,6 +1,7 @@
 import type { File } from '../internal/file.js';
-import type { CreationOptions, FileSystem, FileSystemMetadata, StreamOptions, UsageInfo } from '../internal/filesystem.js';
-import type { InodeLike } from '../internal/inode.js';
+import type { ChangeListener, CreationOptions, FileSystem, FileSystemMetadata, StreamOptions, UsageInfo } from '../internal/filesystem.js';
+import type { Attributes, InodeLike } from '../internal/inode.js';
+import type { FileLock } from '../internal/locks.js';
 import type { Concrete } from '../utils.js';
 
 import { ErrnoError } from '../internal/error.js';
@@ -232,6 +233,70 @@ export class _MutexedFS<T extends FileSystem> implements FileSystem {
 		return this._fs.readdirSync(path);
 	}
 
+	public async readdirTypes(path: string): Promise<Map<string, number>> {
+		using _ = await this.lock(path, 'readdir');
+		return await this._fs.readdirTypes(path);
+	}
+
+	public readdirTypesSync(path: string): Map<string, number> {
+		using _ = this.lockSync(path, 'readdir');
+		return this._fs.readdirTypesSync(path);
+	}
+
+	public async getxattrs(path: string): Promise<Attributes> {
+		using _ = await this.lock(path, 'getxattrs');
+		return await this._fs.getxattrs(path);
+	}
+
+	public getxattrsSync(path: string): Attributes {
+		using _ = this.lockSync(path, 'getxattrs');
+		return this._fs.getxattrsSync(path);
+	}
+
+	public async setxattrs(path: string, attributes: Attributes): Promise<void> {
+		using _ = await this.lock(path, 'setxattrs');
+		await this._fs.setxattrs(path, attributes);
+	}
+
+	public setxattrsSync(path: string, attributes: Attributes): void {
+		using _ = this.lockSync(path, 'setxattrs');
+		this._fs.setxattrsSync(path, attributes);
+	}
+
+	public async getLock(path: string, lock: FileLock): Promise<FileLock | undefined> {
+		using _ = await this.lock(path, 'getLock');
+		return await this._fs.getLock(path, lock);
+	}
+
+	public getLockSync(path: string, lock: FileLock): FileLock | undefined {
+		using _ = this.lockSync(path, 'getLock');
+		return this._fs.getLockSync(path, lock);
+	}
+
+	/**
+	 * This does not lock `path`, since waiting on an advisory lock would prevent it from being released
+	 */
+	public async setLock(path: string, lock: FileLock, wait: boolean): Promise<void> {
+		await this._fs.setLock(path, lock, wait);
+	}
+
+	public setLockSync(path: string, lock: FileLock): void {
+		using _ = this.lockSync(path, 'setLock');
+		this._fs.setLockSync(path, lock);
+	}
+
+	public async releaseLocks(owner: string): Promise<void> {
+		await this._fs.releaseLocks(owner);
+	}
+
+	public releaseLocksSync(owner: string): void {
+		this._fs.releaseLocksSync(owner);
+	}
+
+	public watch(listener: ChangeListener): () => void {
+		return this._fs.watch(listener);
+	}
+
 	public async exists(path: string): Promise<boolean> {
 		using _ = await this.lock(path, 'exists');
 		return await this._fs.exists(path);
@@ -1,6 +1,6 @@
 import { Errno, ErrnoError } from '../internal/error.js';
 import type { FileSystem, FileSystemMetadata } from '../internal/filesystem.js';
-import type { InodeLike } from '../internal/inode.js';
+import type { Attributes, InodeLike } from '../internal/inode.js';
 import type { Mixin } from './shared.js';
 
 /**
@@ -24,6 +24,8 @@ export interface ReadonlyMixin {
 	syncSync(path: string, data: Uint8Array, stats: Readonly<InodeLike>): never;
 	write(path: string, buffer: Uint8Array, offset: number): Promise<never>;
 	writeSync(path: string, buffer: Uint8Array, offset: number): Promise<never>;
+	setxattrs(path: string, attributes: Attributes): Promise<never>;
+	setxattrsSync(path: string, attributes: Attributes): never;
 }
 
 /**
@@ -105,6 +107,14 @@ export function Readonly<T extends abstract new (...args: any[]) => FileSystem>(
 		public streamWrite(): never {
 			throw new ErrnoError(Errno.EROFS);
 		}
+
+		public async setxattrs(): Promise<never> {
+			throw new ErrnoError(Errno.EROFS);
+		}
+
+		public setxattrsSync(): never {
+			throw new ErrnoError(Errno.EROFS);
+		}
 	}
 	return ReadonlyFS;
 }
@@ -1,6 +1,6 @@
 import type { File } from '../internal/file.js';
 import type { CreationOptions, FileSystem } from '../internal/filesystem.js';
-import type { InodeLike } from '../internal/inode.js';
+import type { Attributes, InodeLike } from '../internal/inode.js';
 import type { AsyncFSMethods, Mixin } from './shared.js';
 
 /**
@@ -65,6 +65,14 @@ export function Sync<T extends abstract new (...args: any[]) => FileSystem>(FS:
 		public async write(path: string, buffer: Uint8Array, offset: number): Promise<void> {
 			return this.writeSync(path, buffer, offset);
 		}
+
+		public async getxattrs(path: string): Promise<Attributes> {
+			return this.getxattrsSync(path);
+		}
+
+		public async setxattrs(path: string, attributes: Attributes): Promise<void> {
+			return this.setxattrsSync(path, attributes);
+		}
 	}
 	return SyncFS;
 }
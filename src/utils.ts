@@ -1,6 +1,7 @@
 import type * as fs from 'node:fs';
 import type { ClassLike, OptionalTuple } from 'utilium';
 import { Errno, ErrnoError } from './internal/error.js';
+import type { FileSystem } from './internal/filesystem.js';
 import { log_deprecated } from './internal/log.js';
 import type { AbsolutePath } from './vfs/path.js';
 import { resolve } from './vfs/path.js';
@@ -71,21 +72,278 @@ export { /** @deprecated @hidden */ decodeUTF8 as decode };
 /* node:coverage enable */
 
 /**
- * Decodes a directory listing
+ * An entry in a directory listing
  * @hidden
  */
-export function decodeDirListing(data: Uint8Array): Record<string, number> {
-	return JSON.parse(decodeUTF8(data), (k, v) =>
+export interface DirEntry {
+	readonly ino: number;
+
+	/** The type of the file (`mode & S_IFMT`), or 0 if it is unknown */
+	readonly type: number;
+}
+
+/**
+ * Identifies binary directory listings ("zdir").
+ * Listings from older versions are JSON, which always starts with `{`.
+ */
+const dirListingMagic = 0x7269647a;
+
+/**
+ * The current version of the binary directory listing format.
+ *
+ * The format is little-endian:
+ * - Header: magic (u32), version (u16), reserved (u16), number of entries (u32)
+ * - Entries, sorted by the bytes of their names: ino (u64), type (u16), name length (u16), name (UTF-8)
+ */
+const dirListingVersion = 1;
+
+const dirListingHeaderSize = 12;
+
+const dirEntrySize = 12;
+
+function decodeJSONListing(data: Uint8Array): Record<string, DirEntry> {
+	const listing: Record<string, number> = JSON.parse(decodeUTF8(data), (k, v) =>
 		k == '' ? v : typeof v == 'string' ? BigInt(v).toString(16).slice(0, Math.min(v.length, 8)) : (v as number)
 	);
+
+	const entries: Record<string, DirEntry> = {};
+	for (const [name, ino] of Object.entries(listing)) entries[name] = { ino, type: 0 };
+	return entries;
+}
+
+/**
+ * Decodes a directory listing, including the type of each entry.
+ * Both the binary format and the JSON format used by older versions are supported.
+ * @hidden
+ */
+export function decodeDirEntries(data: Uint8Array): Record<string, DirEntry> {
+	if (data[0] == 0x7b) return decodeJSONListing(data);
+
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+	if (data.byteLength < dirListingHeaderSize || view.getUint32(0, true) != dirListingMagic) {
+		throw new ErrnoError(Errno.EIO, 'Invalid directory listing');
+	}
+
+	const version = view.getUint16(4, true);
+	if (version > dirListingVersion) throw new ErrnoError(Errno.EIO, 'Unsupported directory listing version: ' + version);
+
+	const count = view.getUint32(8, true);
+	const entries: Record<string, DirEntry> = {};
+
+	let offset = dirListingHeaderSize;
+	for (let i = 0; i < count; i++) {
+		if (offset + dirEntrySize > data.byteLength) throw new ErrnoError(Errno.EIO, 'Directory listing is truncated');
+
+		const ino = Number(view.getBigUint64(offset, true));
+		const type = view.getUint16(offset + 8, true);
+		const length = view.getUint16(offset + 10, true);
+		offset += dirEntrySize;
+
+		if (offset + length > data.byteLength) throw new ErrnoError(Errno.EIO, 'Directory listing is truncated');
+
+		entries[decodeUTF8(data.subarray(offset, offset + length))] = { ino, type };
+		offset += length;
+	}
+
+	return entries;
+}
+
+/**
+ * Checks whether two arrays contain the same bytes
+ * @hidden
+ */
+export function equal(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.byteLength != b.byteLength) return false;
+	for (let i = 0; i < a.byteLength; i++) if (a[i] != b[i]) return false;
+	return true;
+}
+
+/**
+ * Compares encoded names, which is how entries are sorted
+ */
+function compareNames(a: Uint8Array, b: Uint8Array): number {
+	const length = Math.min(a.byteLength, b.byteLength);
+	for (let i = 0; i < length; i++) if (a[i] != b[i]) return a[i] - b[i];
+	return a.byteLength - b.byteLength;
+}
+
+/**
+ * Encodes a directory listing.
+ * Entries can be inode IDs, in which case their type is unknown.
+ * @hidden
+ */
+export function encodeDirListing(listing: Record<string, number | DirEntry>): Uint8Array {
+	const entries = Object.entries(listing)
+		.map(([name, entry]) => ({ name: encodeUTF8(name), ...(typeof entry == 'number' ? { ino: entry, type: 0 } : entry) }))
+		.sort((a, b) => compareNames(a.name, b.name));
+
+	const data = new Uint8Array(entries.reduce((size, entry) => size + dirEntrySize + entry.name.byteLength, dirListingHeaderSize));
+	const view = new DataView(data.buffer);
+
+	view.setUint32(0, dirListingMagic, true);
+	view.setUint16(4, dirListingVersion, true);
+	view.setUint32(8, entries.length, true);
+
+	let offset = dirListingHeaderSize;
+	for (const { name, ino, type } of entries) {
+		if (name.byteLength > 0xffff) throw new ErrnoError(Errno.ENAMETOOLONG, 'Directory entry name is too long');
+		view.setBigUint64(offset, BigInt(ino), true);
+		view.setUint16(offset + 8, type, true);
+		view.setUint16(offset + 10, name.byteLength, true);
+		data.set(name, offset + dirEntrySize);
+		offset += dirEntrySize + name.byteLength;
+	}
+
+	return data;
+}
+
+/**
+ * Adds, replaces, or removes (if `entry` is undefined) a single entry in an encoded directory listing.
+ * The other entries are copied without being decoded, so this is much faster than decoding and encoding the listing.
+ * JSON listings from older versions are converted to the binary format.
+ * @hidden
+ */
+export function updateDirListing(data: Uint8Array, name: string, entry?: DirEntry): Uint8Array {
+	if (data[0] == 0x7b) {
+		const listing = decodeJSONListing(data);
+		if (entry) listing[name] = entry;
+		else delete listing[name];
+		return encodeDirListing(listing);
+	}
+
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+	if (data.byteLength < dirListingHeaderSize || view.getUint32(0, true) != dirListingMagic) {
+		throw new ErrnoError(Errno.EIO, 'Invalid directory listing');
+	}
+
+	const version = view.getUint16(4, true);
+	if (version > dirListingVersion) throw new ErrnoError(Errno.EIO, 'Unsupported directory listing version: ' + version);
+
+	const encoded = encodeUTF8(name);
+	if (encoded.byteLength > 0xffff) throw new ErrnoError(Errno.ENAMETOOLONG, 'Directory entry name is too long');
+
+	const count = view.getUint32(8, true);
+
+	// The range of the existing entry, or where the new entry goes
+	let start: number | undefined, end: number | undefined;
+
+	let offset = dirListingHeaderSize;
+	for (let i = 0; i < count; i++) {
+		if (offset + dirEntrySize > data.byteLength) throw new ErrnoError(Errno.EIO, 'Directory listing is truncated');
+
+		const next = offset + dirEntrySize + view.getUint16(offset + 10, true);
+		if (next > data.byteLength) throw new ErrnoError(Errno.EIO, 'Directory listing is truncated');
+
+		const order = compareNames(data.subarray(offset + dirEntrySize, next), encoded);
+		if (!order) {
+			start = offset;
+			end = next;
+			break;
+		}
+
+		if (order > 0) start ??= offset;
+		offset = next;
+	}
+
+	const exists = end !== undefined;
+	if (!exists && !entry) return data;
+
+	start ??= offset;
+	end ??= start;
+
+	const size = entry ? dirEntrySize + encoded.byteLength : 0;
+	const result = new Uint8Array(data.byteLength - (end - start) + size);
+	result.set(data.subarray(0, start));
+	result.set(data.subarray(end), start + size);
+
+	const resultView = new DataView(result.buffer);
+	resultView.setUint32(8, count + (exists ? 0 : 1) - (entry ? 0 : 1), true);
+
+	if (entry) {
+		resultView.setBigUint64(start, BigInt(entry.ino), true);
+		resultView.setUint16(start + 8, entry.type, true);
+		resultView.setUint16(start + 10, encoded.byteLength, true);
+		result.set(encoded, start + dirEntrySize);
+	}
+
+	return result;
 }
 
 /**
- * Encodes a directory listing
+ * Decodes a directory listing
  * @hidden
  */
-export function encodeDirListing(data: Record<string, number>): Uint8Array {
-	return encodeUTF8(JSON.stringify(data));
+export function decodeDirListing(data: Uint8Array): Record<string, number> {
+	const listing: Record<string, number> = {};
+	for (const [name, { ino }] of Object.entries(decodeDirEntries(data))) listing[name] = ino;
+	return listing;
+}
+
+/**
+ * Compression formats supported by `CompressionStream` and `DecompressionStream`
+ * @internal
+ */
+export type CompressionFormat = 'gzip' | 'deflate' | 'deflate-raw';
+
+async function _transform(data: Uint8Array, transform: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+	const writer = transform.writable.getWriter();
+	const reader = transform.readable.getReader();
+
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+
+	await Promise.all([
+		writer.write(data).then(() => writer.close()),
+		(async () => {
+			for (let result = await reader.read(); !result.done; result = await reader.read()) {
+				chunks.push(result.value);
+				size += result.value.byteLength;
+			}
+		})(),
+	]);
+
+	const output = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		output.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return output;
+}
+
+/**
+ * Compresses data using a `CompressionStream`
+ * @internal
+ */
+export async function compress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+	if (typeof CompressionStream != 'function') throw new ErrnoError(Errno.ENOTSUP, 'CompressionStream is not available');
+	return await _transform(data, new CompressionStream(format));
+}
+
+/**
+ * Decompresses data using a `DecompressionStream`
+ * @internal
+ */
+export async function decompress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+	if (typeof DecompressionStream != 'function') throw new ErrnoError(Errno.ENOTSUP, 'DecompressionStream is not available');
+	try {
+		return await _transform(data, new DecompressionStream(format));
+	} catch (e) {
+		throw new ErrnoError(Errno.EIO, 'Failed to decompress data: ' + (e as Error).message);
+	}
+}
+
+/**
+ * Reads an entire file from a file system, e.g. an archive to mount
+ * @internal
+ */
+export async function readArchive(fs: FileSystem, path: string): Promise<Uint8Array> {
+	const { size } = await fs.stat(path);
+	const data = new Uint8Array(size);
+	await fs.read(path, data, 0, size);
+	return data;
 }
 
 export type Callback<Args extends unknown[] = [], NoError = undefined | void> = (e: ErrnoError | NoError, ...args: OptionalTuple<Args>) => unknown;
@@ -111,12 +369,15 @@ export function normalizeMode(mode: unknown, def?: number): number {
 }
 
 /**
- * Normalizes a time
+ * Normalizes a time.
+ * Numbers are in milliseconds and bigints are in nanoseconds.
  * @internal
  */
-export function normalizeTime(time: string | number | Date): number {
+export function normalizeTime(time: string | number | bigint | Date): number | bigint {
 	if (time instanceof Date) return time.getTime();
 
+	if (typeof time == 'bigint') return time;
+
 	try {
 		return Number(time);
 	} catch {
@@ -124,6 +385,38 @@ export function normalizeTime(time: string | number | Date): number {
 	}
 }
 
+const nsPerMs = BigInt(1e6);
+
+/**
+ * Converts a time in milliseconds to nanoseconds
+ * @internal
+ */
+export function msToNs(ms: number): bigint {
+	return BigInt(Math.trunc(ms)) * nsPerMs + BigInt(Math.round((ms % 1) * 1e6));
+}
+
+/**
+ * Converts a time in nanoseconds to milliseconds.
+ * The result may not be exact, since nanosecond timestamps have more precision than a `number`.
+ * @internal
+ */
+export function nsToMs(ns: bigint): number {
+	return Number(ns / nsPerMs) + Number(ns % nsPerMs) / 1e6;
+}
+
+let lastNs = BigInt(0);
+
+/**
+ * The current time in nanoseconds.
+ * This never returns the same value twice, so changes made in quick succession have different timestamps.
+ * @internal
+ */
+export function nowNs(): bigint {
+	const ns = msToNs(performance.timeOrigin + performance.now());
+	lastNs = ns > lastNs ? ns : lastNs + BigInt(1);
+	return lastNs;
+}
+
 /**
  * Normalizes a path
  * @internal
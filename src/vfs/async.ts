@@ -2,14 +2,14 @@ import type * as fs from 'node:fs';
 import type { V_Context } from '../context.js';
 import type { Callback } from '../utils.js';
 import type { Dir, Dirent } from './dir.js';
-import type { FileContents, GlobOptionsU } from './types.js';
+import type { FileContents, GlobOptionsU, RangeLock } from './types.js';
 
 import { Buffer } from 'buffer';
 import { Errno, ErrnoError } from '../internal/error.js';
 import { normalizeMode, normalizePath } from '../utils.js';
-import { R_OK } from './constants.js';
+import { F_GETLK, F_SETLK, F_SETLKW, F_UNLCK, R_OK } from './constants.js';
 import * as promises from './promises.js';
-import { fd2file, fdMap } from './shared.js';
+import { _fileLock, _flock, _releaseLocks, fd2file, fdMap } from './shared.js';
 import { BigIntStats, Stats } from './stats.js';
 import { ReadStream, WriteStream, type ReadStreamOptions, type WriteStreamOptions } from './streams.js';
 import { FSWatcher, StatWatcher } from './watchers.js';
@@ -270,7 +270,8 @@ export function fstat(
 fstat satisfies Omit<typeof fs.fstat, '__promisify__'>;
 
 export function close(this: V_Context, fd: number, cb: Callback = nop): void {
-	const close = fd2file(fd).close();
+	const file = fd2file(fd);
+	const close = _releaseLocks(file).then(() => file.close());
 	fdMap.delete(fd);
 	close.then(() => cb()).catch(cb);
 }
@@ -281,11 +282,11 @@ export function ftruncate(this: V_Context, fd: number, len?: number, cb?: Callba
 export function ftruncate(this: V_Context, fd: number, lenOrCB?: number | Callback, cb: Callback = nop): void {
 	const length = typeof lenOrCB === 'number' ? lenOrCB : 0;
 	cb = typeof lenOrCB === 'function' ? lenOrCB : cb;
-	const file = fd2file(fd);
 	if (length < 0) {
 		throw new ErrnoError(Errno.EINVAL);
 	}
-	file.truncate(length)
+	new promises.FileHandle(fd, this)
+		.truncate(length)
 		.then(() => cb())
 		.catch(cb);
 }
@@ -307,6 +308,48 @@ export function fdatasync(this: V_Context, fd: number, cb: Callback = nop): void
 }
 fdatasync satisfies Omit<typeof fs.fdatasync, '__promisify__'>;
 
+/**
+ * Takes or removes an advisory lock on an entire file, like flock(2).
+ * @param operation `LOCK_SH`, `LOCK_EX`, or `LOCK_UN`, optionally with `LOCK_NB`
+ */
+export function flock(this: V_Context, fd: number, operation: number, cb: Callback = nop): void {
+	const file = fd2file(fd);
+	const { lock, wait } = _flock(file, operation);
+	file.fs
+		.setLock(file.path, lock, wait)
+		.then(() => cb())
+		.catch(cb);
+}
+
+/**
+ * Gets, takes, or removes an advisory byte-range lock, like fcntl(2).
+ * For `F_GETLK`, passes the first lock that conflicts with `lock`, or a lock with a type of `F_UNLCK` if there is none.
+ * Like Linux's open file description locks, locks are released when the file is closed.
+ */
+export function fcntl(this: V_Context, fd: number, cmd: typeof F_GETLK, lock: RangeLock, cb: Callback<[RangeLock]>): void;
+export function fcntl(this: V_Context, fd: number, cmd: typeof F_SETLK | typeof F_SETLKW, lock: RangeLock, cb?: Callback): void;
+export function fcntl(this: V_Context, fd: number, cmd: number, { type, start = 0, length = 0 }: RangeLock, cb: Callback<[RangeLock]> = nop): void {
+	const file = fd2file(fd);
+	const lock = _fileLock(file, 'posix', type, start, length);
+	switch (cmd) {
+		case F_GETLK:
+			file.fs
+				.getLock(file.path, lock)
+				.then(held => cb(undefined, held ? { type: held.type, start: held.start, length: held.length } : { type: F_UNLCK, start, length }))
+				.catch(cb);
+			return;
+		case F_SETLK:
+		case F_SETLKW:
+			file.fs
+				.setLock(file.path, lock, cmd == F_SETLKW)
+				.then(() => cb())
+				.catch(cb);
+			return;
+		default:
+			cb(ErrnoError.With('EINVAL', file.path, 'fcntl'));
+	}
+}
+
 /**
  * Write buffer to the file specified by `fd`.
  * Note that it is unsafe to use fs.write multiple times on the same file without waiting for the callback.
@@ -439,7 +482,7 @@ fchmod satisfies Omit<typeof fs.fchmod, '__promisify__'>;
 /**
  * Change the file timestamps of a file referenced by the supplied file descriptor.
  */
-export function futimes(this: V_Context, fd: number, atime: number | Date, mtime: number | Date, cb: Callback = nop): void {
+export function futimes(this: V_Context, fd: number, atime: number | bigint | Date, mtime: number | bigint | Date, cb: Callback = nop): void {
 	new promises.FileHandle(fd, this)
 		.utimes(atime, mtime)
 		.then(() => cb())
@@ -570,7 +613,7 @@ lchmod satisfies Omit<typeof fs.lchmod, '__promisify__'>;
 /**
  * Change file timestamps of the file referenced by the supplied path.
  */
-export function utimes(this: V_Context, path: fs.PathLike, atime: number | Date, mtime: number | Date, cb: Callback = nop): void {
+export function utimes(this: V_Context, path: fs.PathLike, atime: number | bigint | Date, mtime: number | bigint | Date, cb: Callback = nop): void {
 	promises.utimes
 		.call(this, path, atime, mtime)
 		.then(() => cb())
@@ -581,7 +624,7 @@ utimes satisfies Omit<typeof fs.utimes, '__promisify__'>;
 /**
  * Change file timestamps of the file referenced by the supplied path.
  */
-export function lutimes(this: V_Context, path: fs.PathLike, atime: number | Date, mtime: number | Date, cb: Callback = nop): void {
+export function lutimes(this: V_Context, path: fs.PathLike, atime: number | bigint | Date, mtime: number | bigint | Date, cb: Callback = nop): void {
 	promises.lutimes
 		.call(this, path, atime, mtime)
 		.then(() => cb())
@@ -619,9 +662,10 @@ access satisfies Omit<typeof fs.access, '__promisify__'>;
 const statWatchers: Map<string, { watcher: StatWatcher; listeners: Set<(curr: Stats, prev: Stats) => void> }> = new Map();
 
 /**
- * Watch for changes on a file. The callback listener will be called each time the file is accessed.
+ * Watch for changes on a file. The callback listener will be called each time the file's stats change.
  *
  * The `options` argument may be omitted. If provided, it should be an object with a `persistent` boolean and an `interval` number specifying the polling interval in milliseconds.
+ * Changes are detected as they are reported by the file system, so polling is only used for file systems that only support async operations.
  *
  * When a change is detected, the `listener` callback is called with the current and previous `Stats` objects.
  *
@@ -671,7 +715,7 @@ export function watchFile(
 			listener(curr, prev);
 		}
 	});
-	statWatchers.set(normalizedPath, { watcher, listeners: new Set() });
+	statWatchers.set(normalizedPath, { watcher, listeners: new Set([listener]) });
 }
 watchFile satisfies Omit<typeof fs.watchFile, '__promisify__'>;
 
@@ -708,16 +752,20 @@ export function watch(this: V_Context, path: fs.PathLike, listener?: (event: str
 export function watch(
 	this: V_Context,
 	path: fs.PathLike,
-	options: { persistent?: boolean },
+	options: fs.WatchOptions | BufferEncoding,
 	listener?: (event: string, filename: string) => any
 ): FSWatcher;
 export function watch(
 	this: V_Context,
 	path: fs.PathLike,
-	options?: fs.WatchOptions | ((event: string, filename: string) => any),
+	options?: fs.WatchOptions | BufferEncoding | ((event: string, filename: string) => any),
 	listener?: (event: string, filename: string) => any
 ): FSWatcher {
-	const watcher = new FSWatcher<string>(this, normalizePath(path), typeof options == 'object' ? options : {});
+	const watcher = new FSWatcher<string>(
+		this,
+		normalizePath(path),
+		typeof options == 'object' ? options : typeof options == 'string' ? { encoding: options } : {}
+	);
 	listener = typeof options == 'function' ? options : listener;
 	watcher.on('change', listener || nop);
 	return watcher;
@@ -169,6 +169,38 @@ export const S_IWOTH = 2;
 /** File mode indicating executable by others. */
 export const S_IXOTH = 1;
 
+// Advisory Lock Constants
+
+/** Constant for flock. Take a shared lock. */
+export const LOCK_SH = 1;
+
+/** Constant for flock. Take an exclusive lock. */
+export const LOCK_EX = 2;
+
+/** Constant for flock. Fail with `EWOULDBLOCK` instead of waiting for a conflicting lock to be released. */
+export const LOCK_NB = 4;
+
+/** Constant for flock. Remove a lock. */
+export const LOCK_UN = 8;
+
+/** Constant for fcntl. Get the first lock that would prevent taking a lock. */
+export const F_GETLK = 5;
+
+/** Constant for fcntl. Take or remove a lock, failing with `EWOULDBLOCK` if a conflicting lock is held. */
+export const F_SETLK = 6;
+
+/** Constant for fcntl. Take or remove a lock, waiting for conflicting locks to be released. */
+export const F_SETLKW = 7;
+
+/** Lock type indicating a shared (read) lock. */
+export const F_RDLCK = 0;
+
+/** Lock type indicating an exclusive (write) lock. */
+export const F_WRLCK = 1;
+
+/** Lock type indicating no lock, used to remove a lock. */
+export const F_UNLCK = 2;
+
 /**
  * When set, a memory file mapping is used to access the file.
  * This flag is ignored since a unix-like FS is emulated
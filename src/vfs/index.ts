@@ -21,3 +21,5 @@ export {
 } from './shared.js';
 export * from './streams.js';
 export * from './sync.js';
+export type { LockOptions, RangeLock, WatchOptions } from './types.js';
+export * as xattr from './xattr.js';
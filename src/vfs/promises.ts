@@ -7,24 +7,37 @@ import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
 import type { V_Context } from '../context.js';
 import type { File } from '../internal/file.js';
 import type { ResolvedPath } from './shared.js';
-import type { FileContents, GlobOptionsU, NullEnc, OpenOptions, ReaddirOptions, ReaddirOptsI, ReaddirOptsU } from './types.js';
+import type {
+	FileContents,
+	GlobOptionsU,
+	LockOptions,
+	NullEnc,
+	OpenOptions,
+	ReaddirOptions,
+	ReaddirOptsI,
+	ReaddirOptsU,
+	WatchOptions,
+} from './types.js';
 
 import { Buffer } from 'buffer';
 import { _throw } from 'utilium';
 import { credentials } from '../internal/credentials.js';
 import { Errno, ErrnoError } from '../internal/error.js';
 import { flagToMode, isAppendable, isExclusive, isReadable, isTruncating, isWriteable, parseFlag } from '../internal/file.js';
+import { warn } from '../internal/log.js';
 import '../polyfills.js';
 import { decodeUTF8, normalizeMode, normalizeOptions, normalizePath, normalizeTime } from '../utils.js';
 import { config } from './config.js';
 import * as constants from './constants.js';
 import { Dir, Dirent } from './dir.js';
 import { dirname, join, parse, resolve } from './path.js';
-import { _statfs, fd2file, fdMap, file2fd, fixError, resolveMount } from './shared.js';
+import { Interface } from './readline.js';
+import { _fileLock, _releaseLocks, _statfs, fd2file, fdMap, file2fd, fixError, resolveMount } from './shared.js';
 import { BigIntStats, Stats } from './stats.js';
 import { ReadStream, WriteStream } from './streams.js';
-import { FSWatcher, emitChange } from './watchers.js';
+import { FSWatcher, emitChange, emitRename } from './watchers.js';
 export * as constants from './constants.js';
+export * as xattr from './xattr_promises.js';
 
 export class FileHandle implements promises.FileHandle {
 	/**
@@ -97,10 +110,10 @@ export class FileHandle implements promises.FileHandle {
 
 	/**
 	 * Asynchronously change file timestamps of the file.
-	 * @param atime The last access time. If a string is provided, it will be coerced to number.
-	 * @param mtime The last modified time. If a string is provided, it will be coerced to number.
+	 * @param atime The last access time. If a string is provided, it will be coerced to number. Bigints are in nanoseconds.
+	 * @param mtime The last modified time. If a string is provided, it will be coerced to number. Bigints are in nanoseconds.
 	 */
-	public async utimes(atime: string | number | Date, mtime: string | number | Date): Promise<void> {
+	public async utimes(atime: string | number | bigint | Date, mtime: string | number | bigint | Date): Promise<void> {
 		await this.file.utimes(normalizeTime(atime), normalizeTime(mtime));
 		this._emitChange();
 	}
@@ -205,10 +218,13 @@ export class FileHandle implements promises.FileHandle {
 	}
 
 	/**
-	 * @todo Implement
+	 * Reads the lines of the file, which can be iterated over with `for await` or listened to with the `line` event.
+	 * Lines can end with `\n`, `\r\n`, or `\r`, which are not included in the lines.
+	 * The handle will not be closed automatically.
 	 */
-	public readLines(options?: promises.CreateReadStreamOptions): ReadlineInterface {
-		throw ErrnoError.With('ENOSYS', this.file.path, 'FileHandle.readLines');
+	public readLines(options: promises.CreateReadStreamOptions = {}): ReadlineInterface {
+		const stream = this.file.streamRead({ start: options.start, end: options.end });
+		return new Interface(stream, options.encoding ?? 'utf8');
 	}
 
 	public [Symbol.asyncDispose](): Promise<void> {
@@ -291,10 +307,38 @@ export class FileHandle implements promises.FileHandle {
 	 * Asynchronous close(2) - close a `FileHandle`.
 	 */
 	public async close(): Promise<void> {
+		await _releaseLocks(this.file);
 		await this.file.close();
 		fdMap.delete(this.fd);
 	}
 
+	/**
+	 * Takes an advisory lock on the file, waiting for conflicting locks to be released unless `nonBlocking` is set.
+	 * By default the entire file is locked, like flock(2).
+	 * If `start` or `length` are set, a byte-range lock is used instead, like fcntl(2).
+	 * Locks are released when the file is closed.
+	 */
+	public async lock(options: LockOptions = {}): Promise<void> {
+		const lock = _fileLock(
+			fd2file(this.fd),
+			options.start === undefined && options.length === undefined ? 'flock' : 'posix',
+			options.shared ? constants.F_RDLCK : constants.F_WRLCK,
+			options.start,
+			options.length
+		);
+		await this.file.fs.setLock(this.file.path, lock, !options.nonBlocking);
+	}
+
+	/**
+	 * Removes an advisory lock taken with `lock`.
+	 * If `start` or `length` are set, only that range of a byte-range lock is removed.
+	 */
+	public async unlock(options: Pick<LockOptions, 'start' | 'length'> = {}): Promise<void> {
+		const kind = options.start === undefined && options.length === undefined ? 'flock' : 'posix';
+		const lock = _fileLock(fd2file(this.fd), kind, constants.F_UNLCK, options.start, options.length);
+		await this.file.fs.setLock(this.file.path, lock, false);
+	}
+
 	/**
 	 * Asynchronous `writev`. Writes from multiple buffers.
 	 * @param buffers An array of Uint8Array buffers.
@@ -359,13 +403,13 @@ export async function rename(this: V_Context, oldPath: fs.PathLike, newPath: fs.
 	try {
 		if (src.mountPoint == dst.mountPoint) {
 			await src.fs.rename(src.path, dst.path);
-			emitChange(this, 'rename', oldPath.toString());
-			emitChange(this, 'change', newPath.toString());
+			emitRename(this, oldPath.toString(), newPath.toString());
 			return;
 		}
 		await writeFile.call(this, newPath, await readFile(oldPath));
 		await unlink.call(this, oldPath);
-		emitChange(this, 'rename', oldPath.toString());
+		// Unlinking already emitted the event for the old path
+		emitChange(this, 'rename', newPath.toString());
 	} catch (e) {
 		throw fixError(e as ErrnoError, { [src.path]: oldPath, [dst.path]: newPath });
 	}
@@ -486,6 +530,7 @@ async function _open($: V_Context, path: fs.PathLike, opt: OpenOptions): Promise
 		}
 		const { euid: uid, egid: gid } = $?.credentials ?? credentials;
 		const file = await fs.createFile(resolved, flag, mode, { uid, gid });
+		emitChange($, 'rename', path.toString());
 		await applySetId(file, uid, gid);
 		return new FileHandle(file, $);
 	}
@@ -748,12 +793,14 @@ export async function readdir(
 		throw ErrnoError.With('ENOTDIR', path, 'readdir');
 	}
 
-	const entries = await fs.readdir(resolved).catch((e: ErrnoError) => _throw(fixError(e, { [resolved]: path })));
+	const types = await fs.readdirTypes(resolved).catch((e: ErrnoError) => _throw(fixError(e, { [resolved]: path })));
 
 	const values: (string | Dirent | Buffer)[] = [];
-	const addEntry = async (entry: string) => {
+	const addEntry = async ([entry, type]: [string, number]) => {
 		let entryStats: Stats | undefined;
-		if (options?.recursive || options?.withFileTypes) {
+		// Only the type is needed, so don't stat the entry if the type is already known
+		if (type) entryStats = new Stats({ mode: type });
+		else if (options?.recursive || options?.withFileTypes) {
 			entryStats = await fs
 				.stat(join(resolved, entry))
 				.then(i => new Stats(i))
@@ -785,7 +832,7 @@ export async function readdir(
 			}
 		}
 	};
-	await Promise.all(entries.map(addEntry));
+	await Promise.all(Array.from(types, addEntry));
 
 	return values as string[] | Dirent[];
 }
@@ -904,7 +951,12 @@ lchmod satisfies typeof promises.lchmod;
 /**
  * Change file timestamps of the file referenced by the supplied path.
  */
-export async function utimes(this: V_Context, path: fs.PathLike, atime: string | number | Date, mtime: string | number | Date): Promise<void> {
+export async function utimes(
+	this: V_Context,
+	path: fs.PathLike,
+	atime: string | number | bigint | Date,
+	mtime: string | number | bigint | Date
+): Promise<void> {
 	await using handle = await open.call(this, path, 'r+');
 	await handle.utimes(atime, mtime);
 }
@@ -913,14 +965,19 @@ utimes satisfies typeof promises.utimes;
 /**
  * Change file timestamps of the file referenced by the supplied path.
  */
-export async function lutimes(this: V_Context, path: fs.PathLike, atime: fs.TimeLike, mtime: fs.TimeLike): Promise<void> {
+export async function lutimes(
+	this: V_Context,
+	path: fs.PathLike,
+	atime: string | number | bigint | Date,
+	mtime: string | number | bigint | Date
+): Promise<void> {
 	await using handle: FileHandle = await _open(this, path, {
 		flag: 'r+',
 		mode: 0o644,
 		preserveSymlinks: true,
 		allowDirectory: true,
 	});
-	await handle.utimes(new Date(atime), new Date(mtime));
+	await handle.utimes(atime, mtime);
 }
 lutimes satisfies typeof promises.lutimes;
 
@@ -1005,54 +1062,93 @@ realpath satisfies typeof promises.realpath;
 export function watch(
 	this: V_Context,
 	filename: fs.PathLike,
-	options?: fs.WatchOptions | BufferEncoding
+	options?: WatchOptions | BufferEncoding
 ): AsyncIteratorObject<promises.FileChangeInfo<string>>;
 export function watch(
 	this: V_Context,
 	filename: fs.PathLike,
-	options: fs.WatchOptions | fs.BufferEncodingOption
+	options: WatchOptions | fs.BufferEncodingOption
 ): AsyncIteratorObject<promises.FileChangeInfo<Buffer>>;
 export function watch(
 	this: V_Context,
 	filename: fs.PathLike,
-	options?: fs.WatchOptions | string
+	options?: WatchOptions | string
 ): AsyncIteratorObject<promises.FileChangeInfo<string>> | AsyncIteratorObject<promises.FileChangeInfo<Buffer>>;
 export function watch<T extends string | Buffer>(
 	this: V_Context,
 	filename: fs.PathLike,
-	options: fs.WatchOptions | string = {}
+	options: WatchOptions | string = {}
 ): AsyncIteratorObject<promises.FileChangeInfo<T>> {
-	const watcher = new FSWatcher<T>(
-		this,
-		filename.toString(),
-		typeof options !== 'string' ? options : { encoding: options as BufferEncoding | 'buffer' }
-	);
+	const opts: WatchOptions = typeof options != 'string' ? options : { encoding: options as BufferEncoding | 'buffer' };
+	const { maxQueue = 2048, overflow = 'ignore' } = opts;
+
+	const watcher = new FSWatcher<T>(this, filename.toString(), opts);
 
-	// A queue to hold change events, since we need to resolve them in the async iterator
-	const eventQueue: ((value: IteratorResult<promises.FileChangeInfo<T>>) => void)[] = [];
+	// Events that have not been iterated over yet
+	const events: promises.FileChangeInfo<T>[] = [];
 
-	let done = false;
+	// Calls to `next` waiting for an event
+	const waiting: PromiseWithResolvers<IteratorResult<promises.FileChangeInfo<T>>>[] = [];
+
+	// If the signal was already aborted, the watcher is closed before we can listen for it
+	let done = !!opts.signal?.aborted,
+		error: Error | undefined = opts.signal?.aborted ? (opts.signal.reason as Error) : undefined;
 
 	watcher.on('change', (eventType: promises.FileChangeInfo<T>['eventType'], filename: T) => {
-		eventQueue.shift()?.({ value: { eventType, filename }, done: false });
+		const next = waiting.shift();
+		if (next) {
+			next.resolve({ value: { eventType, filename }, done: false });
+			return;
+		}
+
+		if (events.length < maxQueue) {
+			events.push({ eventType, filename });
+			return;
+		}
+
+		if (overflow == 'ignore') {
+			warn('fs.watch maxQueue exceeded, dropping event for ' + filename.toString());
+			return;
+		}
+
+		error = ErrnoError.With('ENOBUFS', watcher.path, 'watch');
+		watcher.close();
 	});
 
-	function cleanup() {
+	watcher.on('close', () => {
 		done = true;
-		watcher.close();
-		for (const resolve of eventQueue) {
-			resolve({ value: null, done });
+		if (opts.signal?.aborted) error ??= opts.signal.reason as Error;
+
+		for (const next of waiting) {
+			if (error) next.reject(error);
+			else next.resolve({ value: undefined, done });
+			error = undefined;
 		}
-		eventQueue.length = 0; // Clear the queue
-		return Promise.resolve({ value: null, done: true as const });
+		waiting.length = 0;
+	});
+
+	function cleanup() {
+		watcher.close();
+		events.length = 0;
+		error = undefined;
+		return Promise.resolve({ value: undefined, done: true as const });
 	}
 
 	return {
-		async next() {
-			if (done) return Promise.resolve({ value: null, done });
-			const { promise, resolve } = Promise.withResolvers<IteratorResult<promises.FileChangeInfo<T>>>();
-			eventQueue.push(resolve);
-			return promise;
+		next() {
+			if (events.length) return Promise.resolve({ value: events.shift()!, done: false });
+
+			if (error) {
+				const e = error;
+				error = undefined;
+				return Promise.reject(e);
+			}
+
+			if (done) return Promise.resolve({ value: undefined, done });
+
+			const next = Promise.withResolvers<IteratorResult<promises.FileChangeInfo<T>>>();
+			waiting.push(next);
+			return next.promise;
 		},
 		return: cleanup,
 		throw: cleanup,
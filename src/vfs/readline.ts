@@ -0,0 +1,207 @@
+import type { Abortable } from 'node:events';
+import type * as readline from 'node:readline';
+
+import { Buffer } from 'buffer';
+import { EventEmitter } from 'eventemitter3';
+import { ErrnoError } from '../internal/error.js';
+import '../polyfills.js';
+
+/**
+ * Creates a function that decodes chunks of a file, keeping incomplete characters for the next chunk.
+ * Calling it without a chunk flushes anything left over.
+ * @internal @hidden
+ */
+export function _decoder(encoding: BufferEncoding): (chunk?: Uint8Array) => string {
+	switch (encoding) {
+		case 'utf8':
+		case 'utf-8':
+		case 'utf16le':
+		case 'utf-16le':
+		case 'ucs2':
+		case 'ucs-2': {
+			const decoder = new TextDecoder(encoding == 'utf8' || encoding == 'utf-8' ? 'utf-8' : 'utf-16le');
+			return chunk => decoder.decode(chunk, { stream: !!chunk });
+		}
+		default:
+			return chunk => (chunk ? Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength).toString(encoding) : '');
+	}
+}
+
+/**
+ * Splits `text` into lines, returning the lines and the incomplete line at the end.
+ * Lines end with `\n`, `\r\n`, or `\r`.
+ * @param end Whether there is no more text, in which case the last line is complete
+ * @internal @hidden
+ */
+export function _splitLines(text: string, end: boolean): [lines: string[], rest: string] {
+	// A `\r` at the end could be the start of a `\r\n`
+	const held = !end && text.endsWith('\r');
+	const lines = (held ? text.slice(0, -1) : text).split(/\r\n|\n|\r/);
+	const rest = lines.pop()!;
+	if (!end) return [lines, held ? rest + '\r' : rest];
+	if (rest) lines.push(rest);
+	return [lines, ''];
+}
+
+/**
+ * A `readline.Interface` that reads the lines of a file.
+ * Since there is no output, only reading lines is supported.
+ */
+export class Interface extends EventEmitter implements readline.Interface {
+	public readonly terminal = false;
+	public readonly line = '';
+	public readonly cursor = 0;
+
+	/**
+	 * Whether the interface has been closed
+	 */
+	public closed: boolean = false;
+
+	protected reader: ReadableStreamDefaultReader<Uint8Array>;
+	protected decode: (chunk?: Uint8Array) => string;
+	protected rest: string = '';
+	protected paused: boolean = false;
+	protected reading: boolean = false;
+
+	public constructor(input: ReadableStream<Uint8Array>, encoding: BufferEncoding = 'utf8') {
+		super();
+		this.reader = input.getReader();
+		this.decode = _decoder(encoding);
+		void this._read();
+	}
+
+	protected async _read(): Promise<void> {
+		if (this.reading) return;
+		this.reading = true;
+
+		try {
+			while (!this.paused && !this.closed) {
+				const { done, value } = await this.reader.read();
+				const [lines, rest] = _splitLines(this.rest + this.decode(done ? undefined : value), done);
+				this.rest = rest;
+				for (const line of lines) {
+					if (this.closed) break;
+					this.emit('line', line);
+				}
+				if (done) this.close();
+			}
+		} catch (e) {
+			this.emit('error', e);
+			this.close();
+		} finally {
+			this.reading = false;
+		}
+	}
+
+	public pause(): this {
+		if (this.paused || this.closed) return this;
+		this.paused = true;
+		this.emit('pause');
+		return this;
+	}
+
+	public resume(): this {
+		if (!this.paused || this.closed) return this;
+		this.paused = false;
+		this.emit('resume');
+		void this._read();
+		return this;
+	}
+
+	public close(): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.reader.cancel().catch(() => {});
+		this.emit('close');
+	}
+
+	public [Symbol.dispose](): void {
+		this.close();
+	}
+
+	public [Symbol.asyncIterator](): NodeJS.AsyncIterator<string> {
+		const lines: string[] = [];
+		let error: Error | undefined;
+		let changed: PromiseWithResolvers<void> | undefined;
+
+		this.on('line', (line: string) => {
+			lines.push(line);
+			changed?.resolve();
+		});
+		this.on('error', (e: Error) => {
+			error = e;
+			changed?.resolve();
+		});
+		this.on('close', () => changed?.resolve());
+
+		const iterator: NodeJS.AsyncIterator<string> = {
+			next: async () => {
+				while (!lines.length && !error && !this.closed) {
+					changed = Promise.withResolvers();
+					await changed.promise;
+				}
+				if (lines.length) return { value: lines.shift()!, done: false };
+				if (error) throw error;
+				return { value: undefined, done: true };
+			},
+			return: () => {
+				this.close();
+				return Promise.resolve({ value: undefined, done: true });
+			},
+			[Symbol.asyncIterator]() {
+				return iterator;
+			},
+			[Symbol.asyncDispose]: () => {
+				this.close();
+				return Promise.resolve();
+			},
+		};
+		return iterator;
+	}
+
+	/* eslint-disable @typescript-eslint/no-unused-vars */
+	public getPrompt(): string {
+		return '';
+	}
+
+	public setPrompt(prompt: string): void {}
+
+	public prompt(preserveCursor?: boolean): void {}
+
+	public getCursorPos(): readline.CursorPos {
+		return { rows: 0, cols: 0 };
+	}
+
+	public question(query: string, callback: (answer: string) => void): void;
+	public question(query: string, options: Abortable, callback: (answer: string) => void): void;
+	public question(): never {
+		throw ErrnoError.With('ENOTSUP', undefined, 'Interface.question');
+	}
+
+	public write(data: string | Buffer, key?: readline.Key): void;
+	public write(data: undefined | null | string | Buffer, key: readline.Key): void;
+	public write(): never {
+		throw ErrnoError.With('ENOTSUP', undefined, 'Interface.write');
+	}
+	/* eslint-enable @typescript-eslint/no-unused-vars */
+
+	public setMaxListeners(): never {
+		throw ErrnoError.With('ENOSYS', undefined, 'Interface.setMaxListeners');
+	}
+
+	public getMaxListeners(): never {
+		throw ErrnoError.With('ENOSYS', undefined, 'Interface.getMaxListeners');
+	}
+
+	public prependListener(): never {
+		throw ErrnoError.With('ENOSYS', undefined, 'Interface.prependListener');
+	}
+
+	public prependOnceListener(): never {
+		throw ErrnoError.With('ENOSYS', undefined, 'Interface.prependOnceListener');
+	}
+
+	public rawListeners(): never {
+		throw ErrnoError.With('ENOSYS', undefined, 'Interface.rawListeners');
+	}
+}
@@ -3,6 +3,7 @@
 import type * as fs from 'node:fs';
 import type { File } from '../internal/file.js';
 import type { FileSystem } from '../internal/filesystem.js';
+import type { FileLock } from '../internal/locks.js';
 import type { Stats } from './stats.js';
 
 import { InMemory } from '../backends/memory.js';
@@ -10,7 +11,7 @@ import { bindContext, type BoundContext, type V_Context } from '../context.js';
 import { Errno, ErrnoError } from '../internal/error.js';
 import { alert, debug, err, info, log_deprecated, notice, warn } from '../internal/log.js';
 import { normalizePath } from '../utils.js';
-import { size_max } from './constants.js';
+import { F_RDLCK, F_UNLCK, F_WRLCK, LOCK_EX, LOCK_NB, LOCK_SH, LOCK_UN, size_max } from './constants.js';
 import { join, resolve, type AbsolutePath } from './path.js';
 
 // descriptors
@@ -40,6 +41,59 @@ export function fd2file(fd: number): File {
 	return fdMap.get(fd)!;
 }
 
+// advisory locks
+
+/**
+ * The lock owners of open files, which are added when a file first takes a lock.
+ * Like Linux's open file description locks, both kinds of locks belong to the open file rather than the process.
+ */
+const lockOwners: WeakMap<File, string> = new WeakMap();
+
+/**
+ * Creates a lock held by `file`
+ * @internal @hidden
+ */
+export function _fileLock(file: File, kind: FileLock['kind'], type: number, start: number = 0, length: number = 0): FileLock {
+	if (![F_RDLCK, F_WRLCK, F_UNLCK].includes(type) || start < 0 || length < 0) throw ErrnoError.With('EINVAL', file.path, 'lock');
+
+	let owner = lockOwners.get(file);
+	if (!owner) {
+		owner = Math.random().toString(16).slice(2);
+		lockOwners.set(file, owner);
+	}
+
+	return { kind, type, start, length, owner };
+}
+
+/**
+ * Converts an operation for `flock` into a lock
+ * @internal @hidden
+ */
+export function _flock(file: File, operation: number): { lock: FileLock; wait: boolean } {
+	const type = operation & LOCK_UN ? F_UNLCK : operation & LOCK_EX ? F_WRLCK : operation & LOCK_SH ? F_RDLCK : -1;
+	return { lock: _fileLock(file, 'flock', type), wait: !(operation & LOCK_NB) };
+}
+
+/**
+ * Releases the locks held by `file`, which is being closed.
+ * Locks are released by owner since the file may have been renamed or removed while it was open.
+ * @internal @hidden
+ */
+export async function _releaseLocks(file: File): Promise<void> {
+	const owner = lockOwners.get(file);
+	if (owner) await file.fs.releaseLocks(owner);
+}
+
+/**
+ * Releases the locks held by `file`, which is being closed.
+ * Locks are released by owner since the file may have been renamed or removed while it was open.
+ * @internal @hidden
+ */
+export function _releaseLocksSync(file: File): void {
+	const owner = lockOwners.get(file);
+	if (owner) file.fs.releaseLocksSync(owner);
+}
+
 /**
  * @internal @hidden
  */
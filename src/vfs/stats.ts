@@ -3,12 +3,11 @@ import { pick } from 'utilium';
 import type { V_Context } from '../context.js';
 import { credentials } from '../internal/credentials.js';
 import type { InodeFields, InodeLike } from '../internal/inode.js';
-import { _inode_fields } from '../internal/inode.js';
+import { _inode_fields, _resolveNs, type TimeField } from '../internal/inode.js';
 import { log_deprecated } from '../internal/log.js';
+import { nsToMs } from '../utils.js';
 import * as c from './constants.js';
 
-const n1000 = BigInt(1000) as 1000n;
-
 /**
  * Indicates the type of a file. Applied to 'mode'.
  * @deprecated
@@ -64,14 +63,20 @@ export interface StatsLike<T extends number | bigint = number | bigint> {
  * Common code used by both Stats and BigIntStats.
  */
 export abstract class StatsCommon<T extends number | bigint> implements Node.StatsBase<T>, StatsLike {
-	protected abstract _isBigint: T extends bigint ? true : false;
+	/**
+	 * This is an accessor so it can be used while the members are being initialized.
+	 */
+	protected abstract get _isBigint(): T extends bigint ? true : false;
 
 	protected _convert(arg: number | bigint | string | boolean): T {
-		return (this._isBigint ? BigInt(arg) : Number(arg)) as T;
+		if (!this._isBigint) return Number(arg) as T;
+		return BigInt(typeof arg == 'number' ? Math.trunc(arg) : arg) as T;
 	}
 
 	public get blocks(): T {
-		return this._convert(Math.ceil(Number(this.size) / 512));
+		// Sizes can be larger than `Number.MAX_SAFE_INTEGER`, so bigint division is used when possible
+		if (typeof this.size == 'bigint') return this._convert((this.size + BigInt(511)) / BigInt(512));
+		return this._convert(Math.ceil(this.size / 512));
 	}
 
 	public set blocks(value: T) {}
@@ -136,6 +141,7 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 
 	public set atime(value: Date) {
 		this.atimeMs = this._convert(value.getTime());
+		this._atimeNs = undefined;
 	}
 
 	/**
@@ -149,6 +155,7 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 
 	public set mtime(value: Date) {
 		this.mtimeMs = this._convert(value.getTime());
+		this._mtimeNs = undefined;
 	}
 
 	/**
@@ -162,6 +169,7 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 
 	public set ctime(value: Date) {
 		this.ctimeMs = this._convert(value.getTime());
+		this._ctimeNs = undefined;
 	}
 
 	/**
@@ -175,6 +183,7 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 
 	public set birthtime(value: Date) {
 		this.birthtimeMs = this._convert(value.getTime());
+		this._birthtimeNs = undefined;
 	}
 
 	/**
@@ -183,56 +192,82 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 	 */
 	public size: T;
 
+	/* Nanosecond timestamps, which are only used if they match the millisecond timestamps */
+
+	protected _atimeNs?: bigint;
+	protected _mtimeNs?: bigint;
+	protected _ctimeNs?: bigint;
+	protected _birthtimeNs?: bigint;
+
 	public data?: number;
 	public flags?: number;
 
 	/**
 	 * Creates a new stats instance from a stats-like object. Can be used to copy stats (note)
 	 */
-	public constructor({ atimeMs, mtimeMs, ctimeMs, birthtimeMs, uid, gid, size, mode, ino, ...rest }: Partial<InodeLike> = {}) {
+	public constructor({
+		atimeMs,
+		mtimeMs,
+		ctimeMs,
+		birthtimeMs,
+		atimeNs,
+		mtimeNs,
+		ctimeNs,
+		birthtimeNs,
+		uid,
+		gid,
+		size,
+		mode,
+		ino,
+		...rest
+	}: Partial<InodeLike | StatsLike> & Partial<Record<`${TimeField}Ns`, bigint>> = {}) {
 		const now = Date.now();
 		this.atimeMs = this._convert(atimeMs ?? now);
 		this.mtimeMs = this._convert(mtimeMs ?? now);
 		this.ctimeMs = this._convert(ctimeMs ?? now);
 		this.birthtimeMs = this._convert(birthtimeMs ?? now);
+		this._atimeNs = atimeNs;
+		this._mtimeNs = mtimeNs;
+		this._ctimeNs = ctimeNs;
+		this._birthtimeNs = birthtimeNs;
 		this.uid = this._convert(uid ?? 0);
 		this.gid = this._convert(gid ?? 0);
 		this.size = this._convert(size ?? 0);
 		this.ino = this._convert(ino ?? 0);
 		this.mode = this._convert(mode ?? 0o644 & c.S_IFREG);
 
-		if ((this.mode & c.S_IFMT) == 0) {
+		if ((Number(this.mode) & c.S_IFMT) == 0) {
 			this.mode = (this.mode | this._convert(c.S_IFREG)) as T;
 		}
 		Object.assign(this, rest);
 	}
 
 	public isFile(): boolean {
-		return (this.mode & c.S_IFMT) === c.S_IFREG;
+		return (Number(this.mode) & c.S_IFMT) === c.S_IFREG;
 	}
 
 	public isDirectory(): boolean {
-		return (this.mode & c.S_IFMT) === c.S_IFDIR;
+		return (Number(this.mode) & c.S_IFMT) === c.S_IFDIR;
 	}
 
 	public isSymbolicLink(): boolean {
-		return (this.mode & c.S_IFMT) === c.S_IFLNK;
+		return (Number(this.mode) & c.S_IFMT) === c.S_IFLNK;
 	}
 
 	public isSocket(): boolean {
-		return (this.mode & c.S_IFMT) === c.S_IFSOCK;
+		return (Number(this.mode) & c.S_IFMT) === c.S_IFSOCK;
 	}
 
 	public isBlockDevice(): boolean {
-		return (this.mode & c.S_IFMT) === c.S_IFBLK;
+		return (Number(this.mode) & c.S_IFMT) === c.S_IFBLK;
 	}
 
 	public isCharacterDevice(): boolean {
-		return (this.mode & c.S_IFMT) === c.S_IFCHR;
+		return (Number(this.mode) & c.S_IFMT) === c.S_IFCHR;
 	}
 
 	public isFIFO(): boolean {
-		return (this.mode & c.S_IFMT) === c.S_IFIFO;
+		return (Number(this.mode) & c.S_IFMT) === c.S_IFIFO;
 	}
 
 	public toJSON(): StatsLike<T> & InodeFields {
@@ -251,25 +286,26 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 		if (this.isSymbolicLink() || creds.euid === 0 || creds.egid === 0) return true;
 
 		let perm = 0;
+		const fileMode = Number(this.mode);
 
 		// Owner permissions
-		if (creds.uid === this.uid) {
-			if (this.mode & c.S_IRUSR) perm |= c.R_OK;
-			if (this.mode & c.S_IWUSR) perm |= c.W_OK;
-			if (this.mode & c.S_IXUSR) perm |= c.X_OK;
+		if (creds.uid === Number(this.uid)) {
+			if (fileMode & c.S_IRUSR) perm |= c.R_OK;
+			if (fileMode & c.S_IWUSR) perm |= c.W_OK;
+			if (fileMode & c.S_IXUSR) perm |= c.X_OK;
 		}
 
 		// Group permissions
-		if (creds.gid === this.gid || creds.groups.includes(Number(this.gid))) {
-			if (this.mode & c.S_IRGRP) perm |= c.R_OK;
-			if (this.mode & c.S_IWGRP) perm |= c.W_OK;
-			if (this.mode & c.S_IXGRP) perm |= c.X_OK;
+		if (creds.gid === Number(this.gid) || creds.groups.includes(Number(this.gid))) {
+			if (fileMode & c.S_IRGRP) perm |= c.R_OK;
+			if (fileMode & c.S_IWGRP) perm |= c.W_OK;
+			if (fileMode & c.S_IXGRP) perm |= c.X_OK;
 		}
 
 		// Others permissions
-		if (this.mode & c.S_IROTH) perm |= c.R_OK;
-		if (this.mode & c.S_IWOTH) perm |= c.W_OK;
-		if (this.mode & c.S_IXOTH) perm |= c.X_OK;
+		if (fileMode & c.S_IROTH) perm |= c.R_OK;
+		if (fileMode & c.S_IWOTH) perm |= c.W_OK;
+		if (fileMode & c.S_IXOTH) perm |= c.X_OK;
 
 		// Perform the access check
 		return (perm & mode) === mode;
@@ -283,7 +319,7 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 	 */
 	public chmod(mode: number): void {
 		log_deprecated('StatsCommon#chmod');
-		this.mode = this._convert((this.mode & c.S_IFMT) | mode);
+		this.mode = this._convert((Number(this.mode) & c.S_IFMT) | mode);
 	}
 
 	/**
@@ -305,19 +341,39 @@ export abstract class StatsCommon<T extends number | bigint> implements Node.Sta
 	/* node:coverage enable */
 
 	public get atimeNs(): bigint {
-		return BigInt(this.atimeMs) * n1000;
+		return _resolveNs(Number(this.atimeMs), this._atimeNs);
+	}
+
+	public set atimeNs(value: bigint) {
+		this._atimeNs = value;
+		this.atimeMs = this._convert(nsToMs(value));
 	}
 
 	public get mtimeNs(): bigint {
-		return BigInt(this.mtimeMs) * n1000;
+		return _resolveNs(Number(this.mtimeMs), this._mtimeNs);
+	}
+
+	public set mtimeNs(value: bigint) {
+		this._mtimeNs = value;
+		this.mtimeMs = this._convert(nsToMs(value));
 	}
 
 	public get ctimeNs(): bigint {
-		return BigInt(this.ctimeMs) * n1000;
+		return _resolveNs(Number(this.ctimeMs), this._ctimeNs);
+	}
+
+	public set ctimeNs(value: bigint) {
+		this._ctimeNs = value;
+		this.ctimeMs = this._convert(nsToMs(value));
 	}
 
 	public get birthtimeNs(): bigint {
-		return BigInt(this.birthtimeMs) * n1000;
+		return _resolveNs(Number(this.birthtimeMs), this._birthtimeNs);
+	}
+
+	public set birthtimeNs(value: bigint) {
+		this._birthtimeNs = value;
+		this.birthtimeMs = this._convert(nsToMs(value));
 	}
 }
 
@@ -341,7 +397,9 @@ export function _chown(stats: Partial<StatsLike<number>>, uid: number, gid: numb
  * @see http://man7.org/linux/man-pages/man2/stat.2.html
  */
 export class Stats extends StatsCommon<number> implements Node.Stats, StatsLike {
-	protected _isBigint = false as const;
+	protected get _isBigint(): false {
+		return false;
+	}
 }
 Stats satisfies typeof Node.Stats;
 
@@ -349,7 +407,9 @@ Stats satisfies typeof Node.Stats;
  * Stats with bigint
  */
 export class BigIntStats extends StatsCommon<bigint> implements Node.BigIntStats, StatsLike {
-	protected _isBigint = true as const;
+	protected get _isBigint(): true {
+		return true;
+	}
 }
 
 /**
@@ -2,7 +2,7 @@ import type * as fs from 'node:fs';
 import type { V_Context } from '../context.js';
 import type { File } from '../internal/file.js';
 import { Stats } from './stats.js';
-import type { FileContents, GlobOptionsU, NullEnc, OpenOptions, ReaddirOptions, ReaddirOptsI, ReaddirOptsU } from './types.js';
+import type { FileContents, GlobOptionsU, NullEnc, OpenOptions, RangeLock, ReaddirOptions, ReaddirOptsI, ReaddirOptsU } from './types.js';
 import type { ResolvedPath } from './shared.js';
 
 import { Buffer } from 'buffer';
@@ -15,8 +15,9 @@ import { config } from './config.js';
 import * as constants from './constants.js';
 import { Dir, Dirent } from './dir.js';
 import { dirname, join, parse, resolve } from './path.js';
-import { _statfs, fd2file, fdMap, file2fd, fixError, resolveMount } from './shared.js';
-import { emitChange } from './watchers.js';
+import { _decoder, _splitLines } from './readline.js';
+import { _fileLock, _flock, _releaseLocksSync, _statfs, fd2file, fdMap, file2fd, fixError, resolveMount } from './shared.js';
+import { emitChange, emitRename } from './watchers.js';
 
 export function renameSync(this: V_Context, oldPath: fs.PathLike, newPath: fs.PathLike): void {
 	oldPath = normalizePath(oldPath);
@@ -27,16 +28,16 @@ export function renameSync(this: V_Context, oldPath: fs.PathLike, newPath: fs.Pa
 		throw ErrnoError.With('EACCES', oldPath, 'rename');
 	}
 	try {
-		if (oldMount === newMount) {
+		if (oldMount.mountPoint == newMount.mountPoint) {
 			oldMount.fs.renameSync(oldMount.path, newMount.path);
-			emitChange(this, 'rename', oldPath.toString());
-			emitChange(this, 'change', newPath.toString());
+			emitRename(this, oldPath.toString(), newPath.toString());
 			return;
 		}
 
 		writeFileSync.call(this, newPath, readFileSync(oldPath));
 		unlinkSync.call(this, oldPath);
-		emitChange(this, 'rename', oldPath.toString());
+		// Unlinking already emitted the event for the old path
+		emitChange(this, 'rename', newPath.toString());
 	} catch (e) {
 		throw fixError(e as ErrnoError, { [oldMount.path]: oldPath, [newMount.path]: newPath });
 	}
@@ -104,6 +105,7 @@ export function truncateSync(this: V_Context, path: fs.PathLike, len: number | n
 		throw new ErrnoError(Errno.EINVAL);
 	}
 	file.truncateSync(len);
+	emitChange(this, 'change', path.toString());
 }
 truncateSync satisfies typeof fs.truncateSync;
 
@@ -164,6 +166,7 @@ function _openSync(this: V_Context, path: fs.PathLike, opt: OpenOptions): File {
 		}
 		const { euid: uid, egid: gid } = this?.credentials ?? credentials;
 		const file = fs.createFileSync(resolved, flag, mode, { uid, gid });
+		emitChange(this, 'rename', path.toString());
 		if (!opt.allowDirectory && mode & constants.S_IFDIR) throw ErrnoError.With('EISDIR', path, '_open');
 		applySetId(file, uid, gid);
 		return file;
@@ -239,6 +242,35 @@ export function readFileSync(this: V_Context, path: fs.PathOrFileDescriptor, _op
 }
 readFileSync satisfies typeof fs.readFileSync;
 
+/**
+ * Synchronously reads the lines of a file.
+ * Lines can end with `\n`, `\r\n`, or `\r`, which are not included in the lines.
+ * The file is read in chunks as lines are needed, and closed once the generator finishes.
+ * @option encoding Defaults to `'utf8'`.
+ * @option start The position in the file to start reading from
+ * @option end The position in the file to stop reading at
+ */
+export function* readLinesSync(
+	this: V_Context,
+	path: fs.PathLike,
+	options: { encoding?: BufferEncoding | null; start?: number; end?: number } = {}
+): Generator<string, void, void> {
+	using file = _openSync.call(this, path, { flag: 'r', mode: 0o644 });
+	const decode = _decoder(options.encoding ?? 'utf8');
+	const buffer = new Uint8Array(0x1000);
+	const end = options.end ?? file.statSync().size;
+	let rest = '';
+
+	for (let position = options.start ?? 0, done = false; !done; ) {
+		const bytesRead = position < end ? file.readSync(buffer, 0, Math.min(buffer.length, end - position), position) : 0;
+		position += bytesRead;
+		done = !bytesRead;
+		const [lines, remaining] = _splitLines(rest + decode(done ? undefined : buffer.subarray(0, bytesRead)), done);
+		rest = remaining;
+		yield* lines;
+	}
+}
+
 /**
  * Synchronously writes data to a file, replacing the file if it already exists.
  *
@@ -318,17 +350,28 @@ export function fstatSync(this: V_Context, fd: number, options?: fs.StatOptions)
 fstatSync satisfies typeof fs.fstatSync;
 
 export function closeSync(this: V_Context, fd: number): void {
-	fd2file(fd).closeSync();
+	const file = fd2file(fd);
+	_releaseLocksSync(file);
+	file.closeSync();
 	fdMap.delete(fd);
 }
 closeSync satisfies typeof fs.closeSync;
 
+/**
+ * Emits a change event for an open file, whose path includes the context's root
+ */
+function _emitFileChange($: V_Context, file: File): void {
+	emitChange($, 'change', file.path.slice($?.root?.length ?? 0));
+}
+
 export function ftruncateSync(this: V_Context, fd: number, len: number | null = 0): void {
 	len ||= 0;
 	if (len < 0) {
 		throw new ErrnoError(Errno.EINVAL);
 	}
-	fd2file(fd).truncateSync(len);
+	const file = fd2file(fd);
+	file.truncateSync(len);
+	_emitFileChange(this, file);
 }
 ftruncateSync satisfies typeof fs.ftruncateSync;
 
@@ -342,6 +385,54 @@ export function fdatasyncSync(this: V_Context, fd: number): void {
 }
 fdatasyncSync satisfies typeof fs.fdatasyncSync;
 
+/**
+ * Takes or removes an advisory lock on an entire file, like flock(2).
+ * @param operation `LOCK_SH`, `LOCK_EX`, or `LOCK_UN`, optionally with `LOCK_NB`
+ * Since waiting for the lock to be released would block the thread, fails with `EDEADLK` instead unless `LOCK_NB` is set.
+ */
+export function flockSync(this: V_Context, fd: number, operation: number): void {
+	const file = fd2file(fd);
+	const { lock, wait } = _flock(file, operation);
+	try {
+		file.fs.setLockSync(file.path, lock);
+	} catch (e) {
+		if (wait && (e as ErrnoError).errno == Errno.EWOULDBLOCK) throw ErrnoError.With('EDEADLK', file.path, 'flock');
+		throw e;
+	}
+}
+
+/**
+ * Gets, takes, or removes an advisory byte-range lock, like fcntl(2).
+ * For `F_GETLK`, returns the first lock that conflicts with `lock`, or a lock with a type of `F_UNLCK` if there is none.
+ * Since waiting for the lock to be released would block the thread, `F_SETLKW` fails with `EDEADLK` instead.
+ * Like Linux's open file description locks, locks are released when the file is closed.
+ */
+export function fcntlSync(this: V_Context, fd: number, cmd: typeof constants.F_GETLK, lock: RangeLock): RangeLock;
+export function fcntlSync(this: V_Context, fd: number, cmd: typeof constants.F_SETLK | typeof constants.F_SETLKW, lock: RangeLock): void;
+export function fcntlSync(this: V_Context, fd: number, cmd: number, { type, start = 0, length = 0 }: RangeLock): RangeLock | void {
+	const file = fd2file(fd);
+	const lock = _fileLock(file, 'posix', type, start, length);
+	switch (cmd) {
+		case constants.F_GETLK: {
+			const held = file.fs.getLockSync(file.path, lock);
+			return held ? { type: held.type, start: held.start, length: held.length } : { type: constants.F_UNLCK, start, length };
+		}
+		case constants.F_SETLK:
+			file.fs.setLockSync(file.path, lock);
+			return;
+		case constants.F_SETLKW:
+			try {
+				file.fs.setLockSync(file.path, lock);
+			} catch (e) {
+				if ((e as ErrnoError).errno == Errno.EWOULDBLOCK) throw ErrnoError.With('EDEADLK', file.path, 'fcntl');
+				throw e;
+			}
+			return;
+		default:
+			throw ErrnoError.With('EINVAL', file.path, 'fcntl');
+	}
+}
+
 /**
  * Write buffer to the file specified by `fd`.
  * @param data Uint8Array containing the data to write to the file.
@@ -433,7 +524,9 @@ export function readSync(
 readSync satisfies typeof fs.readSync;
 
 export function fchownSync(this: V_Context, fd: number, uid: number, gid: number): void {
-	fd2file(fd).chownSync(uid, gid);
+	const file = fd2file(fd);
+	file.chownSync(uid, gid);
+	_emitFileChange(this, file);
 }
 fchownSync satisfies typeof fs.fchownSync;
 
@@ -442,15 +535,19 @@ export function fchmodSync(this: V_Context, fd: number, mode: number | string):
 	if (numMode < 0) {
 		throw new ErrnoError(Errno.EINVAL, `Invalid mode.`);
 	}
-	fd2file(fd).chmodSync(numMode);
+	const file = fd2file(fd);
+	file.chmodSync(numMode);
+	_emitFileChange(this, file);
 }
 fchmodSync satisfies typeof fs.fchmodSync;
 
 /**
  * Change the file timestamps of a file referenced by the supplied file descriptor.
  */
-export function futimesSync(this: V_Context, fd: number, atime: string | number | Date, mtime: string | number | Date): void {
-	fd2file(fd).utimesSync(normalizeTime(atime), normalizeTime(mtime));
+export function futimesSync(this: V_Context, fd: number, atime: string | number | bigint | Date, mtime: string | number | bigint | Date): void {
+	const file = fd2file(fd);
+	file.utimesSync(normalizeTime(atime), normalizeTime(mtime));
+	_emitFileChange(this, file);
 }
 futimesSync satisfies typeof fs.futimesSync;
 
@@ -539,7 +636,7 @@ export function readdirSync(
 	options = typeof options === 'object' ? options : { encoding: options };
 	path = normalizePath(path);
 	const { fs, path: resolved } = resolveMount(realpathSync.call(this, path), this);
-	let entries: string[];
+	let types: Map<string, number>;
 	try {
 		const stats = new Stats(fs.statSync(resolved));
 		if (config.checkAccess && !stats.hasAccess(constants.R_OK, this)) {
@@ -548,17 +645,18 @@ export function readdirSync(
 		if (!stats.isDirectory()) {
 			throw ErrnoError.With('ENOTDIR', resolved, 'readdir');
 		}
-		entries = fs.readdirSync(resolved);
+		types = fs.readdirTypesSync(resolved);
 	} catch (e) {
 		throw fixError(e as ErrnoError, { [resolved]: path });
 	}
 
 	// Iterate over entries and handle recursive case if needed
 	const values: (string | Dirent | Buffer)[] = [];
-	for (const entry of entries) {
+	for (const [entry, type] of types) {
 		let entryStat: Stats;
 		try {
-			entryStat = new Stats(fs.statSync(join(resolved, entry)));
+			// Only the type is needed, so don't stat the entry if the type is already known
+			entryStat = new Stats(type ? { mode: type } : fs.statSync(join(resolved, entry)));
 		} catch {
 			continue;
 		}
@@ -686,7 +784,7 @@ lchmodSync satisfies typeof fs.lchmodSync;
 /**
  * Change file timestamps of the file referenced by the supplied path.
  */
-export function utimesSync(this: V_Context, path: fs.PathLike, atime: string | number | Date, mtime: string | number | Date): void {
+export function utimesSync(this: V_Context, path: fs.PathLike, atime: string | number | bigint | Date, mtime: string | number | bigint | Date): void {
 	const fd = openSync.call(this, path, 'r+');
 	futimesSync(fd, atime, mtime);
 	closeSync(fd);
@@ -696,7 +794,12 @@ utimesSync satisfies typeof fs.utimesSync;
 /**
  * Change file timestamps of the file referenced by the supplied path.
  */
-export function lutimesSync(this: V_Context, path: fs.PathLike, atime: string | number | Date, mtime: string | number | Date): void {
+export function lutimesSync(
+	this: V_Context,
+	path: fs.PathLike,
+	atime: string | number | bigint | Date,
+	mtime: string | number | bigint | Date
+): void {
 	const fd = lopenSync.call(this, path, 'r+');
 	futimesSync(fd, atime, mtime);
 	closeSync(fd);
@@ -36,3 +36,68 @@ export type ReaddirOptsI<T> = ReaddirOptions & fs.ObjectEncodingOptions & T;
 
 /** @hidden */
 export type NullEnc = BufferEncoding | null;
+
+/**
+ * A byte-range lock, like `struct flock`
+ */
+export interface RangeLock {
+	/** `F_RDLCK`, `F_WRLCK`, or `F_UNLCK` */
+	type: number;
+
+	/**
+	 * The offset of the first byte to lock
+	 * @default 0
+	 */
+	start?: number;
+
+	/**
+	 * The number of bytes to lock. 0 means until the end of the file.
+	 * @default 0
+	 */
+	length?: number;
+}
+
+/**
+ * Options for `FileHandle.lock`
+ */
+export interface LockOptions {
+	/**
+	 * If set, takes a shared lock instead of an exclusive one
+	 */
+	shared?: boolean;
+
+	/**
+	 * If set, fails with `EWOULDBLOCK` instead of waiting for conflicting locks to be released
+	 */
+	nonBlocking?: boolean;
+
+	/**
+	 * The offset of the first byte to lock.
+	 * If this or `length` is set, a byte-range lock is used instead of locking the entire file.
+	 */
+	start?: number;
+
+	/**
+	 * The number of bytes to lock. 0 means until the end of the file.
+	 * If this or `start` is set, a byte-range lock is used instead of locking the entire file.
+	 */
+	length?: number;
+}
+
+/**
+ * Options for `promises.watch`
+ */
+export interface WatchOptions extends fs.WatchOptions {
+	/**
+	 * The maximum number of events to queue while waiting for them to be iterated over
+	 * @default 2048
+	 */
+	maxQueue?: number;
+
+	/**
+	 * What to do when an event is received and the queue is full.
+	 * `ignore` drops the event, and `throw` fails iteration with `ENOBUFS` once the queued events have been iterated over.
+	 * @default 'ignore'
+	 */
+	overflow?: 'ignore' | 'throw';
+}
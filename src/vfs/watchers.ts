@@ -1,12 +1,16 @@
 import type { EventEmitter as NodeEventEmitter } from 'node:events';
 import type * as fs from 'node:fs';
 import type { V_Context } from '../context.js';
+import type { FileSystem } from '../internal/filesystem.js';
 
+import { Buffer } from 'buffer';
 import { EventEmitter } from 'eventemitter3';
 import { ErrnoError } from '../internal/error.js';
-import { isStatsEqual, type Stats } from './stats.js';
+import { isStatsEqual, Stats } from './stats.js';
 import { normalizePath } from '../utils.js';
 import { basename, dirname, join, relative } from './path.js';
+import { resolveMount } from './shared.js';
+import { stat } from './promises.js';
 import { statSync } from './sync.js';
 
 /**
@@ -80,6 +84,10 @@ export class FSWatcher<T extends string | Buffer = string | Buffer>
 {
 	protected readonly realpath: string;
 
+	protected closed: boolean = false;
+
+	protected readonly onAbort = () => this.close();
+
 	public constructor(
 		context: V_Context,
 		path: string,
@@ -87,12 +95,36 @@ export class FSWatcher<T extends string | Buffer = string | Buffer>
 	) {
 		super(context, path);
 
-		this.realpath = context?.root ? join(context.root, path) : path;
+		this.realpath = normalizePath(context?.root ? join(context.root, path) : path);
 
 		addWatcher(this.realpath, this);
+
+		if (options.signal?.aborted) this.close();
+		else options.signal?.addEventListener('abort', this.onAbort, { once: true });
+	}
+
+	/**
+	 * Emits a change to `filename` if this watcher is watching it.
+	 * Changes to files nested more than one level deeper than the watched path are only emitted if watching recursively.
+	 * @internal
+	 */
+	_change(eventType: fs.WatchEventType, filename: string): void {
+		if (filename != this.realpath && dirname(filename) != this.realpath && !this.options.recursive) return;
+
+		const name = relative(this.realpath, filename) || basename(filename);
+		const { encoding = 'utf8' } = this.options;
+
+		this.emit(
+			'change',
+			eventType,
+			(encoding == 'buffer' ? Buffer.from(name) : encoding == 'utf8' || encoding == 'utf-8' ? name : Buffer.from(name).toString(encoding)) as T
+		);
 	}
 
 	public close(): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.options.signal?.removeEventListener('abort', this.onAbort);
 		super.emit('close');
 		removeWatcher(this.realpath, this);
 	}
@@ -102,10 +134,68 @@ export class FSWatcher<T extends string | Buffer = string | Buffer>
 	}
 }
 
+interface Poller {
+	watchers: Set<StatWatcher>;
+	timer: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Stat watchers that are polling, grouped by interval so each group shares a timer
+ */
+const pollers: Map<number, Poller> = new Map();
+
+/**
+ * Only keeps the process running if one of the watchers is persistent
+ */
+function updateRef(poller: Poller) {
+	if (typeof poller.timer != 'object') return;
+	const persistent = [...poller.watchers].some(watcher => watcher.options.persistent);
+	if (persistent) poller.timer.ref();
+	else poller.timer.unref();
+}
+
+function startPolling(watcher: StatWatcher, interval: number) {
+	const poller = pollers.get(interval);
+	if (poller) {
+		poller.watchers.add(watcher);
+		updateRef(poller);
+		return;
+	}
+
+	const watchers = new Set([watcher]);
+	const timer = setInterval(() => {
+		for (const watcher of watchers) void watcher._check();
+	}, interval);
+	pollers.set(interval, { watchers, timer });
+	updateRef(pollers.get(interval)!);
+}
+
+function stopPolling(watcher: StatWatcher, interval: number) {
+	const poller = pollers.get(interval);
+	if (!poller?.watchers.delete(watcher)) return;
+
+	if (poller.watchers.size) {
+		updateRef(poller);
+		return;
+	}
+
+	clearInterval(poller.timer);
+	pollers.delete(interval);
+}
+
+/**
+ * The stats used for files that don't exist, like Node.js does
+ */
+function _emptyStats(): Stats {
+	return new Stats({ atimeMs: 0, mtimeMs: 0, ctimeMs: 0, birthtimeMs: 0, mode: 0 });
+}
+
 /**
  * Watches for changes to a file's stats.
  *
  * Instances of `StatWatcher` are used by `fs.watchFile()` to monitor changes to a file's statistics.
+ * The stats are checked whenever the file system reports a change to the file.
+ * Since file systems that only support async operations usually can't report every change, they are also polled every `interval`.
  */
 export class StatWatcher
 	extends Watcher<{
@@ -115,51 +205,86 @@ export class StatWatcher
 	}>
 	implements fs.StatWatcher
 {
-	private intervalId?: NodeJS.Timeout | number;
 	private previous?: Stats;
 
+	/** Used to receive change events for the file */
+	private watcher: FSWatcher;
+
+	/** Whether the file is being polled */
+	private polling: boolean = false;
+
+	/** The current check, so checks happen in order */
+	private checking: Promise<void> = Promise.resolve();
+
 	public constructor(
 		context: V_Context,
 		path: string,
-		private options: { persistent?: boolean; interval?: number }
+		public readonly options: { persistent?: boolean; interval?: number }
 	) {
 		super(context, path);
+		this.watcher = new FSWatcher(context, path, {});
+		this.watcher.on('change', () => void this._check());
 		this.start();
 	}
 
-	protected onInterval() {
+	/**
+	 * Checks if the file's stats have changed
+	 * @internal
+	 */
+	_check(): Promise<void> {
+		this.checking = this.checking.then(async () => {
+			const current = await this.stat();
+			if (!current) return;
+
+			const { previous } = this;
+			this.previous = current;
+
+			if (previous && !isStatsEqual(previous, current)) this.emit('change', current, previous);
+		});
+		return this.checking;
+	}
+
+	protected async stat(): Promise<Stats | undefined> {
 		try {
-			const current = statSync(this.path);
-			if (!isStatsEqual(this.previous!, current)) {
-				this.emit('change', current, this.previous!);
-				this.previous = current;
-			}
+			return await stat.call<V_Context, [string], Promise<Stats>>(this._context, this.path);
 		} catch (e) {
+			if ((e as ErrnoError).code == 'ENOENT') return _emptyStats();
 			this.emit('error', e as Error);
 		}
 	}
 
 	protected start() {
-		const interval = this.options.interval || 5000;
 		try {
-			this.previous = statSync(this.path);
+			this.previous = statSync.call<V_Context, Parameters<fs.StatSyncFn>, Stats>(this._context, this.path);
 		} catch (e) {
-			this.emit('error', e as Error);
-			return;
-		}
-		this.intervalId = setInterval(this.onInterval.bind(this), interval);
-		if (!this.options.persistent && typeof this.intervalId == 'object') {
-			this.intervalId.unref();
+			switch ((e as ErrnoError).code) {
+				case 'ENOENT':
+					this.previous = _emptyStats();
+					return;
+				case 'ENOTSUP':
+					// Async-only file system
+					break;
+				default:
+					this.emit('error', e as Error);
+					return;
+			}
 		}
+
+		if (this.previous) return;
+
+		void this._check();
+		this.polling = true;
+		startPolling(this, this.options.interval || 5000);
 	}
 
 	/**
 	 * @internal
 	 */
 	public stop() {
-		if (this.intervalId) {
-			clearInterval(this.intervalId);
-			this.intervalId = undefined;
+		this.watcher.close();
+		if (this.polling) {
+			stopPolling(this, this.options.interval || 5000);
+			this.polling = false;
 		}
 		this.removeAllListeners();
 	}
@@ -167,16 +292,55 @@ export class StatWatcher
 
 const watchers: Map<string, Set<FSWatcher>> = new Map();
 
+/**
+ * File systems that are being watched for changes made outside of the VFS.
+ * Watching is shared by all of the watchers on a file system, and stops once none are left.
+ */
+const watchedFileSystems: Map<FileSystem, { watchers: Set<FSWatcher>; stop: () => void }> = new Map();
+
+/**
+ * The file system each watcher is using, since the mounts could change while watching
+ */
+const watcherFileSystems: WeakMap<FSWatcher, FileSystem> = new WeakMap();
+
+function watchFileSystem(path: string, watcher: FSWatcher) {
+	const { fs, mountPoint } = resolveMount(path, undefined);
+	watcherFileSystems.set(watcher, fs);
+
+	const watched = watchedFileSystems.get(fs);
+	if (watched) {
+		watched.watchers.add(watcher);
+		return;
+	}
+
+	const stop = fs.watch((eventType, path) => emitChange(undefined, eventType, join(mountPoint, path)));
+	watchedFileSystems.set(fs, { watchers: new Set([watcher]), stop });
+}
+
+function unwatchFileSystem(watcher: FSWatcher) {
+	const fs = watcherFileSystems.get(watcher);
+	const watched = fs && watchedFileSystems.get(fs);
+	if (!watched) return;
+
+	watched.watchers.delete(watcher);
+	if (watched.watchers.size) return;
+
+	watched.stop();
+	watchedFileSystems.delete(fs);
+}
+
 export function addWatcher(path: string, watcher: FSWatcher) {
 	const normalizedPath = normalizePath(path);
 	if (!watchers.has(normalizedPath)) {
 		watchers.set(normalizedPath, new Set());
 	}
 	watchers.get(normalizedPath)!.add(watcher);
+	watchFileSystem(normalizedPath, watcher);
 }
 
 export function removeWatcher(path: string, watcher: FSWatcher) {
 	const normalizedPath = normalizePath(path);
+	unwatchFileSystem(watcher);
 	if (watchers.has(normalizedPath)) {
 		watchers.get(normalizedPath)!.delete(watcher);
 		if (watchers.get(normalizedPath)!.size === 0) {
@@ -193,13 +357,20 @@ export function emitChange(context: V_Context, eventType: fs.WatchEventType, fil
 	filename = normalizePath(filename);
 
 	// Notify watchers, including ones on parent directories if they are watching recursively
-	for (let path = filename; path != '/'; path = dirname(path)) {
-		const watchersForPath = watchers.get(path);
-
-		if (!watchersForPath) continue;
-
-		for (const watcher of watchersForPath) {
-			watcher.emit('change', eventType, relative(path, filename) || basename(filename));
+	for (let path = filename; ; path = dirname(path)) {
+		for (const watcher of watchers.get(path) ?? []) {
+			watcher._change(eventType, filename);
 		}
+
+		if (path == '/') break;
 	}
 }
+
+/**
+ * Emits the pair of `rename` events for a file being moved, first for the old path then for the new one
+ * @internal @hidden
+ */
+export function emitRename(context: V_Context, oldPath: string, newPath: string) {
+	emitChange(context, 'rename', oldPath);
+	emitChange(context, 'rename', newPath);
+}
@@ -0,0 +1,478 @@
+/*
+	Extended attributes.
+	Attributes are stored by file systems as part of a file's metadata (`Inode.attributes`), with values encoded as base64.
+	The asynchronous API is in `xattr_promises.ts`.
+*/
+import type * as fs from 'node:fs';
+import type { JSONPrimitive } from 'utilium';
+import type { V_Context } from '../context.js';
+import type { FileSystem } from '../internal/filesystem.js';
+import type { Attributes } from '../internal/inode.js';
+import type { Callback } from '../utils.js';
+
+import { Buffer } from 'buffer';
+import { credentials } from '../internal/credentials.js';
+import { ErrnoError } from '../internal/error.js';
+import { normalizePath } from '../utils.js';
+import { config } from './config.js';
+import { R_OK, W_OK } from './constants.js';
+import { fd2file, fixError, resolveMount } from './shared.js';
+import { Stats } from './stats.js';
+import { realpathSync } from './sync.js';
+import { emitChange } from './watchers.js';
+import * as promises from './xattr_promises.js';
+
+const nop = () => {};
+
+/**
+ * Namespaces for extended attributes.
+ * - `user` attributes can be used by anyone with access to the file. Only files and directories can have them.
+ * - `trusted` attributes can only be used by root.
+ * - `security` and `system` attributes can be read by anyone, but only changed by root.
+ */
+export type Namespace = 'user' | 'trusted' | 'security' | 'system';
+
+const namespaces: readonly string[] = ['user', 'trusted', 'security', 'system'] satisfies Namespace[];
+
+/**
+ * The maximum length of an attribute name
+ */
+export const name_max = 255;
+
+/**
+ * The maximum size of an attribute value
+ */
+export const size_max = 0x10000;
+
+export interface GetOptions {
+	/**
+	 * The encoding of the returned value.
+	 * @default 'buffer'
+	 */
+	encoding?: BufferEncoding | 'buffer';
+}
+
+export interface SetOptions {
+	/** Fail with `EEXIST` if the attribute already exists */
+	create?: boolean;
+	/** Fail with `ENODATA` if the attribute does not exist */
+	replace?: boolean;
+}
+
+/**
+ * The type of an attribute's value when using `options`
+ */
+export type Value<T extends GetOptions | undefined> = T extends { encoding: BufferEncoding } ? string : Buffer;
+
+/**
+ * A file which extended attributes are being used for
+ * @internal @hidden
+ */
+export interface _Target {
+	fs: FileSystem;
+	/** The path on `fs` */
+	path: string;
+	/** The path used for errors and watchers */
+	original: string;
+}
+
+/**
+ * Checks that `name` is a valid attribute name.
+ * @internal @hidden
+ */
+export function _checkName(name: string, path: string, syscall: string): void {
+	if (!name.length || name.length > name_max) throw ErrnoError.With('ERANGE', path, syscall);
+
+	const dot = name.indexOf('.');
+	if (dot == -1 || dot == name.length - 1 || !namespaces.includes(name.slice(0, dot))) {
+		throw ErrnoError.With('ENOTSUP', path, syscall);
+	}
+}
+
+/**
+ * Checks that the attribute `name` can be used on a file with `stats`.
+ * @param write Whether the attribute is being changed
+ * @internal @hidden
+ */
+export function _checkAccess(context: V_Context, stats: Stats, name: string, write: boolean, path: string, syscall: string): void {
+	const { euid } = context?.credentials ?? credentials;
+
+	switch (name.slice(0, name.indexOf('.')) as Namespace) {
+		case 'trusted':
+			if (euid !== 0) throw ErrnoError.With('EPERM', path, syscall);
+			return;
+		case 'security':
+		case 'system':
+			if (write && euid !== 0) throw ErrnoError.With('EPERM', path, syscall);
+			return;
+		case 'user':
+			if (!stats.isFile() && !stats.isDirectory()) throw ErrnoError.With(write ? 'EPERM' : 'ENODATA', path, syscall);
+			if (config.checkAccess && !stats.hasAccess(write ? W_OK : R_OK, context)) throw ErrnoError.With('EACCES', path, syscall);
+	}
+}
+
+/**
+ * Gets the value of an attribute
+ * @internal @hidden
+ */
+export function _decode(attributes: Attributes, name: string, options: GetOptions = {}, path: string): Buffer | string {
+	if (!(name in attributes)) throw ErrnoError.With('ENODATA', path, 'getxattr');
+
+	const value = Buffer.from(String(attributes[name]), 'base64');
+	return !options.encoding || options.encoding == 'buffer' ? value : value.toString(options.encoding);
+}
+
+/**
+ * Sets the value of an attribute
+ * @returns The new attributes
+ * @internal @hidden
+ */
+export function _encode(attributes: Attributes, name: string, value: string | ArrayBufferView, options: SetOptions = {}, path: string): Attributes {
+	if (options.create && name in attributes) throw ErrnoError.With('EEXIST', path, 'setxattr');
+	if (options.replace && !(name in attributes)) throw ErrnoError.With('ENODATA', path, 'setxattr');
+
+	const data = typeof value == 'string' ? Buffer.from(value) : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+	if (data.byteLength > size_max) throw ErrnoError.With('E2BIG', path, 'setxattr');
+
+	return { ...attributes, [name]: data.toString('base64') satisfies JSONPrimitive };
+}
+
+/**
+ * Gets the names of attributes that are visible to the caller
+ * @internal @hidden
+ */
+export function _list(context: V_Context, attributes: Attributes): string[] {
+	const { euid } = context?.credentials ?? credentials;
+	return Object.keys(attributes).filter(name => euid === 0 || !name.startsWith('trusted.'));
+}
+
+/**
+ * Resolves the file at `path`, following symbolic links if `follow` is set
+ */
+function _resolveSync(context: V_Context, path: fs.PathLike, follow: boolean): _Target {
+	const original = normalizePath(path);
+	const resolved = resolveMount(follow ? realpathSync.call(context, original) : original, context);
+	return { fs: resolved.fs, path: resolved.path, original };
+}
+
+/**
+ * @internal @hidden
+ */
+export function _fdTarget(context: V_Context, fd: number): _Target {
+	const file = fd2file(fd);
+	return { fs: file.fs, path: file.path, original: file.path.slice(context?.root?.length ?? 0) };
+}
+
+function _getSync(context: V_Context, target: _Target, name: string, options?: GetOptions): Buffer | string {
+	try {
+		_checkName(name, target.path, 'getxattr');
+		const stats = new Stats(target.fs.statSync(target.path));
+		_checkAccess(context, stats, name, false, target.path, 'getxattr');
+		return _decode(target.fs.getxattrsSync(target.path), name, options, target.path);
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+}
+
+function _setSync(context: V_Context, target: _Target, name: string, value: string | ArrayBufferView, options?: SetOptions): void {
+	try {
+		_checkName(name, target.path, 'setxattr');
+		const stats = new Stats(target.fs.statSync(target.path));
+		_checkAccess(context, stats, name, true, target.path, 'setxattr');
+		const attributes = target.fs.getxattrsSync(target.path);
+		target.fs.setxattrsSync(target.path, _encode(attributes, name, value, options, target.path));
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+	emitChange(context, 'change', target.original);
+}
+
+function _listSync(context: V_Context, target: _Target): string[] {
+	try {
+		return _list(context, target.fs.getxattrsSync(target.path));
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+}
+
+function _removeSync(context: V_Context, target: _Target, name: string): void {
+	try {
+		_checkName(name, target.path, 'removexattr');
+		const stats = new Stats(target.fs.statSync(target.path));
+		_checkAccess(context, stats, name, true, target.path, 'removexattr');
+		const { [name]: value, ...attributes } = target.fs.getxattrsSync(target.path);
+		if (value === undefined) throw ErrnoError.With('ENODATA', target.path, 'removexattr');
+		target.fs.setxattrsSync(target.path, attributes);
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+	emitChange(context, 'change', target.original);
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file at `path`.
+ */
+export function getSync<T extends GetOptions>(this: V_Context, path: fs.PathLike, name: string, options?: T): Value<T> {
+	return _getSync(this, _resolveSync(this, path, true), name, options) as Value<T>;
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file at `path`, without following symbolic links.
+ */
+export function lgetSync<T extends GetOptions>(this: V_Context, path: fs.PathLike, name: string, options?: T): Value<T> {
+	return _getSync(this, _resolveSync(this, path, false), name, options) as Value<T>;
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file referenced by `fd`.
+ */
+export function fgetSync<T extends GetOptions>(this: V_Context, fd: number, name: string, options?: T): Value<T> {
+	return _getSync(this, _fdTarget(this, fd), name, options) as Value<T>;
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file at `path`.
+ */
+export function setSync(this: V_Context, path: fs.PathLike, name: string, value: string | ArrayBufferView, options?: SetOptions): void {
+	_setSync(this, _resolveSync(this, path, true), name, value, options);
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file at `path`, without following symbolic links.
+ */
+export function lsetSync(this: V_Context, path: fs.PathLike, name: string, value: string | ArrayBufferView, options?: SetOptions): void {
+	_setSync(this, _resolveSync(this, path, false), name, value, options);
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file referenced by `fd`.
+ */
+export function fsetSync(this: V_Context, fd: number, name: string, value: string | ArrayBufferView, options?: SetOptions): void {
+	_setSync(this, _fdTarget(this, fd), name, value, options);
+}
+
+/**
+ * Lists the names of the extended attributes of the file at `path`.
+ */
+export function listSync(this: V_Context, path: fs.PathLike): string[] {
+	return _listSync(this, _resolveSync(this, path, true));
+}
+
+/**
+ * Lists the names of the extended attributes of the file at `path`, without following symbolic links.
+ */
+export function llistSync(this: V_Context, path: fs.PathLike): string[] {
+	return _listSync(this, _resolveSync(this, path, false));
+}
+
+/**
+ * Lists the names of the extended attributes of the file referenced by `fd`.
+ */
+export function flistSync(this: V_Context, fd: number): string[] {
+	return _listSync(this, _fdTarget(this, fd));
+}
+
+/**
+ * Removes the extended attribute `name` from the file at `path`.
+ */
+export function removeSync(this: V_Context, path: fs.PathLike, name: string): void {
+	_removeSync(this, _resolveSync(this, path, true), name);
+}
+
+/**
+ * Removes the extended attribute `name` from the file at `path`, without following symbolic links.
+ */
+export function lremoveSync(this: V_Context, path: fs.PathLike, name: string): void {
+	_removeSync(this, _resolveSync(this, path, false), name);
+}
+
+/**
+ * Removes the extended attribute `name` from the file referenced by `fd`.
+ */
+export function fremoveSync(this: V_Context, fd: number, name: string): void {
+	_removeSync(this, _fdTarget(this, fd), name);
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file at `path`.
+ */
+export function get(this: V_Context, path: fs.PathLike, name: string, callback: Callback<[Buffer]>): void;
+export function get<T extends GetOptions>(this: V_Context, path: fs.PathLike, name: string, options: T, callback: Callback<[Value<T>]>): void;
+export function get(
+	this: V_Context,
+	path: fs.PathLike,
+	name: string,
+	options: GetOptions | Callback<[Buffer]>,
+	callback: Callback<[Buffer | string]> = nop
+): void {
+	callback = typeof options == 'function' ? (options as Callback<[Buffer | string]>) : callback;
+	promises.get
+		.call(this, path, name, typeof options != 'function' ? options : {})
+		.then(value => callback(undefined, value))
+		.catch(callback);
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file at `path`, without following symbolic links.
+ */
+export function lget(this: V_Context, path: fs.PathLike, name: string, callback: Callback<[Buffer]>): void;
+export function lget<T extends GetOptions>(this: V_Context, path: fs.PathLike, name: string, options: T, callback: Callback<[Value<T>]>): void;
+export function lget(
+	this: V_Context,
+	path: fs.PathLike,
+	name: string,
+	options: GetOptions | Callback<[Buffer]>,
+	callback: Callback<[Buffer | string]> = nop
+): void {
+	callback = typeof options == 'function' ? (options as Callback<[Buffer | string]>) : callback;
+	promises.lget
+		.call(this, path, name, typeof options != 'function' ? options : {})
+		.then(value => callback(undefined, value))
+		.catch(callback);
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file referenced by `fd`.
+ */
+export function fget(this: V_Context, fd: number, name: string, callback: Callback<[Buffer]>): void;
+export function fget<T extends GetOptions>(this: V_Context, fd: number, name: string, options: T, callback: Callback<[Value<T>]>): void;
+export function fget(
+	this: V_Context,
+	fd: number,
+	name: string,
+	options: GetOptions | Callback<[Buffer]>,
+	callback: Callback<[Buffer | string]> = nop
+): void {
+	callback = typeof options == 'function' ? (options as Callback<[Buffer | string]>) : callback;
+	promises.fget
+		.call(this, fd, name, typeof options != 'function' ? options : {})
+		.then(value => callback(undefined, value))
+		.catch(callback);
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file at `path`.
+ */
+export function set(this: V_Context, path: fs.PathLike, name: string, value: string | ArrayBufferView, callback: Callback): void;
+export function set(this: V_Context, path: fs.PathLike, name: string, value: string | ArrayBufferView, options: SetOptions, callback: Callback): void;
+export function set(
+	this: V_Context,
+	path: fs.PathLike,
+	name: string,
+	value: string | ArrayBufferView,
+	options: SetOptions | Callback,
+	callback: Callback = nop
+): void {
+	callback = typeof options == 'function' ? options : callback;
+	promises.set
+		.call(this, path, name, value, typeof options != 'function' ? options : {})
+		.then(() => callback())
+		.catch(callback);
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file at `path`, without following symbolic links.
+ */
+export function lset(this: V_Context, path: fs.PathLike, name: string, value: string | ArrayBufferView, callback: Callback): void;
+export function lset(
+	this: V_Context,
+	path: fs.PathLike,
+	name: string,
+	value: string | ArrayBufferView,
+	options: SetOptions,
+	callback: Callback
+): void;
+export function lset(
+	this: V_Context,
+	path: fs.PathLike,
+	name: string,
+	value: string | ArrayBufferView,
+	options: SetOptions | Callback,
+	callback: Callback = nop
+): void {
+	callback = typeof options == 'function' ? options : callback;
+	promises.lset
+		.call(this, path, name, value, typeof options != 'function' ? options : {})
+		.then(() => callback())
+		.catch(callback);
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file referenced by `fd`.
+ */
+export function fset(this: V_Context, fd: number, name: string, value: string | ArrayBufferView, callback: Callback): void;
+export function fset(this: V_Context, fd: number, name: string, value: string | ArrayBufferView, options: SetOptions, callback: Callback): void;
+export function fset(
+	this: V_Context,
+	fd: number,
+	name: string,
+	value: string | ArrayBufferView,
+	options: SetOptions | Callback,
+	callback: Callback = nop
+): void {
+	callback = typeof options == 'function' ? options : callback;
+	promises.fset
+		.call(this, fd, name, value, typeof options != 'function' ? options : {})
+		.then(() => callback())
+		.catch(callback);
+}
+
+/**
+ * Lists the names of the extended attributes of the file at `path`.
+ */
+export function list(this: V_Context, path: fs.PathLike, callback: Callback<[string[]]> = nop): void {
+	promises.list
+		.call(this, path)
+		.then(names => callback(undefined, names))
+		.catch(callback);
+}
+
+/**
+ * Lists the names of the extended attributes of the file at `path`, without following symbolic links.
+ */
+export function llist(this: V_Context, path: fs.PathLike, callback: Callback<[string[]]> = nop): void {
+	promises.llist
+		.call(this, path)
+		.then(names => callback(undefined, names))
+		.catch(callback);
+}
+
+/**
+ * Lists the names of the extended attributes of the file referenced by `fd`.
+ */
+export function flist(this: V_Context, fd: number, callback: Callback<[string[]]> = nop): void {
+	promises.flist
+		.call(this, fd)
+		.then(names => callback(undefined, names))
+		.catch(callback);
+}
+
+/**
+ * Removes the extended attribute `name` from the file at `path`.
+ */
+export function remove(this: V_Context, path: fs.PathLike, name: string, callback: Callback = nop): void {
+	promises.remove
+		.call(this, path, name)
+		.then(() => callback())
+		.catch(callback);
+}
+
+/**
+ * Removes the extended attribute `name` from the file at `path`, without following symbolic links.
+ */
+export function lremove(this: V_Context, path: fs.PathLike, name: string, callback: Callback = nop): void {
+	promises.lremove
+		.call(this, path, name)
+		.then(() => callback())
+		.catch(callback);
+}
+
+/**
+ * Removes the extended attribute `name` from the file referenced by `fd`.
+ */
+export function fremove(this: V_Context, fd: number, name: string, callback: Callback = nop): void {
+	promises.fremove
+		.call(this, fd, name)
+		.then(() => callback())
+		.catch(callback);
+}
@@ -0,0 +1,182 @@
+import type * as fs from 'node:fs';
+import type { V_Context } from '../context.js';
+import type { FileSystem } from '../internal/filesystem.js';
+import type { Attributes } from '../internal/inode.js';
+import type { FileHandle } from './promises.js';
+import type { _Target, GetOptions, SetOptions, Value } from './xattr.js';
+
+import { ErrnoError } from '../internal/error.js';
+import { normalizePath } from '../utils.js';
+import { realpath } from './promises.js';
+import { fixError, resolveMount } from './shared.js';
+import { Stats } from './stats.js';
+import { emitChange } from './watchers.js';
+import { _checkAccess, _checkName, _decode, _encode, _fdTarget, _list } from './xattr.js';
+
+/**
+ * Resolves the file at `path`, following symbolic links if `follow` is set
+ */
+async function _resolve(context: V_Context, path: fs.PathLike, follow: boolean): Promise<_Target> {
+	const original = normalizePath(path);
+	const resolved = resolveMount(follow ? await realpath.call(context, original) : original, context);
+	return { fs: resolved.fs, path: resolved.path, original };
+}
+
+/**
+ * The last pending update to the attributes of each file.
+ * Updates read, change, then write all of a file's attributes, so updates to the same file are run one at a time to avoid losing changes.
+ */
+const _pending = new WeakMap<FileSystem, Map<string, Promise<void>>>();
+
+/**
+ * Changes the attributes of `target` once the pending updates to it are done
+ */
+async function _update(target: _Target, update: (attributes: Attributes) => Attributes): Promise<void> {
+	const pending = _pending.get(target.fs) ?? new Map<string, Promise<void>>();
+	_pending.set(target.fs, pending);
+
+	const run = async () => await target.fs.setxattrs(target.path, update(await target.fs.getxattrs(target.path)));
+	const result = (pending.get(target.path) ?? Promise.resolve()).then(run);
+
+	const done = result.catch(() => {});
+	pending.set(target.path, done);
+	await result.finally(() => {
+		if (pending.get(target.path) === done) pending.delete(target.path);
+	});
+}
+
+async function _get(context: V_Context, target: _Target, name: string, options?: GetOptions): Promise<Buffer | string> {
+	try {
+		_checkName(name, target.path, 'getxattr');
+		const stats = new Stats(await target.fs.stat(target.path));
+		_checkAccess(context, stats, name, false, target.path, 'getxattr');
+		return _decode(await target.fs.getxattrs(target.path), name, options, target.path);
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+}
+
+async function _set(context: V_Context, target: _Target, name: string, value: string | ArrayBufferView, options?: SetOptions): Promise<void> {
+	try {
+		_checkName(name, target.path, 'setxattr');
+		const stats = new Stats(await target.fs.stat(target.path));
+		_checkAccess(context, stats, name, true, target.path, 'setxattr');
+		await _update(target, attributes => _encode(attributes, name, value, options, target.path));
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+	emitChange(context, 'change', target.original);
+}
+
+async function _listAttributes(context: V_Context, target: _Target): Promise<string[]> {
+	try {
+		return _list(context, await target.fs.getxattrs(target.path));
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+}
+
+async function _remove(context: V_Context, target: _Target, name: string): Promise<void> {
+	try {
+		_checkName(name, target.path, 'removexattr');
+		const stats = new Stats(await target.fs.stat(target.path));
+		_checkAccess(context, stats, name, true, target.path, 'removexattr');
+		await _update(target, ({ [name]: value, ...attributes }) => {
+			if (value === undefined) throw ErrnoError.With('ENODATA', target.path, 'removexattr');
+			return attributes;
+		});
+	} catch (e) {
+		throw fixError(e as ErrnoError, { [target.path]: target.original });
+	}
+	emitChange(context, 'change', target.original);
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file at `path`.
+ */
+export async function get<T extends GetOptions>(this: V_Context, path: fs.PathLike, name: string, options?: T): Promise<Value<T>> {
+	return (await _get(this, await _resolve(this, path, true), name, options)) as Value<T>;
+}
+
+/**
+ * Gets the value of the extended attribute `name` of the file at `path`, without following symbolic links.
+ */
+export async function lget<T extends GetOptions>(this: V_Context, path: fs.PathLike, name: string, options?: T): Promise<Value<T>> {
+	return (await _get(this, await _resolve(this, path, false), name, options)) as Value<T>;
+}
+
+/**
+ * Gets the value of the extended attribute `name` of a file.
+ */
+export async function fget<T extends GetOptions>(this: V_Context, handle: number | FileHandle, name: string, options?: T): Promise<Value<T>> {
+	return (await _get(this, _fdTarget(this, typeof handle == 'number' ? handle : handle.fd), name, options)) as Value<T>;
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file at `path`.
+ */
+export async function set(this: V_Context, path: fs.PathLike, name: string, value: string | ArrayBufferView, options?: SetOptions): Promise<void> {
+	await _set(this, await _resolve(this, path, true), name, value, options);
+}
+
+/**
+ * Sets the value of the extended attribute `name` of the file at `path`, without following symbolic links.
+ */
+export async function lset(this: V_Context, path: fs.PathLike, name: string, value: string | ArrayBufferView, options?: SetOptions): Promise<void> {
+	await _set(this, await _resolve(this, path, false), name, value, options);
+}
+
+/**
+ * Sets the value of the extended attribute `name` of a file.
+ */
+export async function fset(
+	this: V_Context,
+	handle: number | FileHandle,
+	name: string,
+	value: string | ArrayBufferView,
+	options?: SetOptions
+): Promise<void> {
+	await _set(this, _fdTarget(this, typeof handle == 'number' ? handle : handle.fd), name, value, options);
+}
+
+/**
+ * Lists the names of the extended attributes of the file at `path`.
+ */
+export async function list(this: V_Context, path: fs.PathLike): Promise<string[]> {
+	return await _listAttributes(this, await _resolve(this, path, true));
+}
+
+/**
+ * Lists the names of the extended attributes of the file at `path`, without following symbolic links.
+ */
+export async function llist(this: V_Context, path: fs.PathLike): Promise<string[]> {
+	return await _listAttributes(this, await _resolve(this, path, false));
+}
+
+/**
+ * Lists the names of the extended attributes of a file.
+ */
+export async function flist(this: V_Context, handle: number | FileHandle): Promise<string[]> {
+	return await _listAttributes(this, _fdTarget(this, typeof handle == 'number' ? handle : handle.fd));
+}
+
+/**
+ * Removes the extended attribute `name` from the file at `path`.
+ */
+export async function remove(this: V_Context, path: fs.PathLike, name: string): Promise<void> {
+	await _remove(this, await _resolve(this, path, true), name);
+}
+
+/**
+ * Removes the extended attribute `name` from the file at `path`, without following symbolic links.
+ */
+export async function lremove(this: V_Context, path: fs.PathLike, name: string): Promise<void> {
+	await _remove(this, await _resolve(this, path, false), name);
+}
+
+/**
+ * Removes the extended attribute `name` from a file.
+ */
+export async function fremove(this: V_Context, handle: number | FileHandle, name: string): Promise<void> {
+	await _remove(this, _fdTarget(this, typeof handle == 'number' ? handle : handle.fd), name);
+}
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { Compressed, configure, fs, InMemory, mounts, resolveMountConfig, type CompressedFS } from '../../dist/index.js';
+
+const inner = await resolveMountConfig({ backend: InMemory });
+
+const text = 'The quick brown fox jumps over the lazy dog. '.repeat(1000);
+
+await suite('Compressed', () => {
+	test('Configuration', async () => {
+		await configure({ mounts: { '/compressed': { backend: Compressed, fs: inner, chunkSize: 1024 } } });
+	});
+
+	test('Read and write', async () => {
+		fs.mkdirSync('/compressed/assets');
+		fs.writeFileSync('/compressed/assets/text.txt', text);
+		assert.equal(fs.readFileSync('/compressed/assets/text.txt', 'utf8'), text);
+
+		await fs.promises.writeFile('/compressed/async.txt', text);
+		assert.equal(await fs.promises.readFile('/compressed/async.txt', 'utf8'), text);
+		assert.deepEqual(fs.readdirSync('/compressed').sort(), ['assets', 'async.txt']);
+	});
+
+	test('Sizes', async () => {
+		await (mounts.get('/compressed') as CompressedFS).queueDone();
+
+		assert.equal(fs.statSync('/compressed/assets/text.txt').size, text.length);
+		assert.equal((await mounts.get('/compressed')!.stat('/assets/text.txt')).size, text.length);
+		assert(inner.statSync('/assets/text.txt').size < text.length / 3);
+	});
+
+	test('Random access', async () => {
+		await using handle = await fs.promises.open('/compressed/async.txt', 'r+');
+
+		const { buffer } = await handle.read(Buffer.alloc(100), 0, 100, 2000);
+		assert.equal(buffer.toString(), text.slice(2000, 2100));
+
+		await handle.write('CHANGED', 2040);
+		await handle.truncate(5000);
+		await handle.sync();
+
+		const compressed = mounts.get('/compressed')!;
+		const data = new Uint8Array(5000);
+		await compressed.read('/async.txt', data, 0, 5000);
+		assert.equal(Buffer.from(data).toString(), text.slice(0, 2040) + 'CHANGED' + text.slice(2047, 5000));
+		assert.equal((await compressed.stat('/async.txt')).size, 5000);
+	});
+
+	test('Incompressible data', async () => {
+		const random = crypto.getRandomValues(new Uint8Array(3000));
+		await fs.promises.writeFile('/compressed/random', random);
+
+		const data = new Uint8Array(1000);
+		await mounts.get('/compressed')!.read('/random', data, 1500, 2500);
+		assert.deepEqual(data, random.subarray(1500, 2500));
+	});
+
+	test('Gaps are filled with zeros', async () => {
+		await fs.promises.writeFile('/compressed/sparse', 'start');
+		await using handle = await fs.promises.open('/compressed/sparse', 'r+');
+		await handle.write('end', 4000);
+
+		const data = new Uint8Array(4003);
+		await mounts.get('/compressed')!.read('/sparse', data, 0, 4003);
+		assert.equal(Buffer.from(data.subarray(0, 5)).toString(), 'start');
+		assert(data.subarray(5, 4000).every(byte => byte == 0));
+		assert.equal(Buffer.from(data.subarray(4000)).toString(), 'end');
+	});
+
+	test('Sync and async locks share one table', async () => {
+		const fd = fs.openSync('/compressed/async.txt', 'r+');
+		await using handle = await fs.promises.open('/compressed/async.txt', 'r+');
+
+		fs.flockSync(fd, fs.constants.LOCK_EX);
+		await assert.rejects(handle.lock({ nonBlocking: true }), { code: 'EAGAIN' });
+
+		fs.closeSync(fd);
+		await handle.lock({ nonBlocking: true });
+		await (mounts.get('/compressed') as CompressedFS).queueDone();
+	});
+});
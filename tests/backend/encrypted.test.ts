@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { configure, Encrypted, fs, InMemory, mounts, resolveMountConfig, SingleBuffer, type EncryptedFS } from '../../dist/index.js';
+
+const buffer = new ArrayBuffer(0x100000);
+
+const text = 'Some very secret text. '.repeat(20);
+
+function contains(buffer: ArrayBuffer, text: string): boolean {
+	return Buffer.from(buffer).includes(text);
+}
+
+await suite('Encrypted', () => {
+	test('Configuration', async () => {
+		await configure({
+			mounts: {
+				'/secrets': {
+					backend: Encrypted,
+					fs: { backend: SingleBuffer, buffer },
+					key: 'passphrase',
+					iterations: 1000,
+					chunkSize: 64,
+					encryptNames: true,
+				},
+			},
+		});
+	});
+
+	test('Read and write', async () => {
+		fs.mkdirSync('/secrets/dir');
+		fs.writeFileSync('/secrets/dir/secret.txt', text);
+		assert.equal(fs.readFileSync('/secrets/dir/secret.txt', 'utf8'), text);
+		assert.equal(fs.statSync('/secrets/dir/secret.txt').size, text.length);
+
+		await fs.promises.writeFile('/secrets/async.txt', 'async');
+		assert.equal(await fs.promises.readFile('/secrets/async.txt', 'utf8'), 'async');
+		assert.deepEqual(fs.readdirSync('/secrets').sort(), ['async.txt', 'dir']);
+	});
+
+	test('Random access', async () => {
+		await using handle = await fs.promises.open('/secrets/dir/secret.txt', 'r+');
+
+		const { buffer } = await handle.read(Buffer.alloc(20), 0, 20, 60);
+		assert.equal(buffer.toString(), text.slice(60, 80));
+
+		await handle.write('CHANGED', 62);
+		await handle.truncate(100);
+		await handle.sync();
+	});
+
+	test('Contents and names are encrypted', async () => {
+		await (mounts.get('/secrets') as EncryptedFS).queueDone();
+
+		const encrypted = mounts.get('/secrets') as EncryptedFS;
+		const expected = text.slice(0, 62) + 'CHANGED' + text.slice(69, 100);
+
+		const data = new Uint8Array(100);
+		await encrypted.read('/dir/secret.txt', data, 0, 100);
+		assert.equal(Buffer.from(data).toString(), expected);
+		assert.equal((await encrypted.stat('/dir/secret.txt')).size, 100);
+
+		assert(!contains(buffer, 'secret'));
+		assert(!contains(buffer, 'async'));
+		assert(!contains(buffer, 'CHANGED'));
+	});
+
+	test('Reopening', async () => {
+		const reopened = await resolveMountConfig({ backend: Encrypted, fs: { backend: SingleBuffer, buffer }, key: 'passphrase' });
+		const data = new Uint8Array(5);
+		await reopened.read('/async.txt', data, 0, 5);
+		assert.equal(Buffer.from(data).toString(), 'async');
+		assert.deepEqual(reopened.readdirSync('/dir'), ['secret.txt']);
+	});
+
+	test('Incorrect passphrase', async () => {
+		await assert.rejects(resolveMountConfig({ backend: Encrypted, fs: { backend: SingleBuffer, buffer }, key: 'wrong' }), { code: 'EACCES' });
+	});
+
+	test('CryptoKey without encrypted names', async () => {
+		const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+		const inner = await resolveMountConfig({ backend: InMemory });
+		const encrypted = await resolveMountConfig({ backend: Encrypted, fs: inner, key });
+
+		await encrypted.mkdir('/dir', 0o755, { uid: 0, gid: 0 });
+		await encrypted.createFile('/dir/file', 'w', 0o644, { uid: 0, gid: 0 });
+		await encrypted.write('/dir/file', Buffer.from(text), 0);
+
+		assert.deepEqual(inner.readdirSync('/dir'), ['file']);
+		assert.equal(inner.statSync('/dir/file').size, 16 + text.length + Math.ceil(text.length / 4096) * 28);
+		assert.deepEqual(await encrypted.readdir('/'), ['dir']);
+	});
+
+	test('HKDF CryptoKey with encrypted names', async () => {
+		const key = await crypto.subtle.importKey('raw', crypto.getRandomValues(new Uint8Array(32)), 'HKDF', false, ['deriveKey']);
+		const inner = await resolveMountConfig({ backend: InMemory });
+		const encrypted = await resolveMountConfig({ backend: Encrypted, fs: inner, key, encryptNames: true });
+
+		await encrypted.mkdir('/dir', 0o755, { uid: 0, gid: 0 });
+		assert(!inner.readdirSync('/').includes('dir'));
+		assert.deepEqual(await encrypted.readdir('/'), ['dir']);
+
+		const reopened = await resolveMountConfig({ backend: Encrypted, fs: inner, key });
+		assert.deepEqual(await reopened.readdir('/'), ['dir']);
+	});
+
+	test('AES-GCM CryptoKey with encrypted names', async () => {
+		const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+		await assert.rejects(resolveMountConfig({ backend: Encrypted, fs: { backend: InMemory }, key, encryptNames: true }), { code: 'EINVAL' });
+	});
+
+	test('Calls that are not awaited update the sync cache', async () => {
+		const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+		const encrypted = await resolveMountConfig({ backend: Encrypted, fs: { backend: InMemory }, key });
+
+		await new Promise<void>(resolve => void encrypted.mkdir('/dir', 0o755, { uid: 0, gid: 0 }).then(() => resolve()));
+		assert(encrypted.existsSync('/dir'));
+	});
+
+	test('Chunks can not be truncated or moved between files', async () => {
+		const inner = await resolveMountConfig({ backend: InMemory });
+		const encrypted = await resolveMountConfig({ backend: Encrypted, fs: inner, key: 'passphrase', iterations: 1000, chunkSize: 64 });
+
+		for (const name of ['/a', '/b', '/truncated']) {
+			await encrypted.createFile(name, 'w', 0o644, { uid: 0, gid: 0 });
+			await encrypted.write(name, Buffer.from(text.slice(0, 200)), 0);
+		}
+
+		const a = new Uint8Array(inner.statSync('/a').size);
+		inner.readSync('/a', a, 0, a.byteLength);
+
+		// Replace a file with `a` minus its last chunk
+		const truncated = a.subarray(0, 16 + 3 * (64 + 28));
+		inner.syncSync('/truncated', truncated, { ...inner.statSync('/truncated'), size: truncated.byteLength });
+
+		// Replace the first chunk of `b` with the first chunk of `a`
+		inner.writeSync('/b', a.subarray(16, 16 + 64 + 28), 16);
+
+		for (const name of ['/truncated', '/b']) {
+			await assert.rejects(encrypted.read(name, new Uint8Array(200), 0, 200), { code: 'EIO' });
+		}
+
+		// Growing and shrinking files re-encrypts the last chunk, so they can still be read
+		await encrypted.write('/a', Buffer.from('more'), 200);
+		await encrypted.sync('/a', undefined, { ...(await encrypted.stat('/a')), size: 128 });
+		const data = new Uint8Array(128);
+		await encrypted.read('/a', data, 0, 128);
+		assert.equal(Buffer.from(data).toString(), text.slice(0, 128));
+	});
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { configureSingle, fs, InMemory, mounts, Layered, resolveMountConfig, type StoreFS } from '../../dist/index.js';
+import { encodeUTF8 } from '../../dist/utils.js';
+import { creds } from '../common.js';
+
+/** Creates a layer with the given files. Paths ending in `/` are directories */
+async function layer(...paths: string[]): Promise<StoreFS> {
+	const layer = await resolveMountConfig({ backend: InMemory });
+	for (const path of paths) {
+		const parts = path.split('/').filter(Boolean);
+		for (let i = 1; i < parts.length; i++) {
+			const dir = '/' + parts.slice(0, i).join('/');
+			if (!layer.existsSync(dir)) layer.mkdirSync(dir, 0o755, creds);
+		}
+
+		if (path.endsWith('/')) {
+			if (!layer.existsSync(path.slice(0, -1))) layer.mkdirSync(path.slice(0, -1), 0o755, creds);
+			continue;
+		}
+
+		layer.createFileSync(path, 'w', 0o644, creds);
+		layer.writeSync(path, encodeUTF8(path), 0);
+	}
+	return layer;
+}
+
+const base = await layer('/sdk/bin/tool', '/sdk/lib/core', '/etc/config', '/etc/hosts', '/cache/a', '/cache/b');
+const deps = await layer('/node_modules/a/index.js', '/etc/config', '/etc/.wh.hosts', '/cache/', '/cache/.wh..wh..opq', '/cache/c');
+const upper = await resolveMountConfig({ backend: InMemory });
+
+await configureSingle({ backend: Layered, lower: [deps, base], upper });
+
+suite('Layered', () => {
+	test('readdir merges all layers', () => {
+		assert.deepEqual(fs.readdirSync('/').sort(), ['cache', 'etc', 'node_modules', 'sdk']);
+		assert.deepEqual(fs.readdirSync('/sdk').sort(), ['bin', 'lib']);
+	});
+
+	test('Upper layers take precedence', () => {
+		assert.equal(fs.readFileSync('/etc/config', 'utf8'), '/etc/config');
+		assert.equal(fs.readFileSync('/node_modules/a/index.js', 'utf8'), '/node_modules/a/index.js');
+		assert.equal(fs.readFileSync('/sdk/bin/tool', 'utf8'), '/sdk/bin/tool');
+	});
+
+	test('Whiteouts and opaque directories in lower layers', () => {
+		assert(!fs.existsSync('/etc/hosts'));
+		assert.deepEqual(fs.readdirSync('/etc'), ['config']);
+		assert.deepEqual(fs.readdirSync('/cache'), ['c']);
+		assert(!fs.existsSync('/cache/a'));
+	});
+
+	test('Writes are copied to the upper layer', () => {
+		fs.appendFileSync('/sdk/lib/core', '!');
+		assert.equal(fs.readFileSync('/sdk/lib/core', 'utf8'), '/sdk/lib/core!');
+		assert(upper.existsSync('/sdk/lib/core'));
+		assert.equal(base.statSync('/sdk/lib/core').size, '/sdk/lib/core'.length);
+	});
+
+	test('Copying up keeps the mode and owner', () => {
+		fs.appendFileSync('/sdk/bin/tool', '!');
+		const lower = base.statSync('/sdk/bin/tool');
+		const copied = upper.statSync('/sdk/bin/tool');
+		assert.equal(copied.mode, lower.mode);
+		assert.equal(copied.uid, lower.uid);
+		assert.equal(copied.gid, lower.gid);
+		assert.equal(upper.statSync('/sdk/bin').mode & 0o777, 0o755);
+	});
+
+	test('Deleting lower files creates whiteouts', () => {
+		fs.unlinkSync('/sdk/bin/tool');
+		assert(!fs.existsSync('/sdk/bin/tool'));
+		assert.deepEqual(fs.readdirSync('/sdk/bin'), []);
+		assert(upper.existsSync('/sdk/bin/.wh.tool'));
+		assert(base.existsSync('/sdk/bin/tool'));
+	});
+
+	test('Recreated directories are opaque', () => {
+		fs.rmSync('/node_modules/a', { recursive: true });
+		assert(!fs.existsSync('/node_modules/a'));
+
+		fs.mkdirSync('/node_modules/a');
+		assert.deepEqual(fs.readdirSync('/node_modules/a'), []);
+
+		fs.writeFileSync('/node_modules/a/index.js', 'new');
+		assert.equal(fs.readFileSync('/node_modules/a/index.js', 'utf8'), 'new');
+	});
+
+	test('Renaming lower directories', () => {
+		fs.renameSync('/sdk/lib', '/sdk/lib2');
+		assert(!fs.existsSync('/sdk/lib'));
+		assert.deepEqual(fs.readdirSync('/sdk').sort(), ['bin', 'lib2']);
+		assert.equal(fs.readFileSync('/sdk/lib2/core', 'utf8'), '/sdk/lib/core!');
+	});
+
+	test('Async operations', async () => {
+		await fs.promises.unlink('/etc/config');
+		assert(!(await fs.promises.exists('/etc/config')));
+		await fs.promises.writeFile('/etc/config', 'replaced');
+		assert.equal(await fs.promises.readFile('/etc/config', 'utf8'), 'replaced');
+		assert.deepEqual((await fs.promises.readdir('/etc')).sort(), ['config']);
+	});
+
+	test('Usage includes all layers', () => {
+		const total = [upper, deps, base].reduce((total, layer) => total + layer.usage().totalSpace, 0);
+		assert.equal(mounts.get('/')!.usage().totalSpace, total);
+		assert.equal(mounts.get('/')!.usage().freeSpace, upper.usage().freeSpace);
+	});
+});
@@ -101,6 +101,51 @@ await suite('FS with MessageChannel', () => {
 	test('readFileSync should throw', () => {
 		assert.throws(() => fs.readFileSync('/test', 'utf8'), { code: 'ENOTSUP' });
 	});
+
+	test('locks', async () => {
+		// A lock held by something other than this thread
+		const lock = { kind: 'flock', type: fs.constants.F_WRLCK, start: 0, length: 0, owner: 'remote' } as const;
+		await tmpfs.setLock('/test', lock, false);
+
+		await using handle = await fs.promises.open('/test', 'r');
+		await assert.rejects(handle.lock({ shared: true, nonBlocking: true }), { code: 'EAGAIN' });
+
+		const waiting = handle.lock({ shared: true });
+		await tmpfs.setLock('/test', { ...lock, type: fs.constants.F_UNLCK }, false);
+		await waiting;
+		await assert.rejects(tmpfs.setLock('/test', lock, false), { code: 'EAGAIN' });
+	});
+
+	test('watchFile polls async-only file systems', async () => {
+		const { promise, resolve } = Promise.withResolvers<number>();
+		fs.watchFile('/test', { interval: 10 }, curr => resolve(curr.mtimeMs));
+
+		// The initial stats are fetched asynchronously
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		// Not made through the port, so no change event is sent
+		await tmpfs.touch('/test', { mtimeMs: 1000 });
+
+		assert.equal(await promise, 1000);
+		fs.unwatchFile('/test');
+	});
+
+	test('changes from other clients', async () => {
+		const other = new MessageChannel();
+		attachFS(other.port2, tmpfs);
+		fs.mount('/other', await resolveMountConfig({ backend: Port, port: other.port1, disableAsyncCache: true, timeout: 100 }));
+
+		await fs.promises.mkdir('/watched');
+		using watcher = fs.watch('/watched');
+		const changed = new Promise(resolve => watcher.once('change', (eventType, filename) => resolve([eventType, filename])));
+
+		await fs.promises.writeFile('/other/watched/file', content);
+		assert.deepEqual(await changed, ['rename', 'file']);
+
+		fs.umount('/other');
+		other.port1.close();
+		other.port2.close();
+	});
 });
 
 channel.port1.close();
@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { suite, test } from 'node:test';
+import { setTimeout } from 'node:timers/promises';
+import { Worker } from 'node:worker_threads';
+import { resolveMountConfig, SingleBuffer } from '../../dist/index.js';
+import { encodeUTF8 } from '../../dist/utils.js';
+import { creds, readFile } from '../common.js';
+
+async function runWorker(buffer: SharedArrayBuffer, name: string, count: number): Promise<void> {
+	const worker = new Worker(import.meta.dirname + '/single_buffer.worker.js', { workerData: { buffer, name, count } });
+	const [code] = await once(worker, 'exit');
+	assert.equal(code, 0);
+}
+
+suite('SingleBuffer with a SharedArrayBuffer', () => {
+	test('Changes are visible to other instances', async () => {
+		const buffer = new SharedArrayBuffer(0x100000);
+		const a = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		const b = await resolveMountConfig({ backend: SingleBuffer, buffer });
+
+		a.mkdirSync('/dir', 0o755, creds);
+		a.createFileSync('/dir/file', 'w', 0o644, creds);
+		a.writeSync('/dir/file', encodeUTF8('from a'), 0);
+
+		assert.deepEqual(b.readdirSync('/dir'), ['file']);
+		assert.equal(readFile(b, '/dir/file'), 'from a');
+
+		b.unlinkSync('/dir/file');
+		assert(!a.existsSync('/dir/file'));
+	});
+
+	test('Concurrent writes from workers', async () => {
+		const buffer = new SharedArrayBuffer(0x400000);
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+
+		await Promise.all([runWorker(buffer, 'a', 50), runWorker(buffer, 'b', 50)]);
+
+		const entries = fs.readdirSync('/');
+		assert.equal(entries.length, 100);
+		for (const name of entries) assert.equal(readFile(fs, '/' + name), '/' + name);
+	});
+
+	test('Waiting for changes', async () => {
+		const buffer = new SharedArrayBuffer(0x100000);
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		const store = fs['store'];
+
+		assert(store.shared);
+		assert(!(await store.waitForChange(10)));
+
+		const [changed] = await Promise.all([store.waitForChange(5000), runWorker(buffer, 'worker', 1)]);
+		assert(changed);
+		assert.deepEqual(fs.readdirSync('/'), ['worker-0']);
+	});
+
+	test('Watching for changes from other threads', async () => {
+		const buffer = new SharedArrayBuffer(0x100000);
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+
+		const { promise, resolve } = Promise.withResolvers<[string, string]>();
+		const stop = fs.watch((eventType, path) => {
+			if (path != '/') resolve([eventType, path]);
+		});
+
+		await runWorker(buffer, 'watched', 1);
+		assert.deepEqual(await promise, ['rename', '/watched-0']);
+		stop();
+	});
+
+	test('Watching only re-indexes after changes', async () => {
+		const buffer = new SharedArrayBuffer(0x100000);
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+
+		let indexed = 0;
+		const createIndex = fs.createIndex.bind(fs);
+		fs.createIndex = () => {
+			indexed++;
+			return createIndex();
+		};
+
+		const stop = fs.watch(() => {});
+		await setTimeout(1200);
+		assert.equal(indexed, 1);
+
+		fs.createFileSync('/local', 'w', 0o644, creds);
+		await setTimeout(600);
+		assert.equal(indexed, 2);
+		stop();
+	});
+});
+
+suite('SingleBuffer', () => {
+	test('Reopening a new buffer', async () => {
+		const buffer = new ArrayBuffer(0x10000);
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		fs.createFileSync('/file', 'w', 0o644, creds);
+		fs.writeSync('/file', encodeUTF8('contents'), 0);
+
+		const reopened = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		assert.equal(readFile(reopened, '/file'), 'contents');
+	});
+});
+
+suite('SingleBuffer free space', () => {
+	test('Freed space is reused', async () => {
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer: new ArrayBuffer(0x40000) });
+		const { freeSpace } = fs.usage();
+
+		// Writes 4 MiB in total to a 256 KiB buffer
+		for (let i = 0; i < 200; i++) {
+			fs.createFileSync('/file', 'w', 0o644, creds);
+			fs.writeSync('/file', new Uint8Array(0x5000 + i).fill(i), 0);
+			fs.unlinkSync('/file');
+		}
+
+		assert.equal(fs.usage().freeSpace, freeSpace);
+	});
+
+	test('Compaction', async () => {
+		const buffer = new ArrayBuffer(0x100000);
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		const store = fs['store'];
+
+		fs.mkdirSync('/dir', 0o755, creds);
+		for (let i = 0; i < 300; i++) {
+			fs.createFileSync('/dir/' + i, 'w', 0o644, creds);
+			fs.writeSync('/dir/' + i, encodeUTF8('file ' + i), 0);
+		}
+		for (let i = 0; i < 300; i += 2) fs.unlinkSync('/dir/' + i);
+
+		const { freeSpace } = fs.usage();
+		store.compact();
+		assert(fs.usage().freeSpace > freeSpace);
+
+		const reopened = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		assert.equal(reopened.readdirSync('/dir').length, 150);
+		for (let i = 1; i < 300; i += 2) assert.equal(readFile(reopened, '/dir/' + i), 'file ' + i);
+	});
+
+	test('IDs larger than 32 bits', async () => {
+		const buffer = new ArrayBuffer(0x10000);
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		const id = 2 ** 40 + 2;
+
+		fs['store'].set(id, encodeUTF8('large'));
+
+		const reopened = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		assert.deepEqual(reopened['store'].get(id), encodeUTF8('large'));
+		assert(!reopened['store'].get(id % 2 ** 32));
+	});
+});
+
+suite('Growable SingleBuffer', () => {
+	test('Resizable ArrayBuffer', async () => {
+		const buffer = new ArrayBuffer(0x10000, { maxByteLength: 0x100000 });
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+
+		const data = new Uint8Array(0x30000).fill(1);
+		fs.createFileSync('/file', 'w', 0o644, creds);
+		fs.writeSync('/file', data, 0);
+
+		assert(buffer.byteLength > 0x30000);
+		assert.equal(fs.usage().totalSpace, 0x100000);
+
+		const reopened = await resolveMountConfig({ backend: SingleBuffer, buffer });
+		const read = new Uint8Array(data.length);
+		reopened.readSync('/file', read, 0, data.length);
+		assert.deepEqual(read, data);
+	});
+
+	test('Growable SharedArrayBuffer', async () => {
+		const buffer = new SharedArrayBuffer(0x4000, { maxByteLength: 0x100000 });
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer });
+
+		await runWorker(buffer, 'worker', 100);
+
+		assert(buffer.byteLength > 0x4000);
+		assert.equal(fs.readdirSync('/').length, 100);
+	});
+
+	test('Maximum size', async () => {
+		const buffer = new ArrayBuffer(0x10000, { maxByteLength: 0x100000 });
+		const fs = await resolveMountConfig({ backend: SingleBuffer, buffer, maxByteLength: 0x20000 });
+
+		fs.createFileSync('/file', 'w', 0o644, creds);
+		assert.throws(() => fs.writeSync('/file', new Uint8Array(0x20000), 0), { code: 'ENOSPC' });
+		assert(buffer.byteLength <= 0x20000);
+	});
+});
@@ -0,0 +1,10 @@
+import { workerData } from 'node:worker_threads';
+import { resolveMountConfig, SingleBuffer } from '../../dist/index.js';
+
+const fs = await resolveMountConfig({ backend: SingleBuffer, buffer: workerData.buffer });
+
+for (let i = 0; i < workerData.count; i++) {
+	const path = `/${workerData.name}-${i}`;
+	fs.createFileSync(path, 'w', 0o644, { uid: 0, gid: 0 });
+	fs.writeSync(path, new TextEncoder().encode(path), 0);
+}
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { gzipSync } from 'node:zlib';
+import { Tar, configureSingle, fs, resolveMountConfig } from '../../dist/index.js';
+
+interface Entry {
+	name: string;
+	type?: string;
+	content?: string;
+	linkname?: string;
+	mode?: number;
+	mtime?: number;
+	pax?: Record<string, string>;
+}
+
+function header(entry: Entry, size: number): Uint8Array {
+	const block = new Uint8Array(512);
+	const write = (value: string, offset: number) => block.set(new TextEncoder().encode(value), offset);
+	const octal = (value: number, offset: number, length: number) => write(value.toString(8).padStart(length - 1, '0'), offset);
+
+	write(entry.name, 0);
+	octal(entry.mode ?? 0o644, 100, 8);
+	octal(1000, 108, 8);
+	octal(1000, 116, 8);
+	octal(size, 124, 12);
+	octal(entry.mtime ?? 1_700_000_000, 136, 12);
+	write(entry.type ?? '0', 156);
+	write(entry.linkname ?? '', 157);
+	write('ustar\x0000', 257);
+	write('        ', 148);
+
+	let sum = 0;
+	for (const byte of block) sum += byte;
+	octal(sum, 148, 7);
+
+	return block;
+}
+
+function pad(data: Uint8Array): Uint8Array {
+	const padded = new Uint8Array(Math.ceil(data.byteLength / 512) * 512);
+	padded.set(data);
+	return padded;
+}
+
+/** Creates a tar archive */
+function tar(...entries: Entry[]): Uint8Array {
+	const blocks: Uint8Array[] = [];
+	for (const entry of entries) {
+		if (entry.pax) {
+			const records = Object.entries(entry.pax)
+				.map(([key, value]) => {
+					const record = ` ${key}=${value}\n`;
+					let length = record.length;
+					length += String(length + String(length).length).length;
+					return length + record;
+				})
+				.join('');
+			const data = new TextEncoder().encode(records);
+			blocks.push(header({ name: 'PaxHeader', type: 'x' }, data.byteLength), pad(data));
+		}
+
+		const content = new TextEncoder().encode(entry.content ?? '');
+		blocks.push(header(entry, content.byteLength), pad(content));
+	}
+	blocks.push(new Uint8Array(1024));
+
+	const archive = new Uint8Array(blocks.reduce((size, block) => size + block.byteLength, 0));
+	let offset = 0;
+	for (const block of blocks) {
+		archive.set(block, offset);
+		offset += block.byteLength;
+	}
+	return archive;
+}
+
+const archive = tar(
+	{ name: 'project/', type: '5', mode: 0o755 },
+	{ name: 'project/readme.md', content: '# Hello' },
+	{ name: 'project/bin/run.sh', content: 'echo hi', mode: 0o755 },
+	{ name: 'project/link', type: '2', linkname: 'readme.md' },
+	{ name: 'project/hard', type: '1', linkname: 'project/readme.md' },
+	{ name: 'short', content: 'pax', pax: { path: 'project/' + 'long-name-'.repeat(12) + '.txt', mtime: '1700000000.5' } }
+);
+
+await suite('Tar', () => {
+	test('Configuration', async () => {
+		await configureSingle({ backend: Tar, data: archive });
+	});
+
+	test('Read files', () => {
+		assert.equal(fs.readFileSync('/project/readme.md', 'utf8'), '# Hello');
+		assert.equal(fs.readFileSync('/project/bin/run.sh', 'utf8'), 'echo hi');
+	});
+
+	test('Metadata', () => {
+		const stats = fs.statSync('/project/bin/run.sh');
+		assert.equal(stats.mode & 0o777, 0o755);
+		assert.equal(stats.uid, 1000);
+		assert.equal(stats.mtimeMs, 1_700_000_000_000);
+		assert(fs.statSync('/project/bin').isDirectory());
+	});
+
+	test('Symbolic and hard links', () => {
+		assert.equal(fs.readlinkSync('/project/link'), 'readme.md');
+		assert.equal(fs.readFileSync('/project/link', 'utf8'), '# Hello');
+		assert.equal(fs.readFileSync('/project/hard', 'utf8'), '# Hello');
+		assert.equal(fs.statSync('/project/readme.md').nlink, 2);
+	});
+
+	test('Pax headers', () => {
+		const name = '/project/' + 'long-name-'.repeat(12) + '.txt';
+		assert.equal(fs.readFileSync(name, 'utf8'), 'pax');
+		assert.equal(fs.statSync(name).mtimeMs, 1_700_000_000_500);
+	});
+
+	test('Partial reads', () => {
+		const fd = fs.openSync('/project/readme.md', 'r');
+		const buffer = Buffer.alloc(5);
+		fs.readSync(fd, buffer, 0, 5, 2);
+		fs.closeSync(fd);
+		assert.equal(buffer.toString(), 'Hello');
+	});
+
+	test('Read-only', () => {
+		assert.throws(() => fs.writeFileSync('/project/new', 'data'), { code: 'EROFS' });
+	});
+
+	test('Gzip', async () => {
+		const tarfs = await resolveMountConfig({ backend: Tar, data: gzipSync(archive) });
+		assert.deepEqual(tarfs.readdirSync('/project').sort(), ['bin', 'hard', 'link', 'long-name-'.repeat(12) + '.txt', 'readme.md']);
+	});
+});
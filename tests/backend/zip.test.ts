@@ -0,0 +1,205 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { suite, test } from 'node:test';
+import { crc32, deflateRawSync } from 'node:zlib';
+import { Zip, ZipFS, configure, fs, resolveMountConfig } from '../../dist/index.js';
+
+interface Entry {
+	name: string;
+	content?: string;
+	mode?: number;
+	deflate?: boolean;
+}
+
+/** Creates a zip archive */
+function zip(...entries: Entry[]): Uint8Array {
+	const locals: Buffer[] = [];
+	const central: Buffer[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name);
+		const content = Buffer.from(entry.content ?? '');
+		const data = entry.deflate ? deflateRawSync(content) : content;
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+		local.writeUInt16LE(0x5821, 12); // 2024-01-01
+		local.writeUInt32LE(crc32(content), 14);
+		local.writeUInt32LE(data.byteLength, 18);
+		local.writeUInt32LE(content.byteLength, 22);
+		local.writeUInt16LE(name.byteLength, 26);
+		locals.push(local, name, data);
+
+		const header = Buffer.alloc(46);
+		header.writeUInt32LE(0x02014b50, 0);
+		header.writeUInt16LE((3 << 8) | 20, 4);
+		header.writeUInt16LE(20, 6);
+		header.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+		header.writeUInt16LE(0x5821, 14);
+		header.writeUInt32LE(crc32(content), 16);
+		header.writeUInt32LE(data.byteLength, 20);
+		header.writeUInt32LE(content.byteLength, 24);
+		header.writeUInt16LE(name.byteLength, 28);
+		header.writeUInt32LE(((entry.mode ?? (entry.name.endsWith('/') ? 0o40755 : 0o100644)) << 16) >>> 0, 38);
+		header.writeUInt32LE(offset, 42);
+		central.push(header, name);
+
+		offset += local.byteLength + name.byteLength + data.byteLength;
+	}
+
+	const directory = Buffer.concat(central);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(directory.byteLength, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...locals, directory, end]);
+}
+
+const text = 'The quick brown fox jumps over the lazy dog. '.repeat(100);
+
+const archive = zip(
+	{ name: 'project/', mode: 0o40755 },
+	{ name: 'project/readme.md', content: '# Hello' },
+	{ name: 'project/src/index.js', content: text, deflate: true },
+	{ name: 'project/bin/run.sh', content: 'echo hi', mode: 0o100755, deflate: true }
+);
+
+function has(command: string): boolean {
+	try {
+		execFileSync(command, ['-v'], { stdio: 'ignore' });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+await suite('Zip', () => {
+	test('Configuration', async () => {
+		await configure({ mounts: { '/zip': { backend: Zip, data: archive } } });
+	});
+
+	test('Read stored and deflated files', () => {
+		assert.equal(fs.readFileSync('/zip/project/readme.md', 'utf8'), '# Hello');
+		assert.equal(fs.readFileSync('/zip/project/src/index.js', 'utf8'), text);
+		assert.equal(fs.readFileSync('/zip/project/bin/run.sh', 'utf8'), 'echo hi');
+	});
+
+	test('Directories and metadata', () => {
+		assert.deepEqual(fs.readdirSync('/zip/project').sort(), ['bin', 'readme.md', 'src']);
+		assert(fs.statSync('/zip/project/src').isDirectory());
+		assert.equal(fs.statSync('/zip/project/bin/run.sh').mode & 0o777, 0o755);
+		assert.equal(fs.statSync('/zip/project/src/index.js').size, text.length);
+		assert.equal(fs.statSync('/zip/project/readme.md').mtime.getFullYear(), 2024);
+	});
+
+	test('Partial reads of deflated files', () => {
+		const fd = fs.openSync('/zip/project/src/index.js', 'r');
+		const buffer = Buffer.alloc(5);
+		fs.readSync(fd, buffer, 0, 5, 4);
+		fs.closeSync(fd);
+		assert.equal(buffer.toString(), 'quick');
+	});
+
+	test('Read-only by default', () => {
+		assert.throws(() => fs.writeFileSync('/zip/project/new', 'data'), { code: 'EROFS' });
+		assert.throws(() => fs.unlinkSync('/zip/project/readme.md'), { code: 'EROFS' });
+		assert(fs.existsSync('/zip/project/readme.md'));
+	});
+
+	test('Read-only archives reject metadata changes', async () => {
+		const zipfs = await resolveMountConfig({ backend: Zip, data: archive });
+		assert.throws(() => zipfs.touchSync('/project/readme.md', { mode: 0o600 }), { code: 'EROFS' });
+		await assert.rejects(zipfs.touch('/project/readme.md', { mtimeMs: 0 }), { code: 'EROFS' });
+		assert.equal(zipfs.statSync('/project/readme.md').mode & 0o777, 0o644);
+	});
+
+	test('Writable archives', async () => {
+		const zipfs = await resolveMountConfig({ backend: Zip, data: archive, writable: true });
+		fs.umount('/zip');
+		fs.mount('/zip', zipfs);
+
+		fs.writeFileSync('/zip/project/new.txt', 'new file');
+		fs.writeFileSync('/zip/project/readme.md', '# Changed');
+		fs.mkdirSync('/zip/empty');
+		fs.unlinkSync('/zip/project/bin/run.sh');
+		fs.truncateSync('/zip/project/src/index.js', 9);
+
+		const reopened = new ZipFS(zipfs.archive);
+		const read = (path: string) => {
+			const buffer = new Uint8Array(reopened.statSync(path).size);
+			reopened.readSync(path, buffer, 0, buffer.byteLength);
+			return Buffer.from(buffer).toString();
+		};
+
+		assert.equal(read('/project/new.txt'), 'new file');
+		assert.equal(read('/project/readme.md'), '# Changed');
+		assert.equal(read('/project/src/index.js'), 'The quick');
+		assert(reopened.statSync('/empty').toStats().isDirectory());
+		assert(!reopened.existsSync('/project/bin/run.sh'));
+	});
+
+	test('Renaming directories in writable archives', async () => {
+		const zipfs = await resolveMountConfig({ backend: Zip, data: archive, writable: true });
+
+		zipfs.mkdirSync('/new', 0o755, { uid: 0, gid: 0 });
+		zipfs.createFileSync('/new/file', 'w', 0o644, { uid: 0, gid: 0 });
+		zipfs.writeSync('/new/file', Buffer.from('new file'), 0);
+		zipfs.renameSync('/new', '/moved');
+		await zipfs.rename('/project', '/renamed');
+
+		const reopened = new ZipFS(zipfs.archive);
+		const read = (path: string) => {
+			const buffer = new Uint8Array(reopened.statSync(path).size);
+			reopened.readSync(path, buffer, 0, buffer.byteLength);
+			return Buffer.from(buffer).toString();
+		};
+
+		assert(!reopened.existsSync('/new') && !reopened.existsSync('/project'));
+		assert(reopened.statSync('/renamed/src').toStats().isDirectory());
+		assert.equal(read('/moved/file'), 'new file');
+		assert.equal(read('/renamed/readme.md'), '# Hello');
+		assert.equal(read('/renamed/src/index.js'), text);
+	});
+
+	test('Archives created by zip', { skip: !has('zip') }, () => {
+		const dir = mkdtempSync(join(tmpdir(), 'zenfs-zip-'));
+		try {
+			writeFileSync(join(dir, 'text'), text);
+			execFileSync('zip', ['-q', '-X', 'archive.zip', 'text'], { cwd: dir });
+			const zipfs = new ZipFS(readFileSync(join(dir, 'archive.zip')));
+
+			const buffer = new Uint8Array(text.length);
+			zipfs.readSync('/text', buffer, 0, buffer.byteLength);
+			assert.equal(Buffer.from(buffer).toString(), text);
+		} finally {
+			rmSync(dir, { recursive: true });
+		}
+	});
+
+	test('Written archives can be read by unzip', { skip: !has('unzip') }, async () => {
+		const zipfs = await resolveMountConfig({ backend: Zip, writable: true });
+		zipfs.mkdirSync('/dir', 0o755, { uid: 0, gid: 0 });
+		zipfs.createFileSync('/dir/file', 'w', 0o644, { uid: 0, gid: 0 });
+		zipfs.writeSync('/dir/file', Buffer.from('content'), 0);
+		zipfs.syncSync('/dir/file');
+
+		const dir = mkdtempSync(join(tmpdir(), 'zenfs-zip-'));
+		try {
+			writeFileSync(join(dir, 'archive.zip'), zipfs.archive);
+			execFileSync('unzip', ['-q', '-t', 'archive.zip'], { cwd: dir });
+			const listing = execFileSync('unzip', ['-Z1', 'archive.zip'], { cwd: dir }).toString();
+			assert.deepEqual(listing.trim().split('\n'), ['dir/', 'dir/file']);
+		} finally {
+			rmSync(dir, { recursive: true });
+		}
+	});
+});
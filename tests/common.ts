@@ -1,5 +1,7 @@
 import { join, resolve } from 'node:path';
+import type { FileSystem } from '../dist/index.js';
 import { fs as defaultFS, log } from '../dist/index.js';
+import { decodeUTF8 } from '../dist/utils.js';
 export type * from '../dist/index.js';
 
 const { ZENFS_LOG_LEVEL, SETUP } = process.env;
@@ -28,3 +30,18 @@ const setup = await import(setupPath).catch(error => {
 });
 
 export const fs = (setup.fs || defaultFS) as typeof defaultFS;
+
+/**
+ * Credentials for calling `FileSystem` methods directly
+ */
+export const creds = { uid: 0, gid: 0 };
+
+/**
+ * Reads a file as UTF-8 using `FileSystem` methods directly
+ */
+export function readFile(fs: FileSystem, path: string): string {
+	const { size } = fs.statSync(path);
+	const buffer = new Uint8Array(size);
+	fs.readSync(path, buffer, 0, size);
+	return decodeUTF8(buffer);
+}
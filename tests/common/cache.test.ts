@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { serialize } from 'utilium';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { LRUCache } from '../../dist/backends/store/cache.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { Inode } from '../../dist/internal/inode.js';
+import { creds } from '../common.js';
+
+suite('Inode cache', () => {
+	test('LRU eviction', () => {
+		const cache = new LRUCache<number, string>(2);
+		cache.set(1, 'a');
+		cache.set(2, 'b');
+		assert.equal(cache.get(1), 'a');
+		cache.set(3, 'c');
+
+		assert(!cache.has(2));
+		assert.equal(cache.get(2), undefined);
+		assert.deepEqual(cache.stats(), { hits: 1, misses: 1, size: 2, maxSize: 2 });
+	});
+
+	test('Repeated lookups hit the cache', async () => {
+		const fs = new StoreFS(new InMemoryStore());
+		await fs.ready();
+		fs.mkdirSync('/dir', 0o755, creds);
+
+		fs.statSync('/dir');
+		const { hits } = fs.cacheStats();
+		fs.statSync('/dir');
+		assert.equal(fs.cacheStats().hits, hits + 1);
+	});
+
+	test('Changes are not hidden by the cache', async () => {
+		const fs = new StoreFS(new InMemoryStore());
+		await fs.ready();
+		fs.mkdirSync('/dir', 0o755, creds);
+
+		fs.readdirSync('/dir');
+		fs.createFileSync('/dir/file', 'w', 0o644, creds);
+		assert.deepEqual(fs.readdirSync('/dir'), ['file']);
+
+		fs.touchSync('/dir', { mode: 0o40700 });
+		assert.equal(fs.statSync('/dir').mode & 0o777, 0o700);
+	});
+
+	test('Aborted changes are removed from the cache', async () => {
+		const store = new InMemoryStore();
+		const fs = new StoreFS(store);
+		await fs.ready();
+		fs.mkdirSync('/dir', 0o755, creds);
+		const ino = fs._ids.get('/dir')!;
+
+		const tx = fs.transaction();
+		const inode = new Inode(store.get(ino));
+		inode.mode = 0o40700;
+		tx.setSync(ino, serialize(inode));
+		assert.equal(fs.statSync('/dir').mode & 0o777, 0o700);
+		tx.abortSync();
+
+		assert.equal(fs.statSync('/dir').mode & 0o777, 0o755);
+	});
+
+	test('Uncommitted changes are not cached', async () => {
+		const store = new InMemoryStore();
+		const fs = new StoreFS(store);
+		await fs.ready();
+		fs.mkdirSync('/dir', 0o755, creds);
+		const ino = fs._ids.get('/dir')!;
+
+		const tx = fs.transaction();
+		const inode = new Inode(store.get(ino));
+		inode.mode = 0o40700;
+		tx.setSync(ino, serialize(inode));
+		assert.equal(fs.statSync('/dir').mode & 0o777, 0o700);
+		assert(!fs._cache.has(ino));
+
+		tx.commitSync();
+		assert.equal(fs.statSync('/dir').mode & 0o777, 0o700);
+		assert(fs._cache.has(ino));
+	});
+
+	test('Disabled cache', async () => {
+		const fs = new StoreFS(new InMemoryStore(), { cacheSize: 0 });
+		await fs.ready();
+		fs.statSync('/');
+		fs.statSync('/');
+		assert.equal(fs.cacheStats().hits, 0);
+		assert.equal(fs.cacheStats().size, 0);
+	});
+});
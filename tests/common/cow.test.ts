@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { CopyOnWriteFS, InMemory, resolveMountConfig, type StoreFS } from '../../dist/index.js';
+import { encodeUTF8 } from '../../dist/utils.js';
+import { creds, readFile } from '../common.js';
+
+async function readable(): Promise<StoreFS> {
+	const fs = await resolveMountConfig({ backend: InMemory });
+	fs.mkdirSync('/dir', 0o755, creds);
+	fs.mkdirSync('/dir/sub', 0o755, creds);
+	fs.createFileSync('/dir/sub/file', 'w', 0o644, creds);
+	fs.writeSync('/dir/sub/file', encodeUTF8('nested'), 0);
+	fs.createFileSync('/unchanged', 'w', 0o644, creds);
+	fs.writeSync('/unchanged', encodeUTF8('same'), 0);
+	fs.createFileSync('/changed', 'w', 0o644, creds);
+	fs.writeSync('/changed', encodeUTF8('before'), 0);
+	return fs;
+}
+
+suite('CopyOnWrite commit', () => {
+	test('diff', async () => {
+		const cow = new CopyOnWriteFS(await readable(), await resolveMountConfig({ backend: InMemory }));
+
+		// Copied up without being modified
+		cow.writeSync('/unchanged', encodeUTF8('same'), 0);
+
+		cow.writeSync('/changed', encodeUTF8('after!'), 0);
+		cow.unlinkSync('/dir/sub/file');
+		cow.rmdirSync('/dir/sub');
+		cow.createFileSync('/new', 'w', 0o644, creds);
+
+		assert.deepEqual(cow.diffSync(), [
+			{ path: '/changed', type: 'modified' },
+			{ path: '/new', type: 'added' },
+			{ path: '/dir/sub', type: 'deleted' },
+		]);
+		assert.deepEqual(await cow.diff(), cow.diffSync());
+	});
+
+	test('commit', async () => {
+		const base = await readable();
+		const cow = new CopyOnWriteFS(base, await resolveMountConfig({ backend: InMemory }));
+
+		cow.writeSync('/changed', encodeUTF8('after!'), 0);
+		cow.unlinkSync('/dir/sub/file');
+		cow.rmdirSync('/dir/sub');
+		cow.mkdirSync('/dir/added', 0o700, creds);
+		cow.createFileSync('/dir/added/file', 'w', 0o600, creds);
+		cow.writeSync('/dir/added/file', encodeUTF8('added'), 0);
+		cow.renameSync('/unchanged', '/renamed');
+
+		const changes = await cow.commit(base);
+		assert.deepEqual(changes.map(({ path, type }) => `${type} ${path}`).sort(), [
+			'added /dir/added',
+			'added /dir/added/file',
+			'added /renamed',
+			'deleted /dir/sub',
+			'deleted /unchanged',
+			'modified /changed',
+		]);
+
+		assert.equal(readFile(base, '/changed'), 'after!');
+		assert.equal(readFile(base, '/dir/added/file'), 'added');
+		assert.equal(readFile(base, '/renamed'), 'same');
+		assert.equal(base.statSync('/dir/added').mode & 0o777, 0o700);
+		assert(!base.existsSync('/dir/sub'));
+		assert(!base.existsSync('/unchanged'));
+
+		// The writable layer and journal are cleared
+		assert.deepEqual(cow.writable.readdirSync('/'), []);
+		assert.equal(cow.journal.toString(), '#journal@v1\n');
+		assert.deepEqual(cow.diffSync(), []);
+		assert.deepEqual(cow.readdirSync('/').sort(), ['changed', 'dir', 'renamed']);
+	});
+});
+
+suite('CopyOnWrite watching', () => {
+	test('changes to a shared journal', async () => {
+		const base = await readable();
+		const a = new CopyOnWriteFS(base, await resolveMountConfig({ backend: InMemory }));
+		const b = new CopyOnWriteFS(base, await resolveMountConfig({ backend: InMemory }), a.journal);
+
+		const changes: string[] = [];
+		const stop = a.watch((eventType, path) => changes.push(`${eventType} ${path}`));
+
+		// Changes made through the watched file system are reported by the VFS
+		a.unlinkSync('/changed');
+		assert.deepEqual(changes, []);
+
+		b.renameSync('/unchanged', '/renamed');
+		assert.deepEqual(changes, ['rename /unchanged', 'rename /renamed']);
+
+		stop();
+		b.unlinkSync('/renamed');
+		assert.equal(changes.length, 2);
+	});
+});
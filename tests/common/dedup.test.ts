@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { DedupStore } from '../../dist/backends/store/dedup.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { decodeUTF8, encodeUTF8 } from '../../dist/utils.js';
+import { creds, readFile } from '../common.js';
+
+const content = encodeUTF8('module.exports = function () {};\n'.repeat(1000));
+
+async function setup(): Promise<[StoreFS<DedupStore>, DedupStore]> {
+	const store = new DedupStore();
+	const fs = new StoreFS(store);
+	await fs.ready();
+	for (const dir of ['/a', '/b']) {
+		fs.mkdirSync(dir, 0o755, creds);
+		fs.createFileSync(dir + '/index.js', 'w', 0o644, creds);
+		fs.writeSync(dir + '/index.js', content, 0);
+	}
+	return [fs, store];
+}
+
+suite('Deduplicating store', () => {
+	test('Identical data is stored once', async () => {
+		const [fs, store] = await setup();
+
+		assert.equal(readFile(fs, '/a/index.js'), readFile(fs, '/b/index.js'));
+		assert(store.logicalBytes > 2 * content.byteLength);
+		assert(store.bytes < store.logicalBytes - content.byteLength + 4096);
+	});
+
+	test('Changing shared data does not affect other copies', async () => {
+		const [fs] = await setup();
+
+		fs.writeSync('/a/index.js', encodeUTF8('changed'), 5000);
+
+		assert.equal(readFile(fs, '/b/index.js'), decodeUTF8(content));
+		assert.equal(readFile(fs, '/a/index.js').slice(5000, 5007), 'changed');
+	});
+
+	test('Unused blocks are freed', async () => {
+		const [fs, store] = await setup();
+		const bytes = store.bytes;
+
+		fs.unlinkSync('/a/index.js');
+		assert(store.bytes < bytes);
+		assert.equal(readFile(fs, '/b/index.js'), decodeUTF8(content));
+
+		fs.unlinkSync('/b/index.js');
+		assert(store.bytes < 4096);
+	});
+
+	test('Snapshots share blocks', async () => {
+		const [fs, store] = await setup();
+		const bytes = store.bytes;
+
+		const snapshot = fs.snapshotSync();
+		fs.unlinkSync('/a/index.js');
+		fs.unlinkSync('/b/index.js');
+
+		await fs.restore(snapshot);
+		assert.equal(store.bytes, bytes);
+		assert.equal(readFile(fs, '/a/index.js'), decodeUTF8(content));
+	});
+});
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { serialize } from 'utilium';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { fsck } from '../../dist/backends/store/fsck.js';
+import { Inode } from '../../dist/internal/inode.js';
+import { decodeDirListing, encodeDirListing, encodeUTF8 } from '../../dist/utils.js';
+import { creds } from '../common.js';
+
+async function setup(): Promise<[StoreFS<InMemoryStore>, InMemoryStore]> {
+	const store = new InMemoryStore();
+	const fs = new StoreFS(store);
+	await fs.ready();
+	fs.mkdirSync('/dir', 0o755, creds);
+	fs.createFileSync('/dir/file', 'w', 0o644, creds);
+	fs.writeSync('/dir/file', encodeUTF8('content'), 0);
+	fs.createFileSync('/other', 'w', 0o644, creds);
+	return [fs, store];
+}
+
+/**
+ * Changes a directory listing directly in the store
+ */
+function editListing(fs: StoreFS, store: InMemoryStore, path: string, edit: (listing: Record<string, number>) => void): void {
+	const inode = new Inode(store.get(fs._ids.get(path)!));
+	const listing = decodeDirListing(store.get(inode.data)!);
+	edit(listing);
+	store.set(inode.data, encodeDirListing(listing));
+}
+
+suite('fsck', () => {
+	test('No issues in a consistent store', async () => {
+		const [, store] = await setup();
+		const { issues, inodes } = await fsck(store);
+		assert.deepEqual(issues, []);
+		assert.equal(inodes, 4);
+	});
+
+	test('Dangling entries, wrong nlink and orphaned data', async () => {
+		const [fs, store] = await setup();
+		const ino = fs._ids.get('/other')!;
+
+		editListing(fs, store, '/dir', listing => (listing.missing = 12345));
+		const inode = new Inode(store.get(ino));
+		inode.nlink = 3;
+		store.set(ino, serialize(inode));
+		store.set(99999, encodeUTF8('garbage'));
+
+		const { issues } = await fsck(store);
+		assert.deepEqual(issues.map(issue => issue.type).sort(), ['dangling-entry', 'nlink', 'orphaned-data']);
+		assert(issues.every(issue => !issue.repaired));
+		assert.equal(store.get(99999)?.byteLength, 7);
+
+		await fsck(store, { repair: true });
+		assert.deepEqual((await fsck(store)).issues, []);
+		assert(!store.has(99999));
+		assert.equal(new Inode(store.get(ino)).nlink, 1);
+	});
+
+	test('Orphans are moved to lost+found', async () => {
+		const [fs, store] = await setup();
+		const ino = fs._ids.get('/dir')!;
+
+		editListing(fs, store, '/', listing => delete listing.dir);
+
+		const { issues } = await fsck(store, { repair: true });
+		assert.deepEqual(
+			issues.map(issue => issue.type),
+			['orphaned-inode']
+		);
+		assert.deepEqual((await fsck(store)).issues, []);
+
+		const reopened = new StoreFS(store);
+		await reopened.ready();
+		assert.deepEqual(reopened.readdirSync('/lost+found'), ['#' + ino]);
+		assert.deepEqual(reopened.readdirSync(`/lost+found/#${ino}`), ['file']);
+	});
+
+	test('Orphans are removed without lost+found', async () => {
+		const [fs, store] = await setup();
+		const keys = store.size;
+
+		editListing(fs, store, '/', listing => delete listing.dir);
+
+		await fsck(store, { repair: true, lostAndFound: false });
+		assert.deepEqual((await fsck(store)).issues, []);
+		assert.equal(store.size, keys - 4);
+	});
+
+	test('Invalid listings and inodes', async () => {
+		const [fs, store] = await setup();
+
+		const dir = new Inode(store.get(fs._ids.get('/dir')!));
+		store.set(dir.data, encodeUTF8('not json'));
+		store.set(fs._ids.get('/other')!, new Uint8Array(10));
+
+		const { issues } = await fsck(store, { repair: true });
+		// The inode for /other can't be read, so its data is orphaned as well
+		assert.deepEqual(issues.map(issue => issue.type).sort(), [
+			'dangling-entry',
+			'invalid-inode',
+			'invalid-listing',
+			'orphaned-data',
+			'orphaned-data',
+			'orphaned-inode',
+		]);
+		assert.deepEqual(
+			issues.filter(issue => !issue.repaired).map(issue => issue.type),
+			['invalid-inode']
+		);
+		assert.deepEqual((await fsck(store)).issues, []);
+	});
+
+	test('Inodes with mismatched IDs are not repaired', async () => {
+		const [fs, store] = await setup();
+		const ino = fs._ids.get('/other')!;
+
+		const inode = new Inode(store.get(ino));
+		inode.ino = 12345;
+		store.set(ino, serialize(inode));
+
+		const { issues } = await fsck(store, { repair: true });
+		const invalid = issues.find(issue => issue.type == 'invalid-inode');
+		assert.equal(invalid?.id, ino);
+		assert(!invalid.repaired);
+		assert(issues.every(issue => issue == invalid || issue.repaired));
+		assert.deepEqual((await fsck(store)).issues, []);
+	});
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { serialize } from 'utilium';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { _inode_version, Inode } from '../../dist/internal/inode.js';
+import { BigIntStats } from '../../dist/vfs/stats.js';
+
+suite('Inode format', () => {
+	test('64-bit values', () => {
+		const inode = new Inode({ ino: 2 ** 40 + 2, data: 2 ** 40 + 3, size: 2 ** 33 + 5, mode: 0o100644 });
+		const copy = new Inode(serialize(inode));
+
+		assert.equal(copy.version, _inode_version);
+		assert.equal(copy.ino, 2 ** 40 + 2);
+		assert.equal(copy.data, 2 ** 40 + 3);
+		assert.equal(copy.size, 2 ** 33 + 5);
+	});
+
+	test('Upgrading from version 4', () => {
+		// Version 4 used 32-bit IDs and size, with reserved upper halves for the IDs
+		const data = new Uint8Array(128);
+		const view = new DataView(data.buffer);
+		view.setUint32(0, 5, true);
+		view.setUint32(4, 0xdead, true); // stale upper bits
+		view.setUint32(8, 1234, true);
+		view.setUint16(12, 0o100644, true);
+		view.setUint32(14, 1, true);
+		view.setUint32(58, 4, true);
+		view.setUint32(62, 0xbeef, true);
+
+		const inode = new Inode(data);
+		assert.equal(inode.data, 5);
+		assert.equal(inode.ino, 4);
+		assert.equal(inode.size, 1234);
+		assert.equal(inode.version, _inode_version);
+	});
+
+	test('Large files in StoreFS', async () => {
+		const store = new InMemoryStore();
+		const fs = new StoreFS(store);
+		await fs.ready();
+		fs.createFileSync('/large', 'w', 0o644, { uid: 0, gid: 0 });
+		fs.touchSync('/large', { size: 2 ** 33 });
+
+		const reopened = new StoreFS(store);
+		await reopened.ready();
+		const stats = new BigIntStats(reopened.statSync('/large'));
+		assert.equal(stats.size, BigInt(2 ** 33));
+		assert.equal(stats.blocks, BigInt(2 ** 33 / 512));
+		assert(stats.isFile());
+	});
+
+	test('Sizes after writing at an offset in StoreFS', async () => {
+		const fs = new StoreFS(new InMemoryStore());
+		await fs.ready();
+		fs.createFileSync('/file', 'w', 0o644, { uid: 0, gid: 0 });
+
+		fs.writeSync('/file', new Uint8Array(16), 0);
+		fs.writeSync('/file', new Uint8Array(20), 16);
+		assert.equal(fs.statSync('/file').size, 36);
+
+		await fs.write('/file', new Uint8Array(20), 30);
+		assert.equal((await fs.stat('/file')).size, 50);
+	});
+});
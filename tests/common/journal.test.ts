@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { CopyOnWriteFS, InMemory, Journal, resolveMountConfig } from '../../dist/index.js';
+import { encodeUTF8 } from '../../dist/utils.js';
+import { creds } from '../common.js';
+
+const paths = ['/', '/a', '/a/b', '/a/b/c', '/d', '/d/e', '/with space', '/x', '/x/y'];
+
+function deleted(journal: Journal): string[] {
+	return paths.filter(path => journal.isDeleted(path));
+}
+
+suite('Journal', () => {
+	test('Round trip', () => {
+		const journal = new Journal();
+		journal.add('delete', '/with space');
+		journal.add('rename', '/a', '/quote"d');
+		journal.add('opaque', '/d');
+		journal.add('restore', '/d/e');
+
+		const parsed = new Journal().fromString(journal.toString());
+		assert(journal.toString().startsWith('#journal@v1\n'));
+		assert.equal(parsed.toString(), journal.toString());
+		assert(parsed.has('rename', '/a', '/quote"d'));
+		assert(parsed.isDeleted('/with space'));
+	});
+
+	test('Legacy journals', () => {
+		const journal = new Journal().fromString('#journal@v0\ndelete /a\ndelete /d/e');
+		assert.deepEqual(deleted(journal), ['/a', '/a/b', '/a/b/c', '/d/e']);
+	});
+
+	test('Renames, opaque directories and restores', () => {
+		const journal = new Journal();
+
+		journal.add('rename', '/a', '/x');
+		assert.deepEqual(deleted(journal), ['/a', '/a/b', '/a/b/c', '/x/y']);
+
+		journal.add('opaque', '/d');
+		assert(journal.isDeleted('/d/e'));
+		assert(!journal.isDeleted('/d'));
+
+		journal.add('restore', '/d/e');
+		assert(!journal.isDeleted('/d/e'));
+	});
+
+	test('Compaction', () => {
+		const journal = new Journal();
+		journal.add('delete', '/a/b/c');
+		journal.add('delete', '/a/b');
+		journal.add('delete', '/a');
+		journal.add('restore', '/x');
+		journal.add('delete', '/d/e');
+		journal.add('restore', '/d');
+		journal.add('opaque', '/d');
+		journal.add('opaque', '/d');
+		journal.add('delete', '/with space');
+
+		const before = deleted(journal);
+		journal.compact();
+
+		assert.deepEqual(deleted(journal), before);
+		assert.equal(journal.toString(), new Journal().fromString('#journal@v1\ndelete  "/a"\nopaque  "/d"\ndelete  "/with space"').toString());
+	});
+});
+
+suite('CopyOnWrite journal', () => {
+	test('Renamed directories stay renamed after a restart', async () => {
+		const readable = await resolveMountConfig({ backend: InMemory });
+		readable.mkdirSync('/dir', 0o755, creds);
+		readable.createFileSync('/dir/file', 'w', 0o644, creds);
+		readable.writeSync('/dir/file', encodeUTF8('content'), 0);
+
+		const writable = await resolveMountConfig({ backend: InMemory });
+
+		const cow = new CopyOnWriteFS(readable, writable);
+		cow.renameSync('/dir', '/renamed');
+
+		const restarted = new CopyOnWriteFS(readable, writable, new Journal().fromString(cow.journal.toString()));
+		assert(!restarted.existsSync('/dir'));
+		assert(!restarted.existsSync('/dir/file'));
+		assert.deepEqual(restarted.readdirSync('/'), ['renamed']);
+		assert.deepEqual(restarted.readdirSync('/renamed'), ['file']);
+	});
+
+	test('Re-created directories do not show deleted contents', async () => {
+		const readable = await resolveMountConfig({ backend: InMemory });
+		readable.mkdirSync('/dir', 0o755, creds);
+		readable.createFileSync('/dir/file', 'w', 0o644, creds);
+
+		const cow = new CopyOnWriteFS(readable, await resolveMountConfig({ backend: InMemory }));
+		cow.unlinkSync('/dir/file');
+		cow.rmdirSync('/dir');
+		cow.mkdirSync('/dir', 0o755, creds);
+		cow.createFileSync('/dir/new', 'w', 0o644, creds);
+
+		assert.deepEqual(cow.readdirSync('/'), ['dir']);
+		assert.deepEqual(cow.readdirSync('/dir'), ['new']);
+	});
+
+	test('Failed renames are not recorded', async () => {
+		const readable = await resolveMountConfig({ backend: InMemory });
+		readable.mkdirSync('/dir', 0o755, creds);
+		readable.createFileSync('/dir/file', 'w', 0o644, creds);
+
+		const cow = new CopyOnWriteFS(readable, await resolveMountConfig({ backend: InMemory }));
+		assert.throws(() => cow.renameSync('/dir/file', '/missing/file'), { code: 'ENOENT' });
+		await assert.rejects(cow.rename('/dir/file', '/missing/file'), { code: 'ENOENT' });
+
+		assert(!cow.journal.has('rename', '/dir/file', '/missing/file'));
+		assert(cow.existsSync('/dir/file'));
+	});
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { encodeUTF8 } from '../../dist/utils.js';
+import { creds, readFile } from '../common.js';
+
+async function setup(): Promise<InMemoryStore> {
+	const store = new InMemoryStore();
+	const fs = new StoreFS(store);
+	await fs.ready();
+	for (const dir of ['/a', '/a/b', '/c']) fs.mkdirSync(dir, 0o755, creds);
+	for (const file of ['/a/b/file', '/c/file']) {
+		fs.createFileSync(file, 'w', 0o644, creds);
+		fs.writeSync(file, encodeUTF8(file), 0);
+	}
+	return store;
+}
+
+async function lazy(store: InMemoryStore): Promise<StoreFS<InMemoryStore>> {
+	const fs = new StoreFS(store, { lazy: true });
+	await fs.ready();
+	return fs;
+}
+
+suite('Lazy StoreFS', () => {
+	test('Only the root is loaded initially', async () => {
+		const fs = await lazy(await setup());
+		assert.deepEqual([...fs._ids.keys()], ['/']);
+	});
+
+	test('Directories are loaded when paths are looked up', async () => {
+		const fs = await lazy(await setup());
+
+		assert.equal(readFile(fs, '/a/b/file'), '/a/b/file');
+		assert.deepEqual([...fs._ids.keys()].sort(), ['/', '/a', '/a/b', '/a/b/file', '/c']);
+
+		assert(!fs.existsSync('/a/missing'));
+		assert(!fs.existsSync('/c/file/missing'));
+		assert(await fs.exists('/c/file'));
+	});
+
+	test('Creating, renaming and removing files', async () => {
+		const fs = await lazy(await setup());
+
+		fs.createFileSync('/c/new', 'w', 0o644, creds);
+		fs.renameSync('/a/b', '/c/b');
+		await fs.rename('/c/file', '/c/b/moved');
+		fs.unlinkSync('/c/b/file');
+
+		assert.deepEqual(fs.readdirSync('/c').sort(), ['b', 'new']);
+		assert.deepEqual(fs.readdirSync('/c/b'), ['moved']);
+		assert.equal(readFile(fs, '/c/b/moved'), '/c/file');
+
+		// New IDs must not collide with ones that were never loaded
+		const inodes = new Set([...fs._ids.values()]);
+		await fs.populate();
+		assert.equal(new Set(fs._ids.values()).size, fs._ids.size);
+		for (const ino of inodes) assert(fs._paths.has(ino));
+	});
+
+	test('New IDs do not collide with orphaned keys', async () => {
+		const store = await setup();
+		const fs = await lazy(store);
+
+		// A key that is not reachable from the root and was added after the file system was ready
+		const orphan = Math.max(...store.keys()) + 2;
+		const data = encodeUTF8('orphan');
+		store.set(orphan, data);
+		fs._invalidate();
+
+		fs.createFileSync('/new', 'w', 0o644, creds);
+		assert(fs._ids.get('/new')! > orphan);
+		assert.equal(store.get(orphan), data);
+	});
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { Inode } from '../../dist/internal/inode.js';
+import { decodeDirEntries, decodeDirListing, encodeDirListing, encodeUTF8, updateDirListing } from '../../dist/utils.js';
+import { S_IFDIR, S_IFREG } from '../../dist/vfs/constants.js';
+import { creds } from '../common.js';
+
+suite('Directory listings', () => {
+	test('Binary listings are sorted and keep types', () => {
+		const data = encodeDirListing({ b: { ino: 2, type: S_IFREG }, a: { ino: 1, type: S_IFDIR }, ü: 3 });
+
+		assert.deepEqual(Object.keys(decodeDirListing(data)), ['a', 'b', 'ü']);
+		assert.deepEqual(decodeDirEntries(data), {
+			a: { ino: 1, type: S_IFDIR },
+			b: { ino: 2, type: S_IFREG },
+			ü: { ino: 3, type: 0 },
+		});
+	});
+
+	test('Updating single entries', () => {
+		const names = Array.from({ length: 1000 }, (_, i) => 'file' + i);
+		let data = encodeDirListing(Object.fromEntries(names.map((name, i) => [name, { ino: i, type: S_IFREG }])));
+
+		data = updateDirListing(data, 'new', { ino: 1000, type: S_IFDIR });
+		data = updateDirListing(data, 'file5', { ino: 5000, type: S_IFREG });
+		data = updateDirListing(data, 'file10');
+		data = updateDirListing(data, '😀', { ino: 1001, type: S_IFREG });
+		data = updateDirListing(data, 'ü', { ino: 1002, type: S_IFREG });
+
+		const expected = decodeDirEntries(encodeDirListing(decodeDirEntries(data)));
+		assert.deepEqual(data, encodeDirListing(expected));
+		assert.deepEqual(expected.new, { ino: 1000, type: S_IFDIR });
+		assert.deepEqual(expected.file5, { ino: 5000, type: S_IFREG });
+		assert.equal(expected.file10, undefined);
+		assert.equal(Object.keys(expected).length, 1002);
+
+		assert.equal(updateDirListing(data, 'missing'), data);
+		assert.throws(() => updateDirListing(data.subarray(0, 100), 'other', { ino: 1, type: 0 }), { code: 'EIO' });
+	});
+
+	test('Invalid listings', () => {
+		assert.throws(() => decodeDirEntries(encodeUTF8('not json')), { code: 'EIO' });
+		assert.throws(() => decodeDirEntries(encodeDirListing({ file: 1 }).subarray(0, 16)), { code: 'EIO' });
+	});
+
+	test('JSON listings are migrated', async () => {
+		const store = new InMemoryStore();
+		const fs = new StoreFS(store);
+		await fs.ready();
+		fs.mkdirSync('/dir', 0o755, creds);
+		fs.createFileSync('/dir/file', 'w', 0o644, creds);
+
+		// Replace the listing with the JSON format used by older versions
+		const { data } = new Inode(store.get(fs._ids.get('/dir')!));
+		store.set(data, encodeUTF8(JSON.stringify({ file: fs._ids.get('/dir/file') })));
+
+		const reopened = new StoreFS(store);
+		await reopened.ready();
+		assert.deepEqual(reopened.readdirSync('/dir'), ['file']);
+		assert.deepEqual(Array.from(reopened.readdirTypesSync('/dir')), [['file', 0]]);
+
+		reopened.createFileSync('/dir/other', 'w', 0o644, creds);
+		assert.notEqual(store.get(data)![0], '{'.charCodeAt(0));
+		assert.deepEqual(Array.from(reopened.readdirTypesSync('/dir')), [
+			['file', 0],
+			['other', S_IFREG],
+		]);
+	});
+
+	test('Changing entries keeps the listing cached', async () => {
+		const store = new InMemoryStore();
+		const fs = new StoreFS(store);
+		await fs.ready();
+		fs.mkdirSync('/dir', 0o755, creds);
+		for (let i = 0; i < 100; i++) fs.createFileSync('/dir/' + i, 'w', 0o644, creds);
+
+		const { data } = fs.statSync('/dir') as Inode;
+		fs.readdirSync('/dir');
+		const listing = fs._cache.get(data);
+		assert(listing);
+
+		fs.createFileSync('/dir/new', 'w', 0o644, creds);
+		fs.renameSync('/dir/0', '/dir/renamed');
+		await fs.rename('/dir/1', '/dir/2');
+		fs.unlinkSync('/dir/3');
+		fs.linkSync('/dir/4', '/dir/link');
+
+		// The cached listing was changed instead of being decoded again
+		assert.equal(fs._cache.get(data), listing);
+		const names = fs.readdirSync('/dir');
+		assert(names.includes('new') && names.includes('renamed') && names.includes('link'));
+		assert(!names.includes('0') && !names.includes('1') && !names.includes('3'));
+		assert.equal(names.length, 100);
+
+		const reopened = new StoreFS(store);
+		await reopened.ready();
+		assert.deepEqual(reopened.readdirSync('/dir').sort(), names.sort());
+	});
+
+	test('Out of date listings are not changed in place', async () => {
+		const store = new InMemoryStore();
+		const fs = new StoreFS(store);
+		await fs.ready();
+		fs.mkdirSync('/dir', 0o755, creds);
+		fs.createFileSync('/dir/file', 'w', 0o644, creds);
+
+		const { data } = fs.statSync('/dir') as Inode;
+		fs.readdirSync('/dir');
+		const listing = fs._cache.get(data);
+
+		// Change the listing without going through the cache
+		store.set(data, updateDirListing(store.get(data)!, 'other', { ino: fs._ids.get('/dir/file')!, type: S_IFREG }));
+
+		fs.createFileSync('/dir/new', 'w', 0o644, creds);
+		assert.notEqual(fs._cache.get(data), listing);
+		assert.deepEqual(fs.readdirSync('/dir').sort(), ['file', 'new', 'other']);
+	});
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import * as fs from '../../dist/vfs/index.js';
+
+fs.writeFileSync('/deadlock.txt', 'content');
+
+suite('Advisory locks', () => {
+	test('deadlocks are detected', async () => {
+		await using first = await fs.promises.open('/deadlock.txt', 'r+');
+		await using second = await fs.promises.open('/deadlock.txt', 'r+');
+
+		await first.lock({ start: 0, length: 1 });
+		await second.lock({ start: 1, length: 1 });
+
+		const waiting = first.lock({ start: 1, length: 1 });
+		await assert.rejects(second.lock({ start: 0, length: 1 }), { code: 'EDEADLK' });
+
+		await second.unlock({ start: 1, length: 1 });
+		await waiting;
+		await assert.rejects(second.lock({ start: 1, nonBlocking: true }), { code: 'EAGAIN' });
+	});
+
+	test('locks are released when a file is closed', async () => {
+		const handle = await fs.promises.open('/deadlock.txt', 'r');
+		await handle.lock({ shared: true });
+
+		const fd = fs.openSync('/deadlock.txt', 'r+');
+		assert.throws(() => fs.flockSync(fd, fs.constants.LOCK_EX | fs.constants.LOCK_NB), { code: 'EAGAIN' });
+
+		let locked = false;
+		const waiting = new Promise<void>((resolve, reject) => fs.flock(fd, fs.constants.LOCK_EX, e => (e ? reject(e) : resolve()))).then(
+			() => (locked = true)
+		);
+		await new Promise(resolve => setTimeout(resolve, 10));
+		assert(!locked);
+
+		await handle.close();
+		await waiting;
+		fs.closeSync(fd);
+	});
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { DedupStore } from '../../dist/backends/store/dedup.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { WALStore } from '../../dist/backends/store/wal.js';
+import { encodeUTF8 } from '../../dist/utils.js';
+import { creds } from '../common.js';
+
+for (const [name, store] of [
+	['native', () => new InMemoryStore()],
+	['transaction', () => new WALStore(new InMemoryStore())],
+	['deduplicated', () => new DedupStore()],
+] as const) {
+	suite(`Snapshots (${name})`, () => {
+		test('restore removes files created after the snapshot', async () => {
+			const fs = new StoreFS(store());
+			await fs.ready();
+
+			fs.mkdirSync('/dir', 0o755, creds);
+			const snapshot = await fs.snapshot();
+
+			fs.createFileSync('/dir/new', 'w', 0o644, creds);
+			fs.mkdirSync('/other', 0o755, creds);
+
+			await fs.restore(snapshot);
+
+			assert.deepEqual(fs.readdirSync('/'), ['dir']);
+			assert.deepEqual(fs.readdirSync('/dir'), []);
+			assert(!fs.existsSync('/dir/new'));
+		});
+
+		test('restoreSync rolls back file contents', async () => {
+			const fs = new StoreFS(store());
+			await fs.ready();
+
+			fs.createFileSync('/file', 'w', 0o644, creds);
+			fs.writeSync('/file', encodeUTF8('before'), 0);
+			const snapshot = fs.snapshotSync();
+
+			fs.writeSync('/file', encodeUTF8('after!!'), 0);
+			fs.unlinkSync('/file');
+
+			fs.restoreSync(snapshot);
+
+			const buffer = new Uint8Array(fs.statSync('/file').size);
+			fs.readSync('/file', buffer, 0, buffer.byteLength);
+			assert.deepEqual(buffer, encodeUTF8('before'));
+		});
+
+		test('snapshots are not affected by later changes', async () => {
+			const fs = new StoreFS(store());
+			await fs.ready();
+
+			fs.createFileSync('/file', 'w', 0o644, creds);
+			const snapshot = fs.snapshotSync();
+			const copy = new Map(Array.from(snapshot, ([id, data]) => [id, data.slice()]));
+
+			fs.writeSync('/file', encodeUTF8('changed'), 0);
+
+			assert.deepEqual(new Map(snapshot), copy);
+		});
+
+		test('restoreSync removes keys that are not reachable', async () => {
+			const fs = new StoreFS(store());
+			await fs.ready();
+
+			const snapshot = fs.snapshotSync();
+
+			using tx = fs.transaction();
+			tx.setSync(12345, encodeUTF8('unreachable'));
+			tx.commitSync();
+
+			fs.restoreSync(snapshot);
+			assert(!fs.transaction().getSync(12345));
+		});
+	});
+}
+
+suite('InMemoryStore snapshots', () => {
+	test('Data is only copied when it is read', async () => {
+		const store = new InMemoryStore();
+		const fs = new StoreFS(store);
+		await fs.ready();
+		fs.createFileSync('/file', 'w', 0o644, creds);
+		fs.writeSync('/file', encodeUTF8('shared'), 0);
+
+		const snapshot = store.snapshot();
+		for (const [id, data] of store) assert.equal(snapshot.get(id), data);
+
+		const [id, data] = Array.from(store).at(-1)!;
+		assert.notEqual(store.get(id), data);
+		assert.deepEqual(store.get(id), data);
+		assert.equal(store.get(id), store.get(id));
+	});
+});
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { crc32c } from 'utilium/checksum.js';
+import { decodeIntent, encodeIntent, legacyWalKey, WALStore, walKey } from '../../dist/backends/store/wal.js';
+import { encodeUTF8 } from '../../dist/utils.js';
+import { creds, readFile } from '../common.js';
+
+/**
+ * A store that "crashes" after a certain number of writes
+ */
+class CrashingStore extends InMemoryStore {
+	public writesUntilCrash?: number;
+
+	public set(id: number, data: Uint8Array): this {
+		if (this.writesUntilCrash !== undefined && this.writesUntilCrash-- <= 0) throw new Error('Simulated crash');
+		return super.set(id, data);
+	}
+}
+
+suite('Write-ahead log', () => {
+	test('Changes are applied on commit', async () => {
+		const raw = new InMemoryStore();
+		const fs = new StoreFS(new WALStore(raw));
+		await fs.ready();
+
+		fs.createFileSync('/file', 'w', 0o644, creds);
+		fs.writeSync('/file', encodeUTF8('content'), 0);
+
+		assert.equal(readFile(fs, '/file'), 'content');
+		assert(!raw.has(walKey));
+	});
+
+	test('Aborted changes never reach the store', async () => {
+		const raw = new InMemoryStore();
+		const fs = new StoreFS(new WALStore(raw));
+		await fs.ready();
+
+		const before = new Map(raw);
+
+		{
+			using tx = fs.transaction();
+			tx.setSync(1, encodeUTF8('garbage'));
+		}
+
+		assert.deepEqual(new Map(raw), before);
+	});
+
+	test('Interrupted commits are replayed', async () => {
+		const raw = new CrashingStore();
+		const fs = new StoreFS(new WALStore(raw));
+		await fs.ready();
+		fs.createFileSync('/file', 'w', 0o644, creds);
+
+		// Only the intent record is written
+		raw.writesUntilCrash = 1;
+		assert.throws(() => fs.writeSync('/file', encodeUTF8('content'), 0), { code: 'EIO' });
+		raw.writesUntilCrash = undefined;
+
+		assert(raw.has(walKey));
+
+		const recovered = new StoreFS(new WALStore(raw));
+		await recovered.ready();
+
+		assert.equal(readFile(recovered, '/file'), 'content');
+		assert(!raw.has(walKey));
+	});
+
+	test('Incomplete intent records are discarded', async () => {
+		const raw = new InMemoryStore();
+		const fs = new StoreFS(new WALStore(raw));
+		await fs.ready();
+		fs.createFileSync('/file', 'w', 0o644, creds);
+		fs.writeSync('/file', encodeUTF8('content'), 0);
+
+		raw.set(walKey, encodeUTF8('torn intent'));
+
+		const recovered = new StoreFS(new WALStore(raw));
+		await recovered.ready();
+
+		assert.equal(readFile(recovered, '/file'), 'content');
+		assert(!raw.has(walKey));
+	});
+
+	test('IDs larger than 32 bits', () => {
+		const id = 2 ** 40 + 2;
+		const changes = decodeIntent(
+			encodeIntent(
+				new Map([
+					[id, encodeUTF8('data')],
+					[id + 1, undefined],
+				])
+			)
+		);
+
+		assert.deepEqual(
+			changes,
+			new Map([
+				[id, encodeUTF8('data')],
+				[id + 1, undefined],
+			])
+		);
+	});
+
+	test('Legacy intent records are replayed', async () => {
+		const data = encodeUTF8('legacy');
+
+		// magic, checksum, number of entries, then an entry with a 32-bit ID, op, and data length
+		const record = new Uint8Array(21 + data.byteLength);
+		const view = new DataView(record.buffer);
+		view.setUint32(0, 0x7a2e776c, true);
+		view.setUint32(8, 1, true);
+		view.setUint32(12, 100, true);
+		view.setUint32(17, data.byteLength, true);
+		record.set(data, 21);
+		view.setUint32(4, crc32c(record.subarray(8)), true);
+
+		const raw = new InMemoryStore();
+		raw.set(legacyWalKey, record);
+		await new WALStore(raw).recover();
+
+		assert.deepEqual(raw.get(100), data);
+		assert(!raw.has(legacyWalKey));
+	});
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { InMemoryStore } from '../../dist/backends/memory.js';
+import { StoreFS } from '../../dist/backends/store/fs.js';
+import { bindContext } from '../../dist/context.js';
+import * as fs from '../../dist/vfs/index.js';
+
+fs.writeFileSync('/public', 'content');
+fs.chmodSync('/public', 0o666);
+fs.writeFileSync('/private', 'content');
+fs.chmodSync('/private', 0o644);
+
+const { fs: user } = bindContext('/', { uid: 1000, gid: 1000 });
+
+suite('Extended attributes', () => {
+	test('user attributes use file permissions', () => {
+		user.xattr.setSync('/public', 'user.comment', 'by user');
+		fs.xattr.setSync('/private', 'user.comment', 'by root');
+
+		assert.equal(user.xattr.getSync('/private', 'user.comment', { encoding: 'utf8' }), 'by root');
+		assert.throws(() => user.xattr.setSync('/private', 'user.comment', 'by user'), { code: 'EACCES' });
+		assert.throws(() => user.xattr.removeSync('/private', 'user.comment'), { code: 'EACCES' });
+	});
+
+	test('trusted attributes are only visible to root', async () => {
+		fs.xattr.setSync('/public', 'trusted.secret', 'value');
+
+		assert(fs.xattr.listSync('/public').includes('trusted.secret'));
+		assert(!user.xattr.listSync('/public').includes('trusted.secret'));
+		assert.throws(() => user.xattr.getSync('/public', 'trusted.secret'), { code: 'EPERM' });
+		await assert.rejects(user.promises.xattr.set('/public', 'trusted.other', 'value'), { code: 'EPERM' });
+	});
+
+	test('security attributes can only be changed by root', () => {
+		fs.xattr.setSync('/public', 'security.label', 'value');
+		assert.equal(user.xattr.getSync('/public', 'security.label', { encoding: 'utf8' }), 'value');
+		assert.throws(() => user.xattr.setSync('/public', 'security.label', 'changed'), { code: 'EPERM' });
+	});
+
+	test('attributes are persisted', async () => {
+		const store = new InMemoryStore();
+		const storeFS = new StoreFS(store);
+		await storeFS.ready();
+		storeFS.mkdirSync('/dir', 0o755, { uid: 0, gid: 0 });
+		storeFS.createFileSync('/dir/file', 'w', 0o644, { uid: 0, gid: 0 });
+		storeFS.setxattrsSync('/dir', { 'user.a': 'YQ==' });
+		await storeFS.setxattrs('/', { 'user.root': 'cm9vdA==' });
+
+		const reopened = new StoreFS(store);
+		await reopened.ready();
+		assert.deepEqual(reopened.getxattrsSync('/dir'), { 'user.a': 'YQ==' });
+		assert.deepEqual(await reopened.getxattrs('/'), { 'user.root': 'cm9vdA==' });
+		assert.deepEqual(reopened.readdirSync('/dir'), ['file']);
+	});
+});
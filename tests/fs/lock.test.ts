@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { fs } from '../common.js';
+
+const { LOCK_EX, LOCK_NB, LOCK_SH, LOCK_UN, F_GETLK, F_SETLK, F_SETLKW, F_RDLCK, F_WRLCK, F_UNLCK } = fs.constants;
+
+fs.writeFileSync('flock.txt', 'content');
+fs.writeFileSync('handle-lock.txt', 'content');
+fs.writeFileSync('range-lock.txt', 'content');
+
+suite('Advisory locks', () => {
+	test('flockSync', () => {
+		const fd1 = fs.openSync('flock.txt', 'r+');
+		const fd2 = fs.openSync('flock.txt', 'r');
+
+		fs.flockSync(fd1, LOCK_EX);
+		assert.throws(() => fs.flockSync(fd2, LOCK_SH | LOCK_NB), { code: 'EAGAIN' });
+		assert.throws(() => fs.flockSync(fd2, LOCK_SH), { code: 'EDEADLK' });
+
+		fs.flockSync(fd1, LOCK_SH);
+		fs.flockSync(fd2, LOCK_SH | LOCK_NB);
+		assert.throws(() => fs.flockSync(fd1, LOCK_EX | LOCK_NB), { code: 'EAGAIN' });
+
+		fs.flockSync(fd2, LOCK_UN);
+		fs.flockSync(fd1, LOCK_EX | LOCK_NB);
+
+		fs.closeSync(fd1);
+		fs.flockSync(fd2, LOCK_EX | LOCK_NB);
+		fs.closeSync(fd2);
+	});
+
+	test('FileHandle waits for locks to be released', async () => {
+		await using first = await fs.promises.open('handle-lock.txt', 'r+');
+		const second = await fs.promises.open('handle-lock.txt', 'r+');
+
+		await first.lock();
+		await assert.rejects(second.lock({ shared: true, nonBlocking: true }), { code: 'EAGAIN' });
+
+		let locked = false;
+		const waiting = second.lock().then(() => (locked = true));
+		await new Promise(resolve => setTimeout(resolve, 50));
+		assert(!locked);
+
+		await first.unlock();
+		await waiting;
+		assert(locked);
+
+		await second.close();
+		await first.lock({ nonBlocking: true });
+	});
+
+	test('byte ranges', async () => {
+		const fd1 = fs.openSync('range-lock.txt', 'r+');
+		const fd2 = fs.openSync('range-lock.txt', 'r+');
+
+		fs.fcntlSync(fd1, F_SETLK, { type: F_WRLCK, start: 0, length: 10 });
+		fs.fcntlSync(fd2, F_SETLK, { type: F_WRLCK, start: 10, length: 10 });
+		assert.throws(() => fs.fcntlSync(fd2, F_SETLK, { type: F_RDLCK, start: 5, length: 10 }), { code: 'EAGAIN' });
+		assert.throws(() => fs.fcntlSync(fd2, F_SETLKW, { type: F_RDLCK, start: 5 }), { code: 'EDEADLK' });
+
+		assert.deepEqual(fs.fcntlSync(fd2, F_GETLK, { type: F_RDLCK, start: 4, length: 1 }), { type: F_WRLCK, start: 0, length: 10 });
+		assert.deepEqual(fs.fcntlSync(fd2, F_GETLK, { type: F_RDLCK, start: 20 }), { type: F_UNLCK, start: 20, length: 0 });
+
+		// Removing part of a lock keeps the rest
+		fs.fcntlSync(fd1, F_SETLK, { type: F_UNLCK, start: 0, length: 5 });
+		fs.fcntlSync(fd2, F_SETLK, { type: F_RDLCK, start: 0, length: 5 });
+		assert.throws(() => fs.fcntlSync(fd2, F_SETLK, { type: F_RDLCK, start: 5, length: 1 }), { code: 'EAGAIN' });
+
+		// Whole file locks and byte-range locks are independent
+		fs.flockSync(fd1, LOCK_EX | LOCK_NB);
+		fs.flockSync(fd1, LOCK_UN);
+
+		await new Promise<void>((resolve, reject) => fs.fcntl(fd1, F_SETLK, { type: F_UNLCK }, e => (e ? reject(e) : resolve())));
+		fs.fcntlSync(fd2, F_SETLK, { type: F_WRLCK });
+
+		fs.closeSync(fd1);
+		fs.closeSync(fd2);
+	});
+
+	test('locks are released when a renamed or removed file is closed', () => {
+		fs.writeFileSync('moved-lock.txt', 'content');
+		fs.linkSync('moved-lock.txt', 'moved-lock-link.txt');
+
+		const fd = fs.openSync('moved-lock.txt', 'r+');
+		fs.flockSync(fd, LOCK_EX);
+		fs.renameSync('moved-lock.txt', 'moved-lock-2.txt');
+		fs.closeSync(fd);
+
+		const renamed = fs.openSync('moved-lock-2.txt', 'r+');
+		fs.flockSync(renamed, LOCK_EX | LOCK_NB);
+		fs.unlinkSync('moved-lock-2.txt');
+		fs.closeSync(renamed);
+
+		const link = fs.openSync('moved-lock-link.txt', 'r+');
+		fs.flockSync(link, LOCK_EX | LOCK_NB);
+		fs.closeSync(link);
+	});
+
+	test('invalid operations', () => {
+		const fd = fs.openSync('flock.txt', 'r');
+		assert.throws(() => fs.flockSync(fd, LOCK_NB), { code: 'EINVAL' });
+		assert.throws(() => fs.fcntlSync(fd, F_SETLK, { type: 3 }), { code: 'EINVAL' });
+		assert.throws(() => fs.fcntlSync(fd, F_SETLK, { type: F_RDLCK, start: -1 }), { code: 'EINVAL' });
+		fs.closeSync(fd);
+		assert.throws(() => fs.flockSync(fd, LOCK_EX), { code: 'EBADF' });
+	});
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { fs } from '../common.js';
+
+const lines = ['first', '', 'ünïcödé', 'carriage return', 'last'];
+fs.writeFileSync('lines.txt', 'first\n\nünïcödé\r\ncarriage return\rlast');
+
+suite('Reading lines', () => {
+	test('FileHandle.readLines', async () => {
+		await using handle = await fs.promises.open('lines.txt', 'r');
+		const read: string[] = [];
+		for await (const line of handle.readLines()) read.push(line);
+		assert.deepEqual(read, lines);
+	});
+
+	test('FileHandle.readLines with events', async () => {
+		await using handle = await fs.promises.open('lines.txt', 'r');
+		const read: string[] = [];
+		const rl = handle.readLines({ start: 6, encoding: 'latin1' });
+		rl.on('line', line => read.push(line));
+		await new Promise(resolve => rl.once('close', resolve));
+		assert.deepEqual(read, ['', Buffer.from('ünïcödé').toString('latin1'), 'carriage return', 'last']);
+	});
+
+	test('Lines split across chunks', async () => {
+		const long = ['a'.repeat(0x1000 - 1), 'é'.repeat(0x1000), 'b'.repeat(10)];
+		fs.writeFileSync('long-lines.txt', long.join('\r\n') + '\n');
+
+		await using handle = await fs.promises.open('long-lines.txt', 'r');
+		const read: string[] = [];
+		for await (const line of handle.readLines()) read.push(line);
+		assert.deepEqual(read, long);
+		assert.deepEqual([...fs.readLinesSync('long-lines.txt')], long);
+	});
+
+	test('readLinesSync', () => {
+		assert.deepEqual([...fs.readLinesSync('lines.txt')], lines);
+		assert.deepEqual([...fs.readLinesSync('lines.txt', { end: 10 })], ['first', '', 'ün']);
+
+		for (const line of fs.readLinesSync('lines.txt')) {
+			assert.equal(line, 'first');
+			break;
+		}
+	});
+});
@@ -53,6 +53,19 @@ suite('Rename', () => {
 		await fs.promises.rename(oldDir, newDir + '/newDir');
 	});
 
+	test('renameSync directory', async () => {
+		const oldDir = '/rename_sync_test';
+		const newDir = '/rename_sync_test2';
+
+		await fs.promises.mkdir(oldDir);
+		await populate(oldDir);
+
+		fs.renameSync(oldDir, newDir);
+
+		await check_directory(newDir);
+		assert(!fs.existsSync(oldDir));
+	});
+
 	test('rename file', async () => {
 		const dir = '/rename_file_test';
 		const one = dir + '/fun.js';
@@ -81,4 +81,23 @@ suite('times', () => {
 		const after = fs.statSync(path).mtimeMs;
 		assert(before < after);
 	});
+
+	test('utimes with nanoseconds', () => {
+		const time = BigInt('1700000000123456789');
+		fs.utimesSync(path, time, time);
+
+		const stats = fs.statSync(path, { bigint: true });
+		assert.equal(stats.atimeNs, time);
+		assert.equal(stats.mtimeNs, time);
+		assert.equal(stats.mtimeMs, BigInt(1700000000123));
+		assert.equal(fs.statSync(path).mtime.getTime(), 1700000000123);
+	});
+
+	test('writes in quick succession have different mtimes', () => {
+		fs.writeFileSync(path, 'first');
+		const before = fs.statSync(path, { bigint: true }).mtimeNs;
+		fs.writeFileSync(path, 'second');
+		const after = fs.statSync(path, { bigint: true }).mtimeNs;
+		assert(before < after);
+	});
 });
@@ -66,13 +66,60 @@ await suite('Watch Features', () => {
 		assert(!changeDetected);
 	});
 
+	test('fs.watchFile should not wait for the interval', async () => {
+		const { promise, resolve } = Promise.withResolvers<[Stats, Stats]>();
+
+		fs.watchFile(testFile, { interval: 60_000 }, (curr, prev) => resolve([curr, prev]));
+		await fs.promises.appendFile(testFile, '!');
+
+		const [curr, prev] = await promise;
+		fs.unwatchFile(testFile);
+		assert.equal(curr.size, prev.size + 1);
+	});
+
+	test('fs.watchFile should detect metadata changes', async () => {
+		const { promise, resolve } = Promise.withResolvers<[Stats, Stats]>();
+
+		fs.watchFile(testFile, { interval: 60_000 }, (curr, prev) => resolve([curr, prev]));
+		fs.chmodSync(testFile, 0o600);
+
+		const [curr, prev] = await promise;
+		fs.unwatchFile(testFile);
+		assert.equal(curr.mode & 0o777, 0o600);
+		assert.notEqual(prev.mode & 0o777, 0o600);
+		fs.chmodSync(testFile, 0o644);
+	});
+
+	test('fs.watch should report truncation and metadata changes', () => {
+		const events: [string, string][] = [];
+		const watcher = fs.watch(testFile, (eventType, filename) => events.push([eventType, filename]));
+
+		fs.truncateSync(testFile, 5);
+		fs.chmodSync(testFile, 0o644);
+		fs.chownSync(testFile, 0, 0);
+		fs.utimesSync(testFile, 1000, 1000);
+
+		const fd = fs.openSync(testFile, 'r+');
+		fs.ftruncateSync(fd, 4);
+		fs.fchmodSync(fd, 0o644);
+		fs.fchownSync(fd, 0, 0);
+		fs.futimesSync(fd, 2000, 2000);
+		fs.closeSync(fd);
+
+		watcher.close();
+		assert.deepEqual(events, Array(8).fill(['change', 'test.txt']));
+	});
+
 	test('fs.watch should work with directories', async () => {
-		using watcher = fs.watch(testDir, (eventType, filename) => {
-			assert.equal(eventType, 'change');
-			assert.equal(filename, 'newFile.txt');
-		});
+		const events: [string, string][] = [];
+		const watcher = fs.watch(testDir, (eventType, filename) => events.push([eventType, filename]));
 
 		await fs.promises.writeFile(testDir + '/newFile.txt', 'Content');
+		watcher.close();
+
+		// Creating the file is a rename, writing to it is a change
+		assert.deepEqual(events[0], ['rename', 'newFile.txt']);
+		assert(events.slice(1).every(event => event[0] == 'change' && event[1] == 'newFile.txt'));
 	});
 
 	test('fs.watch should detect file renames', async () => {
@@ -87,10 +134,10 @@ await suite('Watch Features', () => {
 
 		const fileResolvers: Record<string, { resolver: PromiseWithResolvers<void>; eventType: string }> = {
 			[oldFileName]: { resolver: oldFileResolver, eventType: 'rename' },
-			[newFileName]: { resolver: newFileResolver, eventType: 'change' },
+			[newFileName]: { resolver: newFileResolver, eventType: 'rename' },
 		};
 
-		using watcher = fs.watch(testDir, (eventType, filename) => {
+		const watcher = fs.watch(testDir, (eventType, filename) => {
 			const resolver = fileResolvers[filename];
 			assert.notEqual(resolver, undefined); // should have a resolver so file is expected
 			assert.equal(eventType, resolver.eventType);
@@ -100,6 +147,7 @@ await suite('Watch Features', () => {
 		// Rename the file to trigger the event
 		await fs.promises.rename(oldFile, newFile);
 		await Promise.all([newFileResolver.promise, oldFileResolver.promise]);
+		watcher.close();
 	});
 
 	test('fs.watch should detect file deletions', async () => {
@@ -107,12 +155,13 @@ await suite('Watch Features', () => {
 
 		await fs.promises.writeFile(tempFile, 'Temporary content');
 
-		using watcher = fs.watch(tempFile, (eventType, filename) => {
+		const watcher = fs.watch(tempFile, (eventType, filename) => {
 			assert.equal(eventType, 'rename');
 			assert.equal(filename, 'tempFile.txt');
 		});
 
 		await fs.promises.unlink(tempFile);
+		watcher.close();
 	});
 
 	test('fs.promises.watch should detect file deletions', async () => {
@@ -139,7 +188,7 @@ await suite('Watch Features', () => {
 		const subDir = `${testDir}/sub-dir`;
 		const tempFile = `${subDir}/tempFile.txt`;
 		await fs.promises.mkdir(subDir);
-		const watcher = fs.promises.watch('/');
+		const watcher = fs.promises.watch('/', { recursive: true });
 
 		await fs.promises.writeFile(tempFile, 'Temporary content');
 		const promise = (async () => {
@@ -154,6 +203,95 @@ await suite('Watch Features', () => {
 		await watcher.return!();
 		await promise;
 	});
+
+	test('fs.watch should only report nested changes when recursive', async () => {
+		const nested = testDir + '/nested';
+		await fs.promises.mkdir(nested);
+
+		const changes: string[] = [];
+		const watchers = [
+			fs.watch(testDir, (eventType, filename) => changes.push(filename)),
+			fs.watch(testDir, { recursive: true }, (eventType, filename) => changes.push('recursive ' + filename)),
+		];
+
+		await fs.promises.writeFile(nested + '/file.txt', 'content');
+		for (const watcher of watchers) watcher.close();
+		assert(changes.length > 0);
+		assert(changes.every(change => change == 'recursive nested/file.txt'));
+
+		await fs.promises.rm(nested, { recursive: true });
+	});
+
+	test('fs.watch should report both sides of a rename', async () => {
+		await fs.promises.writeFile(testDir + '/a.txt', 'content');
+
+		const events: [string, string][] = [];
+		const watcher = fs.watch(testDir, (eventType, filename) => events.push([eventType, filename]));
+
+		fs.renameSync(testDir + '/a.txt', testDir + '/b.txt');
+		watcher.close();
+		assert.deepEqual(events, [
+			['rename', 'a.txt'],
+			['rename', 'b.txt'],
+		]);
+
+		await fs.promises.unlink(testDir + '/b.txt');
+	});
+
+	test('fs.watch should close when the signal is aborted', async () => {
+		const controller = new AbortController();
+		let changed = false,
+			closed = false;
+
+		const watcher = fs.watch(testDir, { signal: controller.signal }, () => (changed = true));
+		watcher.on('close', () => (closed = true));
+
+		controller.abort();
+		assert(closed);
+
+		await fs.promises.writeFile(testDir + '/aborted.txt', 'content');
+		assert(!changed);
+		await fs.promises.unlink(testDir + '/aborted.txt');
+	});
+
+	test('fs.watch should support buffer filenames', async () => {
+		const { promise, resolve } = Promise.withResolvers<unknown>();
+
+		const watcher = fs.watch(testDir, { encoding: 'buffer' }, (eventType, filename) => resolve(filename));
+
+		await fs.promises.writeFile(testDir + '/buffer.txt', 'content');
+		const filename = await promise;
+		watcher.close();
+		assert(Buffer.isBuffer(filename));
+		assert.equal(filename.toString(), 'buffer.txt');
+
+		await fs.promises.unlink(testDir + '/buffer.txt');
+	});
+
+	test('fs.promises.watch should queue events until they are iterated over', async () => {
+		const watcher = fs.promises.watch(testDir, { maxQueue: 2, overflow: 'throw' });
+
+		fs.writeFileSync(testDir + '/queued.txt', 'content');
+		fs.unlinkSync(testDir + '/queued.txt');
+		fs.writeFileSync(testDir + '/overflow.txt', 'content');
+
+		assert.equal((await watcher.next()).value?.filename, 'queued.txt');
+		assert.equal((await watcher.next()).value?.filename, 'queued.txt');
+		await assert.rejects(watcher.next(), { code: 'ENOBUFS' });
+		assert((await watcher.next()).done);
+
+		fs.unlinkSync(testDir + '/overflow.txt');
+	});
+
+	test('fs.promises.watch should end when the signal is aborted', async () => {
+		const controller = new AbortController();
+		const watcher = fs.promises.watch(testDir, { signal: controller.signal });
+
+		const next = watcher.next();
+		controller.abort();
+		await assert.rejects(next, { name: 'AbortError' });
+		assert((await watcher.next()).done);
+	});
 });
 
 await fs.promises.rm(testFile);
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { suite, test } from 'node:test';
+import { fs } from '../common.js';
+
+const file = 'xattr.txt';
+const hash = new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0x00, 0xff]);
+
+fs.writeFileSync(file, 'content');
+fs.symlinkSync(file, 'xattr-link');
+
+suite('Extended attributes', () => {
+	test('set and get', async () => {
+		await fs.promises.xattr.set(file, 'user.mime_type', 'text/plain');
+		assert.equal(await fs.promises.xattr.get(file, 'user.mime_type', { encoding: 'utf8' }), 'text/plain');
+		assert.deepEqual(await fs.promises.xattr.get(file, 'user.mime_type'), Buffer.from('text/plain'));
+
+		fs.xattr.setSync(file, 'user.hash', hash);
+		assert.deepEqual(new Uint8Array(fs.xattr.getSync(file, 'user.hash')), hash);
+		assert.deepEqual((await fs.promises.xattr.list(file)).sort(), ['user.hash', 'user.mime_type']);
+	});
+
+	test('callbacks', async () => {
+		await new Promise<void>((resolve, reject) => fs.xattr.set(file, 'user.callback', 'value', e => (e ? reject(e) : resolve())));
+		const value = await new Promise<string>((resolve, reject) =>
+			fs.xattr.get(file, 'user.callback', { encoding: 'utf8' }, (e, value) => (e ? reject(e) : resolve(value!)))
+		);
+		assert.equal(value, 'value');
+		await new Promise<void>((resolve, reject) => fs.xattr.remove(file, 'user.callback', e => (e ? reject(e) : resolve())));
+		assert(!fs.xattr.listSync(file).includes('user.callback'));
+	});
+
+	test('remove', async () => {
+		fs.xattr.setSync(file, 'user.removed', 'value');
+		fs.xattr.removeSync(file, 'user.removed');
+		assert.throws(() => fs.xattr.getSync(file, 'user.removed'), { code: 'ENODATA' });
+		await assert.rejects(fs.promises.xattr.remove(file, 'user.removed'), { code: 'ENODATA' });
+	});
+
+	test('concurrent updates', async () => {
+		const names = ['user.concurrent.a', 'user.concurrent.b', 'user.concurrent.c'];
+		await Promise.all(names.map(name => fs.promises.xattr.set(file, name, name)));
+		assert.deepEqual((await fs.promises.xattr.list(file)).filter(name => names.includes(name)).sort(), names);
+
+		await Promise.all(names.map(name => fs.promises.xattr.remove(file, name)));
+		assert(!(await fs.promises.xattr.list(file)).some(name => names.includes(name)));
+	});
+
+	test('create and replace', async () => {
+		await fs.promises.xattr.set(file, 'user.flags', 'first', { create: true });
+		await assert.rejects(fs.promises.xattr.set(file, 'user.flags', 'second', { create: true }), { code: 'EEXIST' });
+		await assert.rejects(fs.promises.xattr.set(file, 'user.missing', 'value', { replace: true }), { code: 'ENODATA' });
+		await fs.promises.xattr.set(file, 'user.flags', 'second', { replace: true });
+		assert.equal(fs.xattr.getSync(file, 'user.flags', { encoding: 'utf8' }), 'second');
+	});
+
+	test('invalid names and values', () => {
+		assert.throws(() => fs.xattr.setSync(file, 'mime_type', 'value'), { code: 'ENOTSUP' });
+		assert.throws(() => fs.xattr.setSync(file, 'other.mime_type', 'value'), { code: 'ENOTSUP' });
+		assert.throws(() => fs.xattr.setSync(file, 'user.' + 'x'.repeat(fs.xattr.name_max), 'value'), { code: 'ERANGE' });
+		assert.throws(() => fs.xattr.setSync(file, 'user.large', new Uint8Array(fs.xattr.size_max + 1)), { code: 'E2BIG' });
+	});
+
+	test('symbolic links', async () => {
+		await fs.promises.xattr.set('xattr-link', 'user.followed', 'value');
+		assert(fs.xattr.listSync(file).includes('user.followed'));
+		assert(!fs.xattr.llistSync('xattr-link').includes('user.followed'));
+		assert.throws(() => fs.xattr.lsetSync('xattr-link', 'user.link', 'value'), { code: 'EPERM' });
+	});
+
+	test('file descriptors', async () => {
+		await using handle = await fs.promises.open(file, 'r');
+		await fs.promises.xattr.fset(handle, 'user.fd', 'value');
+		assert.equal(fs.xattr.fgetSync(handle.fd, 'user.fd', { encoding: 'utf8' }), 'value');
+		assert(fs.xattr.flistSync(handle.fd).includes('user.fd'));
+	});
+});